@@ -5,11 +5,36 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import React from 'react';
 import { render } from 'ink';
-import { ConfigManager } from './utils/config.js';
+import {
+  CONFIG_SCHEMA,
+  ConfigFileLayer,
+  ConfigKey,
+  ConfigManager,
+  formatConfigValue,
+  getConfigField,
+} from './utils/config.js';
 import { ProviderFactory } from './providers/index.js';
+import { CommandContext, CommandPrompt, createCommandRegistry } from './commands/index.js';
+import { getActiveModel, recordFallbackSwitches } from './providers/fallback.js';
 import { ToolManager } from './tools/index.js';
 import { SessionManager } from './utils/session.js';
-import { Message } from './types/index.js';
+import { AIProvider, Config, Message } from './types/index.js';
+import { ContextManager, describeCompaction } from './utils/contextManager.js';
+import { ConversationEngine, ConversationEvent } from './utils/conversation.js';
+import { addUsage, costTracker, EMPTY_USAGE_TOTALS, formatUsageTotals, UsageTotals } from './utils/costTracker.js';
+import {
+  PermissionDecision,
+  PermissionManager,
+  PermissionPolicy,
+  PermissionRequest,
+  PERMISSION_CHOICES,
+  createHeadlessPrompter,
+} from './utils/permissions.js';
+import { PlanDecision, PlanMode } from './utils/planMode.js';
+import { SystemPrompt } from './utils/systemPrompt.js';
+import { openInEditor } from './utils/editor.js';
+import { CatalogStatus, modelCatalog } from './utils/modelCatalog.js';
+import { formatModelTable, modelRegistry } from './utils/modelRegistry.js';
 import { App } from './tui/app.js';
 
 const program = new Command();
@@ -32,11 +57,14 @@ async function main() {
     .option('--output-format <format>', 'Output format (only works with --print)', 'text')
     .option('--input-format <format>', 'Input format', 'text')
     .option('--model <model>', 'Model for the current session')
-    .option('--temperature <temperature>', 'Temperature for responses (0.0-1.0)', parseFloat)
+    .option('--temperature <temperature>', 'Temperature for responses (0.0-2.0)', parseFloat)
     .option('--max-tokens <maxTokens>', 'Maximum tokens in response', parseInt)
-    .option('--provider <provider>', 'AI provider to use (openai|openrouter|ollama)')
+    .option('--max-turns <maxTurns>', 'Maximum tool-calling turns per request', parseInt)
+    .option('--provider <provider>', 'AI provider to use (openai|openrouter|anthropic|gemini|ollama|openai-compatible)')
     .option('--no-tui', 'Disable TUI interface and use simple text mode')
-    .option('--dangerously-skip-permissions', 'Skip permission prompts (use with caution)')
+    .option('--dangerously-skip-permissions', 'Skip safety checks and permission prompts (use with caution)')
+    .option('--plan', 'Start in plan mode: read-only tools until you approve a plan')
+    .option('--permission-policy <policy>', 'Answer permission prompts in --print mode (deny|accept-edits|allow)')
     .option('-c, --continue', 'Continue the most recent conversation')
     .option('-r, --resume [sessionId]', 'Resume a conversation by session ID')
     .action(async (prompt, options) => {
@@ -54,12 +82,18 @@ async function main() {
         if (options.maxTokens !== undefined) {
           configManager.updateConfig({ maxTokens: options.maxTokens });
         }
+        if (options.maxTurns !== undefined) {
+          configManager.updateConfig({ maxTurns: options.maxTurns });
+        }
         if (options.verbose !== undefined) {
           configManager.updateConfig({ verbose: options.verbose });
         }
         if (options.dangerouslySkipPermissions !== undefined) {
           configManager.updateConfig({ dangerouslySkipPermissions: options.dangerouslySkipPermissions });
         }
+        if (options.permissionPolicy) {
+          configManager.updateConfig({ permissionPolicy: options.permissionPolicy });
+        }
 
         // Validate configuration
         const validation = configManager.validateConfig();
@@ -76,6 +110,23 @@ async function main() {
         // Set config for tool manager
         toolManager.setConfig(config);
 
+        const policy = new PermissionPolicy({ config });
+        await policy.load();
+        policy.errors.forEach(error => console.error(chalk.yellow(`Ignoring invalid permission rules in ${error}`)));
+        const permissions = new PermissionManager({ policy });
+        const planMode = new PlanMode(!!options.plan);
+        toolManager.setPolicy(policy);
+        toolManager.setContext({ provider, permissions, planMode });
+
+        // Nobody can answer prompts in print mode, so the headless policy decides
+        // and plans cannot be reviewed
+        if (options.print) {
+          permissions.setPrompter(createHeadlessPrompter(config.permissionPolicy || 'deny'));
+        } else {
+          permissions.setPrompter(promptForPermission);
+          planMode.setReviewer(reviewPlan);
+        }
+
         if (options.debug || config.verbose) {
           console.log(chalk.gray(`Using provider: ${config.provider}`));
           console.log(chalk.gray(`Model: ${config.defaultModel || provider.getDefaultModel()}`));
@@ -91,7 +142,7 @@ async function main() {
             await startInteractiveMode(provider, configManager, toolManager, options);
           } else {
             // Start TUI mode
-            await startTUIMode(prompt, configManager, options);
+            await startTUIMode(prompt, configManager, toolManager, permissions, planMode, options);
           }
         }
       } catch (error) {
@@ -100,28 +151,174 @@ async function main() {
       }
     });
 
-  program
+  const configCommand = program
     .command('config')
-    .description('Show current configuration and environment variables help')
+    .description('Show, get or change configuration (run without a subcommand to show all values)')
     .action(() => {
+      const loadErrors = configManager.getLoadErrors();
+      if (loadErrors.length > 0) {
+        console.error(chalk.red('Configuration errors:'));
+        loadErrors.forEach(error => console.error(chalk.red(`  - ${error}`)));
+        process.exit(1);
+      }
+
       const config = configManager.getConfig();
       console.log(chalk.blue('Current Configuration:'));
-      console.log(JSON.stringify(config, null, 2));
+      for (const key of Object.keys(CONFIG_SCHEMA) as ConfigKey[]) {
+        const value = formatConfigValue(key, config[key]);
+        console.log(`  ${key.padEnd(28)} ${value.padEnd(32)} ${chalk.gray(configManager.describeSource(key))}`);
+      }
+
+      console.log(chalk.blue('\nConfig files (later files override earlier ones):'));
+      (['user', 'project', 'local'] as const).forEach(layer => {
+        console.log(`  ${layer.padEnd(8)} ${configManager.getConfigPath(layer)}`);
+      });
+      console.log(chalk.gray('  Environment variables and command-line flags override all files.'));
+
       console.log(ConfigManager.getEnvironmentVariableHelp());
     });
 
+  configCommand
+    .command('get <key>')
+    .description('Print the effective value of a config key')
+    .action((key: string) => {
+      try {
+        getConfigField(key);
+        console.log(formatConfigValue(key as ConfigKey, configManager.getConfig()[key as ConfigKey]));
+      } catch (error) {
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  configCommand
+    .command('set <key> <value>')
+    .description('Save a config value (API keys always go to the user credentials file)')
+    .option('--user', 'Write to the user config (default)')
+    .option('--project', 'Write to the shared project config')
+    .option('--local', 'Write to the git-ignored local project config')
+    .action(async (key: string, value: string, options) => {
+      try {
+        const layer = await configManager.setPersistentValue(key, value, getConfigLayer(options));
+        const shown = formatConfigValue(key as ConfigKey, configManager.getConfig()[key as ConfigKey]);
+        console.log(chalk.green(`Set ${key} = ${shown} in ${layer} config (${configManager.getConfigPath(layer)})`));
+        if (configManager.getSource(key as ConfigKey) !== layer) {
+          console.log(chalk.yellow(`Note: ${key} is currently overridden by ${configManager.describeSource(key as ConfigKey)}`));
+        }
+      } catch (error) {
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  configCommand
+    .command('unset <key>')
+    .description('Remove a saved config value')
+    .option('--user', 'Remove from the user config (default)')
+    .option('--project', 'Remove from the shared project config')
+    .option('--local', 'Remove from the git-ignored local project config')
+    .action(async (key: string, options) => {
+      try {
+        const removed = await configManager.unsetPersistentValue(key, getConfigLayer(options));
+        console.log(removed ? chalk.green(`Removed ${key}`) : chalk.gray(`${key} was not set in that config file`));
+      } catch (error) {
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  configCommand
+    .command('edit')
+    .description('Open a config file in $VISUAL or $EDITOR')
+    .option('--user', 'Edit the user config (default)')
+    .option('--project', 'Edit the shared project config')
+    .option('--local', 'Edit the git-ignored local project config')
+    .action(async (options) => {
+      try {
+        const path = await configManager.ensureConfigFile(getConfigLayer(options));
+        openInEditor(path);
+
+        configManager.reload();
+        const fileErrors = configManager.getLoadErrors().filter(error => error.includes(path));
+        if (fileErrors.length > 0) {
+          console.error(chalk.red(`${path} has errors and will be partly ignored:`));
+          fileErrors.forEach(error => console.error(chalk.red(`  - ${error}`)));
+          process.exit(1);
+        }
+        console.log(chalk.green(`Saved ${path}`));
+      } catch (error) {
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
   program
-    .command('models')
-    .description('List supported models for the current provider')
+    .command('permissions')
+    .description('List the effective permission rules and where each came from')
     .action(async () => {
+      const policy = new PermissionPolicy({ config: configManager.getConfig() });
+      await policy.load();
+
+      policy.errors.forEach(error => console.error(chalk.red(`Invalid permission rules in ${error}`)));
+
+      const rules = policy.getRules();
+      if (rules.length === 0) {
+        console.log(chalk.gray('No permission rules configured.'));
+      } else {
+        const colors = { deny: chalk.red, ask: chalk.yellow, allow: chalk.green };
+        console.log(chalk.blue('Permission rules (deny > ask > allow):'));
+        rules.forEach(rule => {
+          const origin = rule.source === 'environment'
+            ? 'environment'
+            : `${rule.source} (${policy.getPath(rule.source)})`;
+          console.log(`  ${colors[rule.behavior](rule.behavior.padEnd(5))} ${rule.pattern.padEnd(40)} ${chalk.gray(origin)}`);
+        });
+      }
+
+      console.log(chalk.gray(`\nUser rules:    ${policy.getPath('user')}`));
+      console.log(chalk.gray(`Project rules: ${policy.getPath('project')}`));
+    });
+
+  program
+    .command('models')
+    .description('List models for the current provider with their limits, features and prices')
+    .option('-s, --search <text>', 'Only list models whose id contains the text')
+    .option('--json', 'Print the models as JSON')
+    .option('--refresh', 'Fetch the model list again instead of using the cache')
+    .action(async (options) => {
       try {
         const provider = ProviderFactory.createProvider(configManager);
-        const models = await Promise.resolve(provider.getSupportedModels());
-        console.log(chalk.blue(`Supported models for ${provider.name}:`));
-        models.forEach((model: string) => {
-          const isDefault = model === provider.getDefaultModel();
-          console.log(`  ${isDefault ? '* ' : '  '}${model}${isDefault ? ' (default)' : ''}`);
-        });
+        if (options.refresh) {
+          modelCatalog.invalidate(provider.name);
+        }
+
+        const supported = await Promise.resolve(provider.getSupportedModels());
+        // Models added through models.json are listed too
+        const ids = [...new Set([...supported, ...modelRegistry.listOverrides(provider.name).map(model => model.id)])];
+        const search = options.search?.toLowerCase();
+        const models = ids
+          .filter(id => !search || id.toLowerCase().includes(search))
+          .map(id => modelRegistry.get(provider.name, id));
+        const defaultModel = configManager.getConfig().defaultModel || provider.getDefaultModel();
+
+        if (options.json) {
+          console.log(JSON.stringify(models.map(model => ({ ...model, isDefault: model.id === defaultModel })), null, 2));
+          return;
+        }
+
+        console.log(chalk.blue(`Available models for ${provider.name}:`));
+        const status = modelCatalog.getStatus(provider.name);
+        if (status) {
+          console.log(chalk.gray(describeCatalogStatus(status)));
+        }
+        if (!models.length) {
+          console.log(chalk.yellow(`No models match '${options.search}'`));
+          return;
+        }
+
+        const [header, ...rows] = formatModelTable(models, defaultModel);
+        console.log(chalk.gray(header));
+        rows.forEach(row => console.log(row));
       } catch (error) {
         console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
         process.exit(1);
@@ -172,12 +369,47 @@ async function main() {
   await program.parseAsync();
 }
 
-async function startTUIMode(initialPrompt: string | undefined, configManager: ConfigManager, options: any): Promise<void> {
+function getConfigLayer(options: { user?: boolean; project?: boolean; local?: boolean }): Exclude<ConfigFileLayer, 'credentials'> {
+  const selected = (['user', 'project', 'local'] as const).filter(layer => options[layer]);
+  if (selected.length > 1) {
+    throw new Error('Choose only one of --user, --project and --local');
+  }
+  return selected[0] || 'user';
+}
+
+function describeCatalogStatus(status: CatalogStatus): string {
+  const fetched = status.fetchedAt ? new Date(status.fetchedAt).toLocaleString() : '';
+  switch (status.origin) {
+    case 'api':
+      return 'Fetched from the provider just now';
+    case 'cache':
+      return `Cached list from ${fetched} (use --refresh to fetch it again)`;
+    case 'stale-cache':
+      return `Could not reach the provider (${status.error}); showing the list cached ${fetched}`;
+    case 'builtin':
+      return `Could not reach the provider (${status.error}); showing the built-in list`;
+  }
+}
+
+async function startTUIMode(
+  initialPrompt: string | undefined,
+  configManager: ConfigManager,
+  toolManager: ToolManager,
+  permissions: PermissionManager,
+  planMode: PlanMode,
+  options: any
+): Promise<void> {
   try {
     const { waitUntilExit } = render(React.createElement(App, {
       initialPrompt,
       configManager,
-    }));
+      toolManager,
+      permissions,
+      planMode,
+    }), {
+      // Ctrl+C cancels the running turn first; the app exits itself when idle
+      exitOnCtrlC: false,
+    });
     
     await waitUntilExit();
   } catch (error) {
@@ -185,14 +417,157 @@ async function startTUIMode(initialPrompt: string | undefined, configManager: Co
     console.log(chalk.yellow('Falling back to text mode...'));
     // Fallback to text mode
     const provider = ProviderFactory.createProvider(configManager);
-    const toolManager = new ToolManager();
+    toolManager.setContext({ provider });
+    permissions.setPrompter(promptForPermission);
+    planMode.setReviewer(reviewPlan);
     await startInteractiveMode(provider, configManager, toolManager, { ...options, noTui: true });
   }
 }
 
+function createConversationEngine(
+  provider: AIProvider,
+  config: Config,
+  toolManager: ToolManager,
+  stream = true,
+  systemPrompt = new SystemPrompt(),
+  signal?: AbortSignal
+): ConversationEngine {
+  return new ConversationEngine(provider, toolManager, {
+    model: config.defaultModel,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    maxTurns: config.maxTurns,
+    stream,
+    signal,
+    contextManager: config.autoCompact === false ? undefined : createContextManager(provider, config),
+    systemPrompt,
+  });
+}
+
+/**
+ * Makes Ctrl+C cancel the running turn instead of ending the process, as it
+ * does in the TUI; a second Ctrl+C exits. Returns a function that restores
+ * the default.
+ */
+function cancelOnInterrupt(controller: AbortController): () => void {
+  const interrupt = () => {
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    controller.abort();
+  };
+  process.on('SIGINT', interrupt);
+  return () => process.off('SIGINT', interrupt);
+}
+
+function createContextManager(provider: AIProvider, config: Config): ContextManager {
+  return new ContextManager(provider, { model: config.defaultModel, maxTokens: config.maxTokens });
+}
+
+/** Records the usage of one request of the tool loop and returns the new running totals */
+async function trackRequestUsage(
+  provider: AIProvider,
+  config: Config,
+  event: Extract<ConversationEvent, { type: 'usage' }>,
+  totals: UsageTotals,
+  sessionId?: string
+): Promise<UsageTotals> {
+  const cost = await costTracker.trackUsage(
+    provider.name,
+    getActiveModel(provider, config.defaultModel),
+    event.usage.inputTokens,
+    event.usage.outputTokens,
+    sessionId,
+    event.turn
+  );
+  return addUsage(totals, event.usage, cost);
+}
+
+function printConversationEvent(event: ConversationEvent): void {
+  switch (event.type) {
+    case 'text':
+      process.stdout.write(event.content);
+      break;
+    case 'tool_call':
+      console.log(chalk.gray(`\n⚙ ${event.toolCall.name} ${event.toolCall.arguments}`));
+      break;
+    case 'tool_result':
+      if (event.isError) {
+        console.log(chalk.red(`  ${event.result.split('\n')[0]}`));
+      }
+      break;
+    case 'max_turns':
+      console.log(chalk.yellow(`\nStopped after ${event.turns} tool-calling turns (see --max-turns).`));
+      break;
+    case 'compaction':
+      console.log(chalk.gray(`\n${describeCompaction(event.compaction)}`));
+      break;
+    case 'cancelled':
+      console.log(chalk.yellow('\nCancelled. The conversation so far is kept.'));
+      break;
+  }
+}
+
+/**
+ * Asks one question. On Ctrl+C inquirer closes the prompt and raises SIGINT
+ * without ever answering, so `interrupted` is the answer then and the
+ * cancelled turn can end.
+ */
+function askOrInterrupt<T>(question: Record<string, unknown>, interrupted: T): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const interrupt = () => resolve(interrupted);
+    process.once('SIGINT', interrupt);
+    inquirer.prompt([{ ...question, name: 'answer' }])
+      .then(answers => resolve(answers.answer as T), reject)
+      .finally(() => process.off('SIGINT', interrupt));
+  });
+}
+
+async function promptForPermission(request: PermissionRequest): Promise<PermissionDecision> {
+  console.log(chalk.yellow(`\n🔐 ${request.toolName} wants to run: ${request.summary}`));
+
+  return askOrInterrupt<PermissionDecision>({
+    type: 'list',
+    message: 'Allow this tool call?',
+    choices: PERMISSION_CHOICES.map(choice => ({
+      name: choice.decision === 'allow_session' || choice.decision === 'allow_always' ? `${choice.label} (${request.pattern})` : choice.label,
+      value: choice.decision,
+    })),
+  }, 'deny');
+}
+
+async function reviewPlan(plan: string): Promise<PlanDecision> {
+  console.log(chalk.cyan('\n📋 Proposed plan:\n'));
+  console.log(plan);
+  console.log();
+
+  const cancelled: PlanDecision = { action: 'reject', feedback: 'Cancelled by the user' };
+  const action = await askOrInterrupt<string | undefined>({
+    type: 'list',
+    message: 'Approve this plan?',
+    choices: [
+      { name: 'Approve and start implementing', value: 'approve' },
+      { name: 'Edit the plan, then approve', value: 'edit' },
+      { name: 'Reject with feedback', value: 'reject' },
+    ],
+  }, undefined);
+
+  if (action === 'edit') {
+    const edited = await askOrInterrupt<string | undefined>({ type: 'editor', message: 'Edit the plan', default: plan }, undefined);
+    return edited === undefined ? cancelled : { action: 'edit', plan: edited.trim() };
+  }
+
+  if (action === 'reject') {
+    const feedback = await askOrInterrupt<string | undefined>({ type: 'input', message: 'What should change?' }, undefined);
+    return feedback === undefined ? cancelled : { action: 'reject', feedback };
+  }
+
+  return action === 'approve' ? { action: 'approve' } : cancelled;
+}
+
 async function handleSinglePrompt(
   prompt: string,
-  provider: any,
+  provider: AIProvider,
   configManager: ConfigManager,
   toolManager: ToolManager,
   options: any
@@ -202,66 +577,110 @@ async function handleSinglePrompt(
     { role: 'user', content: prompt }
   ];
 
-  try {
-    if (options.print) {
-      if (options.outputFormat === 'stream-json') {
-        for await (const chunk of provider.streamChat({
-          messages,
-          model: config.defaultModel,
-          temperature: config.temperature,
-          maxTokens: config.maxTokens,
-          tools: toolManager.getToolDefinitions(),
-        })) {
-          if (chunk.message?.content) {
-            process.stdout.write(JSON.stringify(chunk) + '\\n');
-          }
+  const controller = new AbortController();
+  const stopCancelling = cancelOnInterrupt(controller);
+
+  if (options.print) {
+    const streamJson = options.outputFormat === 'stream-json';
+    const engine = createConversationEngine(provider, config, toolManager, streamJson, undefined, controller.signal);
+    let totals = EMPTY_USAGE_TOTALS;
+    let finalMessage: Message | undefined;
+
+    try {
+      for await (const event of engine.run(messages)) {
+        if (streamJson) {
+          process.stdout.write(JSON.stringify(event) + '\n');
         }
-      } else {
-        const response = await provider.chat({
-          messages,
-          model: config.defaultModel,
-          temperature: config.temperature,
-          maxTokens: config.maxTokens,
-          tools: toolManager.getToolDefinitions(),
-        });
-        
-        if (options.outputFormat === 'json') {
-          console.log(JSON.stringify(response));
-        } else {
-          console.log(response.message.content);
+        if (event.type === 'message') {
+          messages.push(event.message);
+          if (event.message.role === 'assistant') {
+            finalMessage = event.message;
+          }
+        } else if (event.type === 'compaction') {
+          messages.splice(0, messages.length, ...event.messages);
+        } else if (event.type === 'usage') {
+          totals = await trackRequestUsage(provider, config, event, totals);
         }
       }
+    } finally {
+      stopCancelling();
+    }
+
+    const usage = { inputTokens: totals.inputTokens, outputTokens: totals.outputTokens };
+    if (options.outputFormat === 'json') {
+      console.log(JSON.stringify({ message: finalMessage, messages, usage, cost: totals.cost }));
+    } else if (streamJson) {
+      process.stdout.write(JSON.stringify({ type: 'result', usage, cost: totals.cost }) + '\n');
     } else {
-      // Interactive mode with streaming
-      for await (const chunk of provider.streamChat({
-        messages,
-        model: config.defaultModel,
-        temperature: config.temperature,
-        maxTokens: config.maxTokens,
-        tools: toolManager.getToolDefinitions(),
-      })) {
-        if (chunk.message?.content) {
-          process.stdout.write(chunk.message.content);
+      console.log(finalMessage?.content || '');
+      // On stderr, so piping the answer somewhere stays clean
+      if (totals.requests > 0) {
+        console.error(chalk.gray(formatUsageTotals(totals)));
+      }
+    }
+  } else {
+    // Interactive mode with streaming
+    const engine = createConversationEngine(provider, config, toolManager, true, undefined, controller.signal);
+    let totals = EMPTY_USAGE_TOTALS;
+    try {
+      for await (const event of engine.run(messages)) {
+        if (event.type === 'usage') {
+          totals = await trackRequestUsage(provider, config, event, totals);
         }
+        printConversationEvent(event);
       }
-      console.log(); // New line at the end
+    } finally {
+      stopCancelling();
+    }
+    console.log(); // New line at the end
+    if (totals.requests > 0) {
+      console.log(chalk.gray(formatUsageTotals(totals)));
     }
-  } catch (error) {
-    throw error;
   }
 }
 
 async function startInteractiveMode(
-  provider: any,
+  provider: AIProvider,
   configManager: ConfigManager,
   toolManager: ToolManager,
   options: any
 ) {
   console.log(chalk.green('Welcome to FERAL CODE!'));
-  console.log(chalk.gray('Type your requests and press Enter. Type "exit" to quit.\\n'));
+  console.log(chalk.gray('Type your requests and press Enter. Type "/help" for commands, "exit" to quit.\n'));
 
-  const config = configManager.getConfig();
-  const messages: Message[] = [];
+  const commands = createCommandRegistry();
+  commands.getLoadErrors().forEach(error => console.log(chalk.yellow(`Warning: ${error}`)));
+  const sessionManager = new SessionManager();
+  const systemPrompt = new SystemPrompt();
+  let messages: Message[] = [];
+
+  const startConfig = configManager.getConfig();
+  const session = await sessionManager.createSession(startConfig.provider, startConfig.defaultModel);
+  toolManager.setContext({ sessionId: session.id });
+  let stopRecordingFallbacks = recordFallbackSwitches(provider, sessionManager);
+
+  const context = (): CommandContext => ({
+    commands,
+    configManager,
+    toolManager,
+    sessionManager,
+    systemPrompt,
+    provider,
+    messages,
+    setMessages: next => {
+      messages = [...next];
+    },
+    setProvider: next => {
+      provider = next;
+      toolManager.setContext({ provider: next });
+      stopRecordingFallbacks();
+      stopRecordingFallbacks = recordFallbackSwitches(next, sessionManager);
+    },
+    setSession: next => {
+      messages = [...next.messages];
+      toolManager.setContext({ sessionId: next.id });
+    },
+  });
 
   while (true) {
     const { input } = await inquirer.prompt([
@@ -281,28 +700,66 @@ async function startInteractiveMode(
       continue;
     }
 
-    messages.push({ role: 'user', content: input });
+    let request: CommandPrompt = { prompt: input };
+    if (commands.isCommand(input)) {
+      try {
+        const output = await commands.execute(input, context());
+        if (typeof output === 'string') {
+          console.log(output);
+        }
+        if (typeof output !== 'object') {
+          continue;
+        }
+        request = output;
+      } catch (error) {
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+        continue;
+      }
+    }
+
+    const userMessage: Message = { role: 'user', content: request.prompt };
+    messages.push(userMessage);
 
+    const controller = new AbortController();
+    const stopCancelling = cancelOnInterrupt(controller);
     try {
-      let assistantMessage = '';
-      
-      for await (const chunk of provider.streamChat({
-        messages,
-        model: config.defaultModel,
-        temperature: config.temperature,
-        maxTokens: config.maxTokens,
-        tools: toolManager.getToolDefinitions(),
-      })) {
-        if (chunk.message?.content) {
-          process.stdout.write(chunk.message.content);
-          assistantMessage += chunk.message.content;
+      await sessionManager.addMessage(userMessage);
+
+      // Built per request, so /model and /provider apply to the next one and
+      // custom commands can pick the model and tools for their prompt
+      const config = { ...configManager.getConfig(), ...(request.model && { defaultModel: request.model }) };
+      const tools = request.allowedTools ? toolManager.createSubset(request.allowedTools) : toolManager;
+      const engine = createConversationEngine(provider, config, tools, true, systemPrompt, controller.signal);
+      const sessionId = sessionManager.getCurrentSession()?.id;
+
+      for await (const event of engine.run(messages)) {
+        if (event.type === 'message') {
+          messages.push(event.message);
+          await sessionManager.addMessage(event.message);
+        } else if (event.type === 'compaction') {
+          messages.splice(0, messages.length, ...event.messages);
+          await sessionManager.recordCompaction(event.compaction, event.messages);
+        } else if (event.type === 'usage') {
+          await trackRequestUsage(provider, config, event, EMPTY_USAGE_TOTALS, sessionId);
         }
+        printConversationEvent(event);
       }
       
       console.log(); // New line
-      messages.push({ role: 'assistant', content: assistantMessage });
+      if (sessionId) {
+        const totals = await costTracker.getSessionTotals(sessionId);
+        if (totals.requests > 0) {
+          console.log(chalk.gray(`Session: ${formatUsageTotals(totals)}`));
+        }
+      }
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      if (controller.signal.aborted) {
+        console.log(chalk.yellow('\nCancelled. The conversation so far is kept.'));
+      } else {
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      stopCancelling();
     }
   }
 }
@@ -0,0 +1,309 @@
+import { writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { ProviderFactory } from '../providers/index.js';
+import { getActiveModel } from '../providers/fallback.js';
+import { MCPManagerTool } from '../tools/mcpManager.js';
+import { Config } from '../types/index.js';
+import { CONFIG_SCHEMA } from '../utils/config.js';
+import { ContextManager, describeCompaction } from '../utils/contextManager.js';
+import { costTracker, formatCost, formatUsageTotals } from '../utils/costTracker.js';
+import { modelRegistry } from '../utils/modelRegistry.js';
+import { CommandContext, SlashCommand } from './registry.js';
+
+const PROVIDERS = CONFIG_SCHEMA.provider.values || [];
+const MCP_ACTIONS = ['status', 'list', 'tools'];
+const EXPORT_FORMATS = ['markdown', 'json'];
+// Longest model list printed by /model; `feral-code models` shows them all
+const MAX_LISTED_MODELS = 20;
+
+/** `/name <hint>`, as shown in help and suggestions */
+export function formatCommandUsage(command: SlashCommand): string {
+  return command.argumentHint ? `/${command.name} ${command.argumentHint}` : `/${command.name}`;
+}
+
+/** The description, marking custom commands with where they come from */
+export function describeCommand(command: SlashCommand): string {
+  return command.scope ? `${command.description} (${command.scope})` : command.description;
+}
+
+export function formatCommandList(commands: SlashCommand[]): string {
+  const width = Math.max(...commands.map(command => formatCommandUsage(command).length));
+  return commands.map(command => `${formatCommandUsage(command).padEnd(width)}  ${describeCommand(command)}`).join('\n');
+}
+
+/** Recreates the provider after a change to the configuration, undoing the change if it does not work */
+function switchProvider(context: CommandContext, updates: Partial<Config>): string | undefined {
+  const config = context.configManager.getConfig();
+  const previous = Object.fromEntries(Object.keys(updates).map(key => [key, config[key as keyof Config]]));
+
+  context.configManager.updateConfig(updates);
+  const validation = context.configManager.validateConfig();
+  if (!validation.valid) {
+    context.configManager.updateConfig(previous);
+    return validation.errors.join(', ');
+  }
+
+  try {
+    context.setProvider(ProviderFactory.createProvider(context.configManager));
+  } catch (error) {
+    context.configManager.updateConfig(previous);
+    return error instanceof Error ? error.message : String(error);
+  }
+  return undefined;
+}
+
+const help: SlashCommand = {
+  name: 'help',
+  description: 'Show the commands, or details of one',
+  argumentHint: '[command]',
+  complete: (_args, context) => context.commands.list().map(command => command.name),
+  async execute(args, context) {
+    if (args) {
+      const command = context.commands.get(args);
+      if (!command) {
+        return `Unknown command /${args.replace(/^\//, '')}.`;
+      }
+      const aliases = command.aliases?.length ? `\nAliases: ${command.aliases.map(alias => `/${alias}`).join(', ')}` : '';
+      return `${formatCommandUsage(command)}\n${describeCommand(command)}${aliases}`;
+    }
+
+    if (context.openView?.('help')) return;
+    return `Commands:\n${formatCommandList(context.commands.list())}`;
+  },
+};
+
+const model: SlashCommand = {
+  name: 'model',
+  description: 'Show the models, or switch to another one for this session',
+  argumentHint: '[model]',
+  complete: (_args, context) => modelRegistry.list(context.provider.name).map(info => info.id),
+  async execute(args, context) {
+    const current = getActiveModel(context.provider, context.configManager.getConfig().defaultModel);
+
+    if (!args) {
+      const models = await context.provider.getSupportedModels();
+      const listed = models.slice(0, MAX_LISTED_MODELS).map(id => `${id === current ? '* ' : '  '}${id}`);
+      if (models.length > MAX_LISTED_MODELS) {
+        listed.push(`  … ${models.length - MAX_LISTED_MODELS} more; use /model <name> or feral-code models --search`);
+      }
+      return [`Model: ${current} (${context.provider.name})`, ...listed].join('\n');
+    }
+
+    const error = switchProvider(context, { defaultModel: args });
+    if (error) {
+      return `Could not switch to ${args}: ${error}`;
+    }
+    const known = modelRegistry.find(context.provider.name, args) ? '' : ' (not in the model registry, so default limits apply)';
+    return `Switched to ${args} for this session${known}.`;
+  },
+};
+
+const provider: SlashCommand = {
+  name: 'provider',
+  description: 'Show the provider, or switch to another one (and model) for this session',
+  argumentHint: '[provider] [model]',
+  complete: () => [...PROVIDERS],
+  async execute(args, context) {
+    if (!args) {
+      return `Provider: ${context.provider.name}\nAvailable: ${PROVIDERS.join(', ')}`;
+    }
+
+    const [name, modelName] = args.split(/\s+/);
+    if (!PROVIDERS.includes(name)) {
+      return `Unknown provider '${name}'. Choose one of: ${PROVIDERS.join(', ')}`;
+    }
+
+    // Model names rarely carry over between providers
+    const error = switchProvider(context, { provider: name as Config['provider'], defaultModel: modelName });
+    if (error) {
+      return `Could not switch to ${name}: ${error}`;
+    }
+    const config = context.configManager.getConfig();
+    return `Switched to ${name} (${getActiveModel(context.provider, config.defaultModel)}) for this session.`;
+  },
+};
+
+const clear: SlashCommand = {
+  name: 'clear',
+  description: 'Start a new conversation; the current one stays in the session history',
+  aliases: ['new'],
+  async execute(_args, context) {
+    const config = context.configManager.getConfig();
+    const session = await context.sessionManager.createSession(config.provider, config.defaultModel);
+    context.setSession(session);
+    return 'Started a new conversation.';
+  },
+};
+
+const compact: SlashCommand = {
+  name: 'compact',
+  description: 'Summarize the conversation so far to free up context',
+  argumentHint: '[focus]',
+  async execute(args, context) {
+    const config = context.configManager.getConfig();
+    const contextManager = new ContextManager(context.provider, { model: config.defaultModel, maxTokens: config.maxTokens });
+    const result = await contextManager.compact(context.messages, { instructions: args, signal: context.signal });
+
+    if (!result) {
+      return 'Nothing to compact yet.';
+    }
+    context.setMessages(result.messages);
+    if (context.sessionManager.getCurrentSession()) {
+      await context.sessionManager.recordCompaction(result.compaction, result.messages);
+    }
+    return describeCompaction(result.compaction);
+  },
+};
+
+const pin: SlashCommand = {
+  name: 'pin',
+  description: 'Keep your latest message word for word when the conversation is compacted',
+  async execute(_args, context) {
+    const index = context.messages.map(message => message.role).lastIndexOf('user');
+    const message = context.messages[index];
+    if (message?.role !== 'user') {
+      return 'There is no message of yours to pin yet.';
+    }
+
+    const messages = [...context.messages];
+    messages[index] = { ...message, pinned: true };
+    context.setMessages(messages);
+    if (context.sessionManager.getCurrentSession()) {
+      await context.sessionManager.updateMessages(messages);
+    }
+    const preview = message.content.length > 60 ? `${message.content.slice(0, 60)}…` : message.content;
+    return `Pinned "${preview}"; compaction will keep it as it is.`;
+  },
+};
+
+const cost: SlashCommand = {
+  name: 'cost',
+  description: 'Show tokens and cost for this session, today and this month',
+  async execute(_args, context) {
+    const session = context.sessionManager.getCurrentSession();
+    const [totals, today, month] = await Promise.all([
+      session ? costTracker.getSessionTotals(session.id) : undefined,
+      costTracker.getTodayCost(),
+      costTracker.getMonthCost(),
+    ]);
+
+    return [
+      `Session: ${totals ? `${formatUsageTotals(totals)} over ${totals.requests} requests` : 'nothing yet'}`,
+      `Today: ${formatCost(today)}`,
+      `This month: ${formatCost(month)}`,
+    ].join('\n');
+  },
+};
+
+const sessions: SlashCommand = {
+  name: 'sessions',
+  description: 'List saved sessions, or resume one by its id',
+  argumentHint: '[id]',
+  aliases: ['resume'],
+  async execute(args, context) {
+    const saved = await context.sessionManager.listSessions();
+
+    if (args) {
+      const match = saved.find(session => session.id.startsWith(args));
+      const session = match && await context.sessionManager.loadSession(match.id);
+      if (!session) {
+        return `No session with id ${args}.`;
+      }
+      context.setSession(session);
+      return `Resumed "${session.title}" (${session.messages.length} messages).`;
+    }
+
+    if (context.openView?.('sessions')) return;
+    if (!saved.length) {
+      return 'No sessions yet.';
+    }
+    return saved.slice(0, 10).map(session =>
+      `${session.id}  ${session.updated.toLocaleString()}  ${session.title} (${session.messages.length} messages)`).join('\n');
+  },
+};
+
+const exportCommand: SlashCommand = {
+  name: 'export',
+  description: 'Save the conversation as Markdown or JSON',
+  argumentHint: '[markdown|json] [file]',
+  complete: () => EXPORT_FORMATS,
+  async execute(args, context) {
+    const session = context.sessionManager.getCurrentSession();
+    if (!session) {
+      return 'There is no conversation to export yet.';
+    }
+
+    const [first, ...rest] = args ? args.split(/\s+/) : [];
+    const format = first === 'json' ? 'json' : 'markdown';
+    const file = (EXPORT_FORMATS.includes(first) ? rest.join(' ') : [first, ...rest].join(' ').trim())
+      || `feral-session-${session.id}.${format === 'json' ? 'json' : 'md'}`;
+
+    const path = resolve(file);
+    await writeFile(path, await context.sessionManager.exportSession(session.id, format), 'utf-8');
+    return `Exported the conversation to ${path}`;
+  },
+};
+
+const tools: SlashCommand = {
+  name: 'tools',
+  description: 'List the tools and whether the model may use them',
+  async execute(_args, context) {
+    const available = new Set(context.toolManager.getAvailableTools().map(tool => tool.name));
+    const all = context.toolManager.getAllTools();
+    const width = Math.max(...all.map(tool => tool.name.length));
+
+    return all.map(tool => {
+      const summary = tool.description.split(/(?<=\.)\s/)[0];
+      const note = available.has(tool.name) ? '' : ' (unavailable: denied or plan mode)';
+      return `${tool.name.padEnd(width)}  ${summary}${note}`;
+    }).join('\n');
+  },
+};
+
+const mcp: SlashCommand = {
+  name: 'mcp',
+  description: 'Show MCP servers and what they provide',
+  argumentHint: '[status|list|tools]',
+  complete: () => MCP_ACTIONS,
+  async execute(args, context) {
+    const action = args || 'status';
+    if (!MCP_ACTIONS.includes(action)) {
+      return `Unknown action '${action}'. Use one of: ${MCP_ACTIONS.join(', ')}`;
+    }
+
+    const tool = context.toolManager.getTool('MCPManager');
+    if (!(tool instanceof MCPManagerTool)) {
+      return 'MCP support is not available.';
+    }
+    // Asked for by the user, so no permission prompt
+    return tool._execute({ action });
+  },
+};
+
+const memory: SlashCommand = {
+  name: 'memory',
+  description: 'View and edit the FERAL.md instruction files',
+  async execute(_args, context) {
+    if (context.openView?.('memory')) return;
+
+    return context.systemPrompt.getInstructionFiles().map(file => {
+      const state = file.content === undefined ? 'not created yet' : `${file.content.split('\n').length} lines`;
+      return `${file.scope.padEnd(9)} ${file.path} (${state})`;
+    }).join('\n');
+  },
+};
+
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+  help,
+  model,
+  provider,
+  clear,
+  compact,
+  pin,
+  cost,
+  sessions,
+  exportCommand,
+  tools,
+  mcp,
+  memory,
+];
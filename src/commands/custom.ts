@@ -0,0 +1,160 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { basename, extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { CommandPrompt, SlashCommand } from './registry.js';
+
+const COMMAND_NAME = /^[a-z][\w-]*$/;
+// Longest description derived from the first line of a template
+const MAX_DESCRIPTION_LENGTH = 60;
+
+export interface CustomCommandOptions {
+  /** Directory holding the project's `.feral-code` folder (default: cwd) */
+  projectDir?: string;
+  /** Directory holding the user's commands folder, `~/.feral-code` by default */
+  userDir?: string;
+}
+
+/** A prompt template read from a markdown file */
+export interface CustomCommandFile {
+  name: string;
+  path: string;
+  scope: 'project' | 'user';
+  description: string;
+  argumentHint?: string;
+  /** Placeholder names filled from the arguments in order, the last taking the rest */
+  arguments: string[];
+  allowedTools?: string[];
+  model?: string;
+  template: string;
+}
+
+/** `allowed-tools: Read, Grep` and `allowed-tools: [Read, Grep]` both give a list */
+function toList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  const items = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+/** Splits optional YAML frontmatter between `---` lines from the template */
+export function parseCustomCommand(content: string, path: string, scope: CustomCommandFile['scope']): CustomCommandFile {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  const template = (match ? content.slice(match[0].length) : content).trim();
+
+  let frontmatter: Record<string, unknown> = {};
+  if (match) {
+    const parsed = parseYaml(match[1]);
+    if (parsed !== null && (typeof parsed !== 'object' || Array.isArray(parsed))) {
+      throw new Error(`${path}: frontmatter must be a list of key: value pairs`);
+    }
+    frontmatter = parsed || {};
+  }
+
+  const args = toList(frontmatter.arguments) || [];
+  const invalid = args.find(name => !/^\w+$/.test(name));
+  if (invalid) {
+    throw new Error(`${path}: argument names use letters, digits and _, not '${invalid}'`);
+  }
+  const firstLine = template.split('\n').find(line => line.trim())?.replace(/^#+\s*/, '').trim() || '';
+
+  return {
+    name: basename(path, extname(path)).toLowerCase(),
+    path,
+    scope,
+    description: typeof frontmatter.description === 'string'
+      ? frontmatter.description
+      : firstLine.length > MAX_DESCRIPTION_LENGTH ? `${firstLine.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…` : firstLine,
+    argumentHint: typeof frontmatter['argument-hint'] === 'string'
+      ? frontmatter['argument-hint']
+      : args.length ? args.map(name => `[${name}]`).join(' ') : undefined,
+    arguments: args,
+    allowedTools: toList(frontmatter['allowed-tools']),
+    model: typeof frontmatter.model === 'string' ? frontmatter.model : undefined,
+    template,
+  };
+}
+
+/**
+ * Fills in `$ARGUMENTS` with everything typed after the command and each
+ * `$name` declared in the frontmatter with the next word, the last name
+ * taking the rest. Other `$` words, such as `$HOME`, are left alone.
+ * Arguments to a template without placeholders are appended to it.
+ */
+export function expandTemplate(command: Pick<CustomCommandFile, 'template' | 'arguments'>, args: string): string {
+  const hasPlaceholders = command.template.includes('$ARGUMENTS')
+    || command.arguments.some(name => new RegExp(`\\$${name}\\b`).test(command.template));
+  if (!hasPlaceholders) {
+    return args ? `${command.template}\n\n${args}` : command.template;
+  }
+
+  const words = args ? args.split(/\s+/) : [];
+  const values = new Map(command.arguments.map((name, index) => [
+    name,
+    index === command.arguments.length - 1 ? words.slice(index).join(' ') : words[index] || '',
+  ]));
+
+  // Longest names first, so `$file` does not eat the start of `$files`
+  const names = ['ARGUMENTS', ...[...values.keys()].sort((a, b) => b.length - a.length)];
+  const pattern = new RegExp(`\\$(${names.join('|')})\\b`, 'g');
+  return command.template.replace(pattern, (_match, name: string) => name === 'ARGUMENTS' ? args : values.get(name) || '');
+}
+
+function toSlashCommand(file: CustomCommandFile): SlashCommand {
+  return {
+    name: file.name,
+    description: file.description,
+    argumentHint: file.argumentHint,
+    scope: file.scope,
+    async execute(args): Promise<CommandPrompt | string> {
+      // Read again, so edits to the file apply without a restart
+      if (!existsSync(file.path)) {
+        return `${file.path} no longer exists.`;
+      }
+      const current = parseCustomCommand(readFileSync(file.path, 'utf-8'), file.path, file.scope);
+      return {
+        prompt: expandTemplate(current, args),
+        model: current.model,
+        allowedTools: current.allowedTools,
+      };
+    },
+  };
+}
+
+function readCommandDir(dir: string, scope: CustomCommandFile['scope'], errors: string[]): CustomCommandFile[] {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter(entry => extname(entry).toLowerCase() === '.md')
+    .sort()
+    .flatMap(entry => {
+      const path = join(dir, entry);
+      if (!COMMAND_NAME.test(basename(entry, extname(entry)).toLowerCase())) {
+        errors.push(`${path}: command names start with a letter and use letters, digits, - and _`);
+        return [];
+      }
+      try {
+        return [parseCustomCommand(readFileSync(path, 'utf-8'), path, scope)];
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+        return [];
+      }
+    });
+}
+
+/**
+ * Loads the prompt templates in `~/.feral-code/commands` and the project's
+ * `.feral-code/commands`. A project command replaces a user command of the
+ * same name. Files that cannot be read are reported in `errors`.
+ */
+export function loadCustomCommands(options: CustomCommandOptions = {}): { commands: SlashCommand[]; errors: string[] } {
+  const errors: string[] = [];
+  const userDir = join(options.userDir || join(homedir(), '.feral-code'), 'commands');
+  const projectDir = join(options.projectDir || process.cwd(), '.feral-code', 'commands');
+
+  const files = new Map<string, CustomCommandFile>();
+  for (const file of [...readCommandDir(userDir, 'user', errors), ...readCommandDir(projectDir, 'project', errors)]) {
+    files.set(file.name, file);
+  }
+
+  return { commands: [...files.values()].map(toSlashCommand), errors };
+}
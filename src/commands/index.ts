@@ -0,0 +1,29 @@
+import { BUILTIN_COMMANDS } from './builtin.js';
+import { CustomCommandOptions, loadCustomCommands } from './custom.js';
+import { CommandRegistry } from './registry.js';
+
+export { BUILTIN_COMMANDS, describeCommand, formatCommandList, formatCommandUsage } from './builtin.js';
+export { expandTemplate, loadCustomCommands, parseCustomCommand } from './custom.js';
+export type { CustomCommandFile, CustomCommandOptions } from './custom.js';
+export { CommandRegistry, parseCommand } from './registry.js';
+export type { CommandContext, CommandPrompt, CommandView, SlashCommand } from './registry.js';
+
+/**
+ * A registry with the built-in commands and the custom commands of the user
+ * and the project. Custom commands cannot replace built-ins.
+ */
+export function createCommandRegistry(options: CustomCommandOptions = {}): CommandRegistry {
+  const custom = loadCustomCommands(options);
+  const builtinNames = new Set(BUILTIN_COMMANDS.flatMap(command => [command.name, ...(command.aliases || [])]));
+  const errors = [...custom.errors];
+
+  const commands = custom.commands.filter(command => {
+    if (builtinNames.has(command.name)) {
+      errors.push(`Custom command /${command.name} (${command.scope}) is skipped: a built-in command has that name`);
+      return false;
+    }
+    return true;
+  });
+
+  return new CommandRegistry([...BUILTIN_COMMANDS, ...commands], errors);
+}
@@ -0,0 +1,163 @@
+import { AIProvider, Message } from '../types/index.js';
+import { ConfigManager } from '../utils/config.js';
+import { Session, SessionManager } from '../utils/session.js';
+import { SystemPrompt } from '../utils/systemPrompt.js';
+import { ToolManager } from '../tools/index.js';
+
+/** Panels of the TUI that commands can open */
+export type CommandView = 'help' | 'sessions' | 'memory' | 'config';
+
+/**
+ * What a command can see and change. The TUI and the text REPL each provide
+ * one, built afresh for every command so it reflects the current state.
+ */
+export interface CommandContext {
+  commands: CommandRegistry;
+  configManager: ConfigManager;
+  toolManager: ToolManager;
+  sessionManager: SessionManager;
+  systemPrompt: SystemPrompt;
+  provider: AIProvider;
+  messages: Message[];
+  /** Aborted when the user cancels a long-running command */
+  signal?: AbortSignal;
+  setMessages(messages: Message[]): void;
+  setProvider(provider: AIProvider): void;
+  /** Shows a session that the command has made current in the session manager */
+  setSession(session: Session): void;
+  /** Opens a panel; returns false where there are none, as in the text REPL */
+  openView?(view: CommandView): boolean;
+}
+
+/** A prompt for the model, with the overrides a custom command asks for */
+export interface CommandPrompt {
+  prompt: string;
+  model?: string;
+  /** Limits the tools the model may use while answering */
+  allowedTools?: string[];
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  /** Where a custom command was loaded from; built-ins have none */
+  scope?: 'project' | 'user';
+  /** Shown after the name while typing, for example `[focus]` */
+  argumentHint?: string;
+  aliases?: string[];
+  /** Candidates for the arguments typed so far; the registry keeps those that match */
+  complete?(args: string, context: CommandContext): string[];
+  /** Returns text to show the user, or a prompt to send to the model as the user's message */
+  execute(args: string, context: CommandContext): Promise<string | CommandPrompt | void>;
+}
+
+/**
+ * Splits `/name arguments` input. Anything else, including paths such as
+ * `/etc/hosts`, is an ordinary message.
+ */
+export function parseCommand(input: string): { name: string; args: string } | undefined {
+  const match = input.trim().match(/^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i);
+  return match ? { name: match[1].toLowerCase(), args: (match[2] || '').trim() } : undefined;
+}
+
+/** Slash commands by name, shared by the TUI and the text REPL */
+export class CommandRegistry {
+  private commands: Map<string, SlashCommand> = new Map();
+  private aliases: Map<string, string> = new Map();
+
+  constructor(commands: SlashCommand[] = [], private loadErrors: string[] = []) {
+    commands.forEach(command => this.register(command));
+  }
+
+  /** Problems with custom command files, which are skipped */
+  getLoadErrors(): string[] {
+    return [...this.loadErrors];
+  }
+
+  /** Adds a command, replacing any command of the same name */
+  register(command: SlashCommand): void {
+    this.commands.set(command.name, command);
+    command.aliases?.forEach(alias => this.aliases.set(alias, command.name));
+  }
+
+  get(name: string): SlashCommand | undefined {
+    const key = name.replace(/^\//, '').toLowerCase();
+    return this.commands.get(key) || this.commands.get(this.aliases.get(key) || '');
+  }
+
+  list(): SlashCommand[] {
+    return [...this.commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  isCommand(input: string): boolean {
+    return !!parseCommand(input);
+  }
+
+  async execute(input: string, context: CommandContext): Promise<string | CommandPrompt | void> {
+    const parsed = parseCommand(input);
+    if (!parsed) {
+      throw new Error(`Not a command: ${input}`);
+    }
+
+    const command = this.get(parsed.name);
+    if (!command) {
+      return `Unknown command /${parsed.name}. Type /help to see the available commands.`;
+    }
+    return command.execute(parsed.args, context);
+  }
+
+  /** Commands matching the name typed so far, while the name is still being typed */
+  getSuggestions(input: string): SlashCommand[] {
+    const match = input.match(/^\/([\w-]*)$/);
+    if (!match) return [];
+
+    const typed = match[1].toLowerCase();
+    return this.list().filter(command =>
+      command.name.startsWith(typed) || command.aliases?.some(alias => alias.startsWith(typed)));
+  }
+
+  /**
+   * Completes the command name or, once it is complete, its arguments. With
+   * several candidates the input is extended as far as they agree. Returns
+   * nothing when there is nothing to add.
+   */
+  complete(input: string, context: CommandContext): string | undefined {
+    const nameOnly = input.match(/^\/([\w-]*)$/);
+    if (nameOnly) {
+      const names = this.getSuggestions(input).map(command => command.name);
+      if (names.length === 1) {
+        return `/${names[0]}${this.get(names[0])?.argumentHint ? ' ' : ''}`;
+      }
+      return extend(input, names.map(name => `/${name}`));
+    }
+
+    const parsed = parseCommand(input);
+    const command = parsed && this.get(parsed.name);
+    // Arguments followed by a space are finished
+    if (!parsed || !command?.complete || (parsed.args && /\s$/.test(input))) return undefined;
+
+    const prefix = input.slice(0, input.length - parsed.args.length);
+    const candidates = command.complete(parsed.args, context)
+      .filter(candidate => candidate.toLowerCase().startsWith(parsed.args.toLowerCase()));
+
+    if (candidates.length === 1) {
+      return `${prefix}${candidates[0]}`;
+    }
+    return extend(input, candidates.map(candidate => `${prefix}${candidate}`));
+  }
+}
+
+/** The longest common prefix of the candidates, when it is longer than the input */
+function extend(input: string, candidates: string[]): string | undefined {
+  if (!candidates.length) return undefined;
+
+  let common = candidates[0];
+  for (const candidate of candidates.slice(1)) {
+    let length = 0;
+    while (length < common.length && common[length].toLowerCase() === candidate[length]?.toLowerCase()) {
+      length++;
+    }
+    common = common.slice(0, length);
+  }
+  return common.length > input.length ? common : undefined;
+}
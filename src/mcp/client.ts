@@ -144,7 +144,7 @@ export class MCPClient extends EventEmitter {
     }
   }
 
-  private async sendRequest(method: string, params?: any): Promise<any> {
+  private async sendRequest(method: string, params?: any, signal?: AbortSignal): Promise<any> {
     const id = ++this.messageId;
     const message: MCPMessage = {
       jsonrpc: '2.0',
@@ -171,6 +171,23 @@ export class MCPClient extends EventEmitter {
           reject(new Error('Request timeout'));
         }
       }, 30000);
+
+      // Stop waiting when cancelled and tell the server to stop working on it
+      const cancel = () => {
+        if (!this.pendingRequests.has(id)) return;
+        this.pendingRequests.delete(id);
+        this.process?.stdin?.write(JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: id, reason: 'Cancelled by user' },
+        }) + '\n');
+        reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+      };
+      if (signal?.aborted) {
+        cancel();
+      } else {
+        signal?.addEventListener('abort', cancel, { once: true });
+      }
     });
   }
 
@@ -250,7 +267,7 @@ export class MCPClient extends EventEmitter {
     }
   }
 
-  async callTool(name: string, arguments_: Record<string, any>): Promise<MCPToolResult> {
+  async callTool(name: string, arguments_: Record<string, any>, signal?: AbortSignal): Promise<MCPToolResult> {
     if (!this.isInitialized) {
       throw new Error('MCP client not initialized');
     }
@@ -264,7 +281,7 @@ export class MCPClient extends EventEmitter {
       const result = await this.sendRequest('tools/call', {
         name,
         arguments: arguments_,
-      });
+      }, signal);
 
       await diagnostics.info('mcp', `Tool call successful: ${name}`, {
         serverName: this.server.name,
@@ -212,13 +212,13 @@ export class MCPManager extends EventEmitter {
     return prompts;
   }
 
-  async callTool(serverName: string, toolName: string, arguments_: Record<string, any>): Promise<any> {
+  async callTool(serverName: string, toolName: string, arguments_: Record<string, any>, signal?: AbortSignal): Promise<any> {
     const client = this.clients.get(serverName);
     if (!client) {
       throw new Error(`Server '${serverName}' not connected`);
     }
 
-    return await client.callTool(toolName, arguments_);
+    return await client.callTool(toolName, arguments_, signal);
   }
 
   async getResource(serverName: string, uri: string): Promise<any> {
@@ -0,0 +1,253 @@
+import { Response } from 'node-fetch';
+import { AIProvider, ChatRequest, ChatResponse, Message, Tool, ToolCall } from '../types/index.js';
+import { providerHttp } from './request.js';
+import { readLines } from './streaming.js';
+import { diagnostics } from '../utils/diagnostics.js';
+import { modelRegistry } from '../utils/modelRegistry.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Speaks the Anthropic Messages API. System messages are sent in the
+ * top-level `system` field, tool calls and results travel as `tool_use` and
+ * `tool_result` content blocks, and streaming uses Anthropic's typed SSE
+ * events.
+ */
+export class AnthropicProvider implements AIProvider {
+  name = 'anthropic';
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, baseUrl: string = 'https://api.anthropic.com/v1') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const startTime = Date.now();
+    const model = request.model || this.getDefaultModel();
+
+    try {
+      await diagnostics.info('provider', `Starting Anthropic chat request`, {
+        model,
+        messageCount: request.messages.length,
+        hasTools: !!request.tools?.length,
+      });
+
+      const response = await this.postMessages(request, model, false);
+      const data = await response.json() as any;
+
+      const duration = Date.now() - startTime;
+      await diagnostics.info('provider', `Anthropic chat request completed`, {
+        duration: `${duration}ms`,
+        model,
+        stopReason: data.stop_reason,
+      });
+
+      const blocks: any[] = Array.isArray(data.content) ? data.content : [];
+      const content = blocks
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join('');
+      const toolCalls: ToolCall[] = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({
+          id: block.id,
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {}),
+        }));
+
+      return {
+        message: {
+          role: 'assistant',
+          content,
+          toolCalls: toolCalls.length ? toolCalls : undefined,
+        },
+        usage: {
+          inputTokens: data.usage?.input_tokens || 0,
+          outputTokens: data.usage?.output_tokens || 0,
+        },
+      };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      await diagnostics.error('provider', `Anthropic chat request failed`, error as Error, {
+        duration: `${duration}ms`,
+        model,
+      });
+      throw error;
+    }
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    const model = request.model || this.getDefaultModel();
+    const response = await this.postMessages(request, model, true);
+
+    if (!response.body) {
+      throw new Error('No response body');
+    }
+
+    let inputTokens = 0;
+
+    for await (const line of readLines(response.body)) {
+      // The event type is repeated in the data payload, so `event:` lines can be ignored
+      if (!line.startsWith('data: ')) continue;
+
+      let event: any;
+      try {
+        event = JSON.parse(line.slice(6));
+      } catch (e) {
+        // Skip invalid JSON
+        continue;
+      }
+
+      switch (event.type) {
+        case 'message_start':
+          inputTokens = event.message?.usage?.input_tokens || 0;
+          break;
+
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            yield {
+              toolCallDeltas: [{ index: event.index, id: event.content_block.id, name: event.content_block.name }],
+            };
+          } else if (event.content_block?.type === 'text' && event.content_block.text) {
+            yield { message: { role: 'assistant', content: event.content_block.text } };
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            yield { message: { role: 'assistant', content: event.delta.text } };
+          } else if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+            yield { toolCallDeltas: [{ index: event.index, arguments: event.delta.partial_json }] };
+          }
+          break;
+
+        case 'message_delta':
+          // Output tokens are cumulative and final in message_delta
+          if (event.usage) {
+            yield {
+              usage: {
+                inputTokens: event.usage.input_tokens ?? inputTokens,
+                outputTokens: event.usage.output_tokens || 0,
+              },
+            };
+          }
+          break;
+
+        case 'error':
+          throw new Error(`Anthropic API error: ${event.error?.type || 'error'} ${event.error?.message || ''}`.trim());
+      }
+    }
+  }
+
+  private async postMessages(request: ChatRequest, model: string, stream: boolean): Promise<Response> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+
+    return providerHttp.fetch('Anthropic', `${this.baseUrl}/messages`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        system,
+        messages,
+        // Anthropic accepts temperatures up to 1
+        temperature: Math.min(request.temperature ?? 0.7, 1),
+        max_tokens: request.maxTokens || 4000,
+        tools: toAnthropicTools(request.tools),
+        stream: stream || undefined,
+      }),
+    });
+  }
+
+  validateConfig(): boolean {
+    return !!this.apiKey;
+  }
+
+  getDefaultModel(): string {
+    return 'claude-3-5-sonnet-20241022';
+  }
+
+  getSupportedModels(): string[] {
+    return modelRegistry.list('anthropic').map(model => model.id);
+  }
+}
+
+/**
+ * Converts the conversation to the Messages API format. System messages are
+ * lifted into the separate `system` prompt, and tool results become
+ * `tool_result` blocks in a user turn. Consecutive user turns are merged so
+ * that all results for one assistant turn arrive together.
+ */
+export function toAnthropicMessages(messages: Message[]): { system?: string; messages: any[] } {
+  const system: string[] = [];
+  const converted: Array<{ role: 'user' | 'assistant'; content: any[] }> = [];
+
+  const append = (role: 'user' | 'assistant', blocks: any[]) => {
+    const last = converted[converted.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  };
+
+  for (const msg of messages) {
+    switch (msg.role) {
+      case 'system':
+        system.push(msg.content);
+        break;
+      case 'user':
+        append('user', [{ type: 'text', text: msg.content }]);
+        break;
+      case 'assistant': {
+        const blocks: any[] = msg.content ? [{ type: 'text', text: msg.content }] : [];
+        for (const call of msg.toolCalls || []) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: parseArguments(call.arguments) });
+        }
+        if (blocks.length) {
+          append('assistant', blocks);
+        }
+        break;
+      }
+      case 'tool':
+        append('user', [{
+          type: 'tool_result',
+          tool_use_id: msg.toolCallId,
+          content: msg.content,
+          ...(msg.isError ? { is_error: true } : {}),
+        }]);
+        break;
+    }
+  }
+
+  return {
+    system: system.length ? system.join('\n\n') : undefined,
+    messages: converted,
+  };
+}
+
+export function toAnthropicTools(tools: Tool[] | undefined): any[] | undefined {
+  if (!tools?.length) {
+    return undefined;
+  }
+
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters,
+  }));
+}
+
+function parseArguments(args: string): Record<string, any> {
+  try {
+    return args.trim() ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+}
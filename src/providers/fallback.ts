@@ -0,0 +1,259 @@
+import { AIProvider, ChatRequest, ChatResponse, Config } from '../types/index.js';
+import { CONFIG_SCHEMA } from '../utils/config.js';
+import { diagnostics } from '../utils/diagnostics.js';
+import { modelRegistry } from '../utils/modelRegistry.js';
+import type { SessionManager } from '../utils/session.js';
+
+export interface FallbackEntry {
+  provider: AIProvider;
+  /** Model to request; defaults to the provider's default model */
+  model?: string;
+}
+
+/** A move from one entry of the chain to another, reported once the new entry has answered */
+export interface FallbackSwitch {
+  from: { provider: string; model: string };
+  to: { provider: string; model: string };
+  reason: string;
+  /** ISO timestamp of the switch */
+  at: string;
+}
+
+/**
+ * Tries an ordered chain of provider/model pairs. Requests go to the active
+ * entry, and when it fails (after the HTTP layer's own retries) or times out,
+ * the request is sent to the next entry instead. The entry that answers stays
+ * active for the rest of the session, so a failing provider is not tried again
+ * on every turn.
+ *
+ * When the request carries tools, backups whose model cannot make tool calls,
+ * as reported by the provider or the model registry, are skipped. The
+ * primary entry is always tried, since the user chose it. Streams only move
+ * on if they fail before the first chunk; once output has been shown, a
+ * failure is reported as usual.
+ */
+export class FallbackProvider implements AIProvider {
+  private entries: FallbackEntry[];
+  private active = 0;
+  private switches: FallbackSwitch[] = [];
+  private listeners: Set<(event: FallbackSwitch) => void> = new Set();
+
+  constructor(entries: FallbackEntry[]) {
+    if (!entries.length) {
+      throw new Error('A fallback chain needs at least one provider');
+    }
+    this.entries = entries;
+  }
+
+  get name(): string {
+    return this.entries[this.active].provider.name;
+  }
+
+  /** Subscribes to provider switches; returns an unsubscribe function */
+  onSwitch(listener: (event: FallbackSwitch) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSwitches(): FallbackSwitch[] {
+    return [...this.switches];
+  }
+
+  getActive(): { provider: string; model: string } {
+    return this.describe(this.active);
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    let error: unknown;
+    let reason = '';
+
+    for (let index = this.active; index < this.entries.length; index++) {
+      const skip = await this.checkCapabilities(index, request);
+      if (skip) {
+        reason ||= skip;
+        continue;
+      }
+
+      try {
+        const response = await this.entries[index].provider.chat(this.requestFor(index, request));
+        await this.activate(index, reason);
+        return response;
+      } catch (e) {
+        if (isAbort(e) || index === this.entries.length - 1) throw e;
+        error = e;
+        reason = await this.recordFailure(index, e);
+      }
+    }
+
+    throw error ?? new Error(`No provider in the fallback chain can handle this request: ${reason}`);
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    let error: unknown;
+    let reason = '';
+
+    for (let index = this.active; index < this.entries.length; index++) {
+      const skip = await this.checkCapabilities(index, request);
+      if (skip) {
+        reason ||= skip;
+        continue;
+      }
+
+      const iterator = this.entries[index].provider.streamChat(this.requestFor(index, request))[Symbol.asyncIterator]();
+      let first: IteratorResult<Partial<ChatResponse>>;
+      try {
+        first = await iterator.next();
+      } catch (e) {
+        if (isAbort(e) || index === this.entries.length - 1) throw e;
+        error = e;
+        reason = await this.recordFailure(index, e);
+        continue;
+      }
+
+      await this.activate(index, reason);
+      for (let result = first; !result.done; result = await iterator.next()) {
+        yield result.value;
+      }
+      return;
+    }
+
+    throw error ?? new Error(`No provider in the fallback chain can handle this request: ${reason}`);
+  }
+
+  validateConfig(): boolean | Promise<boolean> {
+    return this.entries[0].provider.validateConfig();
+  }
+
+  getDefaultModel(): string {
+    return this.describe(this.active).model;
+  }
+
+  getSupportedModels(): string[] | Promise<string[]> {
+    return this.entries[this.active].provider.getSupportedModels();
+  }
+
+  async supportsTools(model: string): Promise<boolean> {
+    const { provider } = this.entries[this.active];
+    return provider.supportsTools ? provider.supportsTools(model) : modelRegistry.get(provider.name, model).supportsTools;
+  }
+
+  async getModelInfo(): Promise<{ model: string; provider: string; location: string }> {
+    const { provider } = this.entries[this.active];
+    const model = this.getDefaultModel();
+
+    if (provider.getModelInfo) {
+      return { ...await provider.getModelInfo(), model };
+    }
+    return { model, provider: provider.name, location: 'Remote' };
+  }
+
+  /** Returns why the entry cannot serve the request, or nothing if it can */
+  private async checkCapabilities(index: number, request: ChatRequest): Promise<string | undefined> {
+    if (index === 0 || !request.tools?.length) {
+      return undefined;
+    }
+
+    const { provider, model } = this.describe(index);
+    const entry = this.entries[index].provider;
+    const supportsTools = entry.supportsTools
+      ? await entry.supportsTools(model)
+      : modelRegistry.get(provider, model).supportsTools;
+    if (!supportsTools) {
+      await diagnostics.info('provider', `Skipping fallback ${provider}:${model}, which cannot make tool calls`);
+      return `${provider}:${model} cannot make tool calls`;
+    }
+    return undefined;
+  }
+
+  private async recordFailure(index: number, error: unknown): Promise<string> {
+    const { provider, model } = this.describe(index);
+    await diagnostics.error('provider', `${provider}:${model} failed, trying the next fallback`, error as Error);
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private async activate(index: number, reason: string): Promise<void> {
+    if (index === this.active) {
+      return;
+    }
+
+    const event: FallbackSwitch = {
+      from: this.describe(this.active),
+      to: this.describe(index),
+      reason,
+      at: new Date().toISOString(),
+    };
+    this.active = index;
+    this.switches.push(event);
+
+    await diagnostics.warn('provider', `Switched from ${event.from.provider}:${event.from.model} to ${event.to.provider}:${event.to.model}`, { reason });
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private requestFor(index: number, request: ChatRequest): ChatRequest {
+    // The request's model belongs to the primary provider
+    return index === 0 ? request : { ...request, model: this.describe(index).model };
+  }
+
+  private describe(index: number): { provider: string; model: string } {
+    const { provider, model } = this.entries[index];
+    return { provider: provider.name, model: model || provider.getDefaultModel() };
+  }
+}
+
+/**
+ * Adds each switch of a fallback chain to the current session's `fallbacks`
+ * metadata, for the TUI and the text REPL alike. Returns an unsubscribe
+ * function; a provider without a chain never switches.
+ */
+export function recordFallbackSwitches(
+  provider: AIProvider,
+  sessionManager: Pick<SessionManager, 'getCurrentSession' | 'updateMetadata'>
+): () => void {
+  if (!(provider instanceof FallbackProvider)) {
+    return () => {};
+  }
+
+  const unsubscribe = provider.onSwitch(event => {
+    const previous: FallbackSwitch[] = sessionManager.getCurrentSession()?.metadata?.fallbacks || [];
+    sessionManager.updateMetadata({ fallbacks: [...previous, event] }).catch(() => {
+      // The session may not be created yet
+    });
+  });
+  return () => {
+    unsubscribe();
+  };
+}
+
+/** The model answering requests: a fallback chain's current entry, or the configured model */
+export function getActiveModel(provider: AIProvider, defaultModel?: string): string {
+  if (provider instanceof FallbackProvider) {
+    return provider.getDefaultModel();
+  }
+  return defaultModel || provider.getDefaultModel();
+}
+
+/**
+ * Parses `provider:model` fallback entries. Only the first colon separates
+ * the two, so model names such as `llama3.1:8b` keep theirs.
+ */
+export function parseFallbackList(entries: string[]): Array<{ provider: Config['provider']; model: string }> {
+  const providers = CONFIG_SCHEMA.provider.values || [];
+
+  return entries.map(entry => {
+    const separator = entry.indexOf(':');
+    const provider = entry.slice(0, separator).trim();
+    const model = entry.slice(separator + 1).trim();
+
+    if (separator <= 0 || !model) {
+      throw new Error(`Invalid fallback '${entry}' in fallbacks (expected "provider:model")`);
+    }
+    if (!providers.includes(provider)) {
+      throw new Error(`Unknown provider '${provider}' in fallbacks. Must be one of: ${providers.join(', ')}`);
+    }
+    return { provider: provider as Config['provider'], model };
+  });
+}
+
+function isAbort(error: unknown): boolean {
+  return (error as { name?: string } | undefined)?.name === 'AbortError';
+}
@@ -0,0 +1,292 @@
+import { Response } from 'node-fetch';
+import { randomUUID } from 'crypto';
+import { AIProvider, ChatRequest, ChatResponse, Message, Tool, ToolCall } from '../types/index.js';
+import { providerHttp } from './request.js';
+import { readLines } from './streaming.js';
+import { diagnostics } from '../utils/diagnostics.js';
+import { modelRegistry } from '../utils/modelRegistry.js';
+
+// Schema fields Gemini accepts in function declarations; anything else is
+// rejected as an unknown field, so it is dropped before sending.
+const SCHEMA_FIELDS = ['type', 'format', 'description', 'nullable', 'enum', 'properties', 'required', 'items', 'minItems', 'maxItems', 'minimum', 'maximum'];
+
+/**
+ * Calls the Gemini API directly through `generateContent` and
+ * `streamGenerateContent`. System messages become the `systemInstruction`,
+ * tools are sent as function declarations and tool calls and results travel
+ * as `functionCall` and `functionResponse` parts.
+ */
+export class GeminiProvider implements AIProvider {
+  name = 'gemini';
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, baseUrl: string = 'https://generativelanguage.googleapis.com/v1beta') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const startTime = Date.now();
+    const model = request.model || this.getDefaultModel();
+
+    try {
+      await diagnostics.info('provider', `Starting Gemini chat request`, {
+        model,
+        messageCount: request.messages.length,
+        hasTools: !!request.tools?.length,
+      });
+
+      const response = await this.postGenerate(request, model, false);
+      const data = await response.json() as any;
+
+      const duration = Date.now() - startTime;
+      await diagnostics.info('provider', `Gemini chat request completed`, {
+        duration: `${duration}ms`,
+        model,
+        finishReason: data.candidates?.[0]?.finishReason,
+      });
+
+      if (!data.candidates?.length && data.promptFeedback?.blockReason) {
+        throw new Error(`Gemini blocked the prompt: ${data.promptFeedback.blockReason}`);
+      }
+
+      const { content, toolCalls } = parseParts(data.candidates?.[0]?.content?.parts);
+
+      return {
+        message: {
+          role: 'assistant',
+          content,
+          toolCalls,
+        },
+        usage: toUsage(data.usageMetadata),
+      };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      await diagnostics.error('provider', `Gemini chat request failed`, error as Error, {
+        duration: `${duration}ms`,
+        model,
+      });
+      throw error;
+    }
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    const model = request.model || this.getDefaultModel();
+    const response = await this.postGenerate(request, model, true);
+
+    if (!response.body) {
+      throw new Error('No response body');
+    }
+
+    // Every chunk repeats the running usage totals, so only the last one counts
+    let usageMetadata: any;
+
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith('data: ')) continue;
+
+      let data: any;
+      try {
+        data = JSON.parse(line.slice(6));
+      } catch (e) {
+        // Skip invalid JSON
+        continue;
+      }
+
+      if (data.error) {
+        throw new Error(`Gemini API error: ${data.error.status || data.error.code} ${data.error.message}`);
+      }
+
+      const { content, toolCalls } = parseParts(data.candidates?.[0]?.content?.parts);
+      if (content || toolCalls) {
+        yield {
+          message: {
+            role: 'assistant',
+            content,
+            toolCalls,
+          },
+        };
+      }
+
+      if (data.usageMetadata) {
+        usageMetadata = data.usageMetadata;
+      }
+    }
+
+    if (usageMetadata) {
+      yield { usage: toUsage(usageMetadata) };
+    }
+  }
+
+  private async postGenerate(request: ChatRequest, model: string, stream: boolean): Promise<Response> {
+    const { systemInstruction, contents } = toGeminiContents(request.messages);
+    const method = stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+
+    return providerHttp.fetch('Gemini', `${this.baseUrl}/models/${encodeURIComponent(model)}:${method}`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        systemInstruction,
+        contents,
+        tools: toGeminiTools(request.tools),
+        generationConfig: {
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens: request.maxTokens || 4000,
+        },
+      }),
+    });
+  }
+
+  validateConfig(): boolean {
+    return !!this.apiKey;
+  }
+
+  getDefaultModel(): string {
+    return 'gemini-1.5-pro';
+  }
+
+  getSupportedModels(): string[] {
+    return modelRegistry.list('gemini').map(model => model.id);
+  }
+}
+
+/**
+ * Converts the conversation to Gemini `contents`. System messages are lifted
+ * into the `systemInstruction`, assistant turns use the `model` role and
+ * consecutive turns of the same role are merged, so the function responses
+ * for one model turn are sent together as Gemini requires.
+ */
+export function toGeminiContents(messages: Message[]): { systemInstruction?: any; contents: any[] } {
+  const system: string[] = [];
+  const contents: Array<{ role: 'user' | 'model'; parts: any[] }> = [];
+
+  const append = (role: 'user' | 'model', parts: any[]) => {
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  for (const msg of messages) {
+    switch (msg.role) {
+      case 'system':
+        system.push(msg.content);
+        break;
+      case 'user':
+        append('user', [{ text: msg.content }]);
+        break;
+      case 'assistant': {
+        const parts: any[] = msg.content ? [{ text: msg.content }] : [];
+        for (const call of msg.toolCalls || []) {
+          parts.push({ functionCall: { name: call.name, args: parseArguments(call.arguments) } });
+        }
+        if (parts.length) {
+          append('model', parts);
+        }
+        break;
+      }
+      case 'tool':
+        append('user', [{
+          functionResponse: {
+            name: msg.toolName,
+            response: msg.isError ? { error: msg.content } : { content: msg.content },
+          },
+        }]);
+        break;
+    }
+  }
+
+  return {
+    systemInstruction: system.length ? { parts: [{ text: system.join('\n\n') }] } : undefined,
+    contents,
+  };
+}
+
+export function toGeminiTools(tools: Tool[] | undefined): any[] | undefined {
+  if (!tools?.length) {
+    return undefined;
+  }
+
+  return [{
+    functionDeclarations: tools.map(tool => {
+      const parameters = toGeminiSchema(tool.parameters);
+      // Gemini rejects object schemas without properties, so omit them for tools that take no arguments
+      const hasProperties = parameters.properties && Object.keys(parameters.properties).length > 0;
+      return {
+        name: tool.name,
+        description: tool.description,
+        ...(hasProperties ? { parameters } : {}),
+      };
+    }),
+  }];
+}
+
+function toGeminiSchema(schema: Record<string, any>): Record<string, any> {
+  const converted: Record<string, any> = {};
+
+  for (const field of SCHEMA_FIELDS) {
+    if (schema[field] === undefined) continue;
+
+    if (field === 'type' && typeof schema.type === 'string') {
+      converted.type = schema.type.toUpperCase();
+    } else if (field === 'properties') {
+      converted.properties = Object.fromEntries(
+        Object.entries(schema.properties as Record<string, any>).map(([name, property]) => [name, toGeminiSchema(property)])
+      );
+    } else if (field === 'items') {
+      converted.items = toGeminiSchema(schema.items);
+    } else {
+      converted[field] = schema[field];
+    }
+  }
+
+  // Arrays must declare their item type
+  if (converted.type === 'ARRAY' && !converted.items) {
+    converted.items = { type: 'OBJECT' };
+  }
+
+  return converted;
+}
+
+function parseParts(parts: any[] | undefined): { content: string; toolCalls?: ToolCall[] } {
+  if (!Array.isArray(parts)) {
+    return { content: '' };
+  }
+
+  const content = parts
+    .filter(part => typeof part.text === 'string' && !part.thought)
+    .map(part => part.text)
+    .join('');
+
+  // Gemini does not always assign ids to function calls, so generate our own
+  const toolCalls: ToolCall[] = parts
+    .filter(part => part.functionCall)
+    .map(part => ({
+      id: part.functionCall.id || `call_${randomUUID().slice(0, 8)}`,
+      name: part.functionCall.name || '',
+      arguments: JSON.stringify(part.functionCall.args ?? {}),
+    }));
+
+  return { content, toolCalls: toolCalls.length ? toolCalls : undefined };
+}
+
+function toUsage(usageMetadata: any): NonNullable<ChatResponse['usage']> {
+  return {
+    inputTokens: usageMetadata?.promptTokenCount || 0,
+    outputTokens: usageMetadata?.candidatesTokenCount || 0,
+  };
+}
+
+function parseArguments(args: string): Record<string, any> {
+  try {
+    return args.trim() ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+}
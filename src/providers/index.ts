@@ -1,25 +1,77 @@
-import { AIProvider } from '../types/index.js';
+import { AIProvider, Config } from '../types/index.js';
 import { ConfigManager } from '../utils/config.js';
 import { OpenAIProvider } from './openai.js';
 import { OpenRouterProvider } from './openrouter.js';
+import { AnthropicProvider } from './anthropic.js';
+import { GeminiProvider } from './gemini.js';
 import { OllamaProvider } from './ollama.js';
+import { OpenAICompatibleProvider, parseHeaderList } from './openaiCompatible.js';
+import { FallbackProvider, parseFallbackList } from './fallback.js';
+import { providerHttp } from './request.js';
+import { diagnostics } from '../utils/diagnostics.js';
 
-export { OpenAIProvider, OpenRouterProvider, OllamaProvider };
+export { OpenAIProvider, OpenRouterProvider, AnthropicProvider, GeminiProvider, OllamaProvider, OpenAICompatibleProvider, FallbackProvider };
 
 export class ProviderFactory {
   static createProvider(configManager: ConfigManager): AIProvider {
     const config = configManager.getConfig();
-    const providerConfig = configManager.getProviderConfig();
 
-    switch (config.provider) {
+    if (config.maxRetries !== undefined) {
+      providerHttp.setPolicy({ maxRetries: config.maxRetries });
+    }
+    if (config.requestTimeout !== undefined) {
+      providerHttp.setPolicy({ timeoutMs: config.requestTimeout * 1000 });
+    }
+
+    const provider = ProviderFactory.createNamedProvider(configManager, config.provider, config.defaultModel);
+    if (!config.fallbacks?.length) {
+      return provider;
+    }
+
+    const entries = [{ provider, model: config.defaultModel }];
+    for (const fallback of parseFallbackList(config.fallbacks)) {
+      const backup = ProviderFactory.createNamedProvider(configManager, fallback.provider, fallback.model);
+      // A backup without credentials would only fail, so leave it out of the chain
+      if (backup.validateConfig() === false) {
+        diagnostics.warn('provider', `Ignoring fallback ${fallback.provider}:${fallback.model}, which is not configured`).catch(() => {});
+        continue;
+      }
+      entries.push({ provider: backup, model: fallback.model });
+    }
+
+    return new FallbackProvider(entries);
+  }
+
+  private static createNamedProvider(configManager: ConfigManager, name: Config['provider'], model?: string): AIProvider {
+    const config = configManager.getConfig();
+    const providerConfig = configManager.getProviderConfig(name);
+
+    switch (name) {
       case 'openai':
         return new OpenAIProvider(providerConfig.apiKey);
       case 'openrouter':
         return new OpenRouterProvider(providerConfig.apiKey);
+      case 'anthropic':
+        return new AnthropicProvider(providerConfig.apiKey, providerConfig.baseUrl);
+      case 'gemini':
+        return new GeminiProvider(providerConfig.apiKey, providerConfig.baseUrl);
       case 'ollama':
-        return new OllamaProvider(providerConfig.baseUrl || 'http://localhost:11434');
+        return new OllamaProvider(providerConfig.baseUrl || 'http://localhost:11434', config.ollamaToolMode);
+      case 'openai-compatible':
+        if (!providerConfig.baseUrl) {
+          throw new Error('OpenAI-compatible base URL not found. Set OPENAI_COMPATIBLE_BASE_URL environment variable.');
+        }
+        return new OpenAICompatibleProvider({
+          baseUrl: providerConfig.baseUrl,
+          apiKey: providerConfig.apiKey || undefined,
+          headers: parseHeaderList(config.openaiCompatibleHeaders || []),
+          modelsEndpoint: config.openaiCompatibleModelsEndpoint,
+          defaultModel: model,
+          supportsTools: config.openaiCompatibleSupportsTools,
+          supportsStreamUsage: config.openaiCompatibleStreamUsage,
+        });
       default:
-        throw new Error(`Unknown provider: ${config.provider}`);
+        throw new Error(`Unknown provider: ${name}`);
     }
   }
 }
\ No newline at end of file
@@ -1,7 +1,12 @@
-import fetch from 'node-fetch';
-import { AIProvider, ChatRequest, ChatResponse, Message } from '../types/index.js';
+import fetch, { Response } from 'node-fetch';
+import { randomUUID } from 'crypto';
+import { AIProvider, ChatRequest, ChatResponse, Message, ToolCall } from '../types/index.js';
+import { toOpenAITools } from './openaiFormat.js';
+import { mayBePromptToolCall, parsePromptToolCalls, toPromptMessages } from './promptTools.js';
+import { providerHttp } from './request.js';
+import { readLines } from './streaming.js';
 import { diagnostics } from '../utils/diagnostics.js';
-import { ErrorHandler } from '../utils/errorHandler.js';
+import { ProviderRequestError } from '../utils/errorHandler.js';
 
 export interface OllamaModel {
   name: string;
@@ -17,59 +22,58 @@ export interface OllamaModel {
   };
 }
 
+/**
+ * How tool definitions are offered to the model: `native` uses Ollama's
+ * `tools` field, `prompt` describes them in a system message, and `auto`
+ * tries native first and falls back per model when Ollama reports that the
+ * model's template does not support tools.
+ */
+export type OllamaToolMode = 'auto' | 'native' | 'prompt';
+
 export class OllamaProvider implements AIProvider {
   name = 'ollama';
   private baseUrl: string;
+  private toolMode: OllamaToolMode;
+  private promptToolModels: Set<string> = new Set();
 
-  constructor(baseUrl: string = 'http://localhost:11434') {
+  constructor(baseUrl: string = 'http://localhost:11434', toolMode: OllamaToolMode = 'auto') {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.toolMode = toolMode;
   }
 
   async chat(request: ChatRequest): Promise<ChatResponse> {
     const startTime = Date.now();
+    const model = request.model || this.getDefaultModel();
     
     try {
       await diagnostics.info('provider', `Starting Ollama chat request`, {
-        model: request.model || this.getDefaultModel(),
+        model,
         messageCount: request.messages.length,
         hasTools: !!request.tools?.length,
         baseUrl: this.baseUrl,
       });
 
-      const response = await fetch(`${this.baseUrl}/api/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: request.model || this.getDefaultModel(),
-          messages: this.convertMessages(request.messages),
-          stream: false,
-          options: {
-            temperature: request.temperature || 0.7,
-            num_predict: request.maxTokens || 4000,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Ollama API error: ${response.status} ${error}`);
-      }
-
+      const { response, promptTools } = await this.postChat(request, model, false);
       const data = await response.json() as any;
       
       const duration = Date.now() - startTime;
       await diagnostics.info('provider', `Ollama chat request completed`, {
         duration: `${duration}ms`,
-        model: request.model || this.getDefaultModel(),
+        model,
         baseUrl: this.baseUrl,
+        promptTools,
       });
+
+      const content = data.message?.content || '';
+      const parsed = promptTools
+        ? parsePromptToolCalls(content, request.tools || [])
+        : { content, toolCalls: this.parseToolCalls(data.message?.tool_calls) };
       
       return {
         message: {
           role: 'assistant',
-          content: data.message?.content || '',
+          content: parsed.content,
+          toolCalls: parsed.toolCalls,
         },
         usage: {
           inputTokens: data.prompt_eval_count || 0,
@@ -80,7 +84,7 @@ export class OllamaProvider implements AIProvider {
       const duration = Date.now() - startTime;
       await diagnostics.error('provider', `Ollama chat request failed`, error as Error, {
         duration: `${duration}ms`,
-        model: request.model || this.getDefaultModel(),
+        model,
         baseUrl: this.baseUrl,
       });
       throw error;
@@ -88,81 +92,88 @@ export class OllamaProvider implements AIProvider {
   }
 
   async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    const model = request.model || this.getDefaultModel();
+
     try {
       await diagnostics.info('provider', `Starting Ollama streaming chat`, {
-        model: request.model || this.getDefaultModel(),
+        model,
         baseUrl: this.baseUrl,
       });
 
-      const response = await fetch(`${this.baseUrl}/api/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: request.model || this.getDefaultModel(),
-          messages: this.convertMessages(request.messages),
-          stream: true,
-          options: {
-            temperature: request.temperature || 0.7,
-            num_predict: request.maxTokens || 4000,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Ollama API error: ${response.status} ${error}`);
-      }
+      const { response, promptTools } = await this.postChat(request, model, true);
 
       if (!response.body) {
         throw new Error('No response body received from Ollama');
       }
 
-      const reader = (response.body as any)?.getReader();
-      if (!reader) {
-        throw new Error('Response body not readable');
-      }
-      const decoder = new TextDecoder();
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          
-          if (done) break;
-          
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n').filter(line => line.trim());
-          
-          for (const line of lines) {
-            try {
-              const data = JSON.parse(line);
-              
-              if (data.message?.content) {
-                yield {
-                  message: {
-                    role: 'assistant',
-                    content: data.message.content,
-                  },
-                };
-              }
-              
-              if (data.done) {
-                yield {
-                  usage: {
-                    inputTokens: data.prompt_eval_count || 0,
-                    outputTokens: data.eval_count || 0,
-                  },
-                };
-              }
-            } catch (parseError) {
-              // Skip invalid JSON lines
-              continue;
+      // In prompt mode a reply may be a JSON tool call, which must not be
+      // streamed to the user; hold text back until it clearly isn't one.
+      let held = '';
+      let holding = promptTools;
+
+      for await (const line of readLines(response.body)) {
+        if (!line.trim()) continue;
+
+        let data: any;
+        try {
+          data = JSON.parse(line);
+        } catch (parseError) {
+          // Skip invalid JSON lines
+          continue;
+        }
+
+        if (data.error) {
+          throw new Error(`Ollama API error: ${data.error}`);
+        }
+
+        if (data.message?.content) {
+          if (holding) {
+            held += data.message.content;
+            if (!mayBePromptToolCall(held)) {
+              holding = false;
+              yield { message: { role: 'assistant', content: held } };
+              held = '';
             }
+          } else {
+            yield {
+              message: {
+                role: 'assistant',
+                content: data.message.content,
+              },
+            };
           }
         }
-      } finally {
-        reader.releaseLock();
+
+        const toolCalls = this.parseToolCalls(data.message?.tool_calls);
+        if (toolCalls) {
+          yield {
+            message: {
+              role: 'assistant',
+              content: '',
+              toolCalls,
+            },
+          };
+        }
+
+        if (data.done) {
+          yield {
+            usage: {
+              inputTokens: data.prompt_eval_count || 0,
+              outputTokens: data.eval_count || 0,
+            },
+          };
+        }
+      }
+
+      if (held) {
+        const parsed = parsePromptToolCalls(held, request.tools || []);
+        yield {
+          message: {
+            role: 'assistant',
+            content: parsed.content,
+            toolCalls: parsed.toolCalls,
+          },
+        };
       }
     } catch (error) {
       await diagnostics.error('provider', `Ollama streaming chat failed`, error as Error, {
@@ -172,6 +183,69 @@ export class OllamaProvider implements AIProvider {
     }
   }
 
+  private async postChat(
+    request: ChatRequest,
+    model: string,
+    stream: boolean
+  ): Promise<{ response: Response; promptTools: boolean }> {
+    const hasTools = !!request.tools?.length;
+    let promptTools = hasTools && (this.toolMode === 'prompt' || this.promptToolModels.has(model));
+
+    try {
+      return { response: await this.sendChatRequest(request, model, stream, promptTools), promptTools };
+    } catch (error) {
+      if (
+        !hasTools || promptTools || this.toolMode !== 'auto' ||
+        !(error instanceof ProviderRequestError) || !this.isToolsUnsupportedError(error.body)
+      ) {
+        throw error;
+      }
+    }
+
+    await diagnostics.warn('provider', `Ollama model does not support native tools, falling back to prompt-based tool calls`, {
+      model,
+      baseUrl: this.baseUrl,
+    });
+    this.promptToolModels.add(model);
+    promptTools = true;
+
+    const response = await this.sendChatRequest(request, model, stream, promptTools);
+    return { response, promptTools };
+  }
+
+  private async sendChatRequest(
+    request: ChatRequest,
+    model: string,
+    stream: boolean,
+    promptTools: boolean
+  ): Promise<Response> {
+    const messages = promptTools
+      ? toPromptMessages(request.messages, request.tools || [])
+      : request.messages;
+
+    return providerHttp.fetch('Ollama', `${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: this.convertMessages(messages),
+        tools: promptTools ? undefined : toOpenAITools(request.tools),
+        stream,
+        options: {
+          temperature: request.temperature ?? 0.7,
+          num_predict: request.maxTokens || 4000,
+        },
+      }),
+    });
+  }
+
+  private isToolsUnsupportedError(error: string): boolean {
+    return /does not support tools/i.test(error);
+  }
+
   async validateConfig(): Promise<boolean> {
     try {
       const response = await fetch(`${this.baseUrl}/api/tags`, {
@@ -245,34 +319,17 @@ export class OllamaProvider implements AIProvider {
 
       // Ollama returns streaming response for pull progress
       if (response.body) {
-        const reader = (response.body as any)?.getReader();
-        if (!reader) {
-          throw new Error('Response body not readable');
-        }
-        const decoder = new TextDecoder();
-
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            
-            const chunk = decoder.decode(value);
-            const lines = chunk.split('\n').filter(line => line.trim());
-            
-            for (const line of lines) {
-              try {
-                const data = JSON.parse(line);
-                if (data.status === 'success') {
-                  await diagnostics.info('provider', `Successfully pulled model: ${modelName}`);
-                  return true;
-                }
-              } catch (parseError) {
-                // Continue processing other lines
-              }
+        for await (const line of readLines(response.body)) {
+          if (!line.trim()) continue;
+          try {
+            const data = JSON.parse(line);
+            if (data.status === 'success') {
+              await diagnostics.info('provider', `Successfully pulled model: ${modelName}`);
+              return true;
             }
+          } catch (parseError) {
+            // Continue processing other lines
           }
-        } finally {
-          reader.releaseLock();
         }
       }
 
@@ -347,9 +404,55 @@ export class OllamaProvider implements AIProvider {
   }
 
   private convertMessages(messages: Message[]): any[] {
-    return messages.map(msg => ({
-      role: msg.role,
-      content: msg.content,
+    return messages.map(msg => {
+      if (msg.role === 'tool') {
+        return {
+          role: 'tool',
+          content: msg.content,
+          tool_name: msg.toolName,
+        };
+      }
+
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: msg.content,
+          tool_calls: msg.toolCalls.map(call => ({
+            function: {
+              name: call.name,
+              arguments: this.parseArguments(call.arguments),
+            },
+          })),
+        };
+      }
+
+      return {
+        role: msg.role,
+        content: msg.content,
+      };
+    });
+  }
+
+  private parseToolCalls(toolCalls: any[] | undefined): ToolCall[] | undefined {
+    if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+      return undefined;
+    }
+
+    // Ollama does not assign ids to tool calls, so generate our own
+    return toolCalls.map(call => ({
+      id: call.id || `call_${randomUUID().slice(0, 8)}`,
+      name: call.function?.name || '',
+      arguments: typeof call.function?.arguments === 'string'
+        ? call.function.arguments
+        : JSON.stringify(call.function?.arguments ?? {}),
     }));
   }
+
+  private parseArguments(args: string): Record<string, any> {
+    try {
+      return args.trim() ? JSON.parse(args) : {};
+    } catch {
+      return {};
+    }
+  }
 }
\ No newline at end of file
@@ -1,49 +1,50 @@
-import fetch from 'node-fetch';
-import { AIProvider, ChatRequest, ChatResponse, Message } from '../types/index.js';
+import { AIProvider, ChatRequest, ChatResponse } from '../types/index.js';
+import { parseOpenAIToolCallDeltas, parseOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './openaiFormat.js';
+import { providerHttp } from './request.js';
+import { readLines } from './streaming.js';
+import { ModelCatalog, modelCatalog } from '../utils/modelCatalog.js';
+import { modelRegistry } from '../utils/modelRegistry.js';
+
+// The models endpoint also lists embedding, audio and image models
+const CHAT_MODEL = /^(gpt-|chatgpt-|o\d)/;
+const NON_CHAT_MODEL = /(audio|realtime|transcribe|tts|image|embedding|search|instruct)/;
 
 export class OpenAIProvider implements AIProvider {
   name = 'openai';
   private apiKey: string;
-  private baseUrl = 'https://api.openai.com/v1';
+  private baseUrl: string;
+  private catalog: ModelCatalog;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, baseUrl: string = 'https://api.openai.com/v1', catalog: ModelCatalog = modelCatalog) {
     this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.catalog = catalog;
   }
 
   async chat(request: ChatRequest): Promise<ChatResponse> {
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+    const response = await providerHttp.fetch('OpenAI', `${this.baseUrl}/chat/completions`, {
       method: 'POST',
+      signal: request.signal,
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify({
         model: request.model || this.getDefaultModel(),
-        messages: request.messages,
-        temperature: request.temperature || 0.7,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature ?? 0.7,
         max_tokens: request.maxTokens || 4000,
-        tools: request.tools?.map(tool => ({
-          type: 'function',
-          function: {
-            name: tool.name,
-            description: tool.description,
-            parameters: tool.parameters,
-          },
-        })),
+        tools: toOpenAITools(request.tools),
       }),
     });
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
-    }
-
     const data = await response.json() as any;
     
     return {
       message: {
         role: 'assistant',
         content: data.choices[0]?.message?.content || '',
+        toolCalls: parseOpenAIToolCalls(data.choices[0]?.message?.tool_calls),
       },
       usage: {
         inputTokens: data.usage?.prompt_tokens || 0,
@@ -53,75 +54,64 @@ export class OpenAIProvider implements AIProvider {
   }
 
   async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+    const response = await providerHttp.fetch('OpenAI', `${this.baseUrl}/chat/completions`, {
       method: 'POST',
+      signal: request.signal,
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify({
         model: request.model || this.getDefaultModel(),
-        messages: request.messages,
-        temperature: request.temperature || 0.7,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature ?? 0.7,
         max_tokens: request.maxTokens || 4000,
-        tools: request.tools?.map(tool => ({
-          type: 'function',
-          function: {
-            name: tool.name,
-            description: tool.description,
-            parameters: tool.parameters,
-          },
-        })),
+        tools: toOpenAITools(request.tools),
         stream: true,
+        stream_options: { include_usage: true },
       }),
     });
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
-    }
-
     if (!response.body) {
       throw new Error('No response body');
     }
 
-    const reader = (response.body as any).getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    for await (const line of readLines(response.body)) {
+      if (line.startsWith('data: ')) {
+        const data = line.slice(6);
+        if (data === '[DONE]') continue;
+        
+        try {
+          const parsed = JSON.parse(data);
+          const delta = parsed.choices?.[0]?.delta;
+          const content = delta?.content;
+          if (content) {
+            yield {
+              message: {
+                role: 'assistant',
+                content,
+              },
+            };
+          }
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
+          const toolCallDeltas = parseOpenAIToolCallDeltas(delta?.tool_calls);
+          if (toolCallDeltas) {
+            yield { toolCallDeltas };
+          }
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-            
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                yield {
-                  message: {
-                    role: 'assistant',
-                    content,
-                  },
-                };
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
+          // Usage arrives in a final chunk with no choices
+          if (parsed.usage) {
+            yield {
+              usage: {
+                inputTokens: parsed.usage.prompt_tokens || 0,
+                outputTokens: parsed.usage.completion_tokens || 0,
+              },
+            };
           }
+        } catch (e) {
+          // Skip invalid JSON
         }
       }
-    } finally {
-      reader.releaseLock();
     }
   }
 
@@ -133,13 +123,27 @@ export class OpenAIProvider implements AIProvider {
     return 'gpt-4-turbo-preview';
   }
 
-  getSupportedModels(): string[] {
-    return [
-      'gpt-4-turbo-preview',
-      'gpt-4',
-      'gpt-4-32k',
-      'gpt-3.5-turbo',
-      'gpt-3.5-turbo-16k'
-    ];
+  /**
+   * Lists the chat models the API key can use. OpenAI does not publish limits
+   * or prices through the API, so those come from the model registry, where
+   * dated snapshots inherit the values of their family.
+   */
+  async getSupportedModels(): Promise<string[]> {
+    const models = await this.catalog.getModels(this.name, this.baseUrl, async () => {
+      const response = await providerHttp.fetch('OpenAI', `${this.baseUrl}/models`, {
+        headers: { 'Authorization': `Bearer ${this.apiKey}` },
+      });
+      const data = await response.json() as { data?: Array<{ id: string }> };
+      if (!Array.isArray(data.data)) {
+        throw new Error('OpenAI returned no model list');
+      }
+      return data.data
+        .map(model => model.id)
+        .filter(id => CHAT_MODEL.test(id) && !NON_CHAT_MODEL.test(id))
+        .sort()
+        .map(id => ({ provider: this.name, id }));
+    });
+
+    return (models || modelRegistry.list(this.name)).map(model => model.id);
   }
 }
\ No newline at end of file
@@ -0,0 +1,256 @@
+import { Response } from 'node-fetch';
+import { AIProvider, ChatRequest, ChatResponse } from '../types/index.js';
+import { parseOpenAIToolCallDeltas, parseOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './openaiFormat.js';
+import { mayBePromptToolCall, parsePromptToolCalls, toPromptMessages } from './promptTools.js';
+import { providerHttp } from './request.js';
+import { readLines } from './streaming.js';
+import { diagnostics } from '../utils/diagnostics.js';
+
+export interface OpenAICompatibleOptions {
+  /** Base URL of the API, including the version prefix (e.g. http://localhost:8000/v1) */
+  baseUrl: string;
+  /** Sent as a bearer token when set; most local servers do not need one */
+  apiKey?: string;
+  /** Extra headers added to every request, e.g. for an internal gateway */
+  headers?: Record<string, string>;
+  /** Path relative to the base URL, or an absolute URL, listing the models */
+  modelsEndpoint?: string;
+  defaultModel?: string;
+  /**
+   * Whether the server accepts the `tools` field. When false the tools are
+   * described in a system message using the prompt-based protocol.
+   */
+  supportsTools?: boolean;
+  /** Whether to ask for token usage in the final chunk of a stream */
+  supportsStreamUsage?: boolean;
+}
+
+/**
+ * Parses `Name: value` entries as given in the `openaiCompatibleHeaders`
+ * setting into a header map.
+ */
+export function parseHeaderList(entries: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    const name = separator > 0 ? entry.slice(0, separator).trim() : '';
+    if (!name) {
+      throw new Error(`Invalid header '${entry}' in openaiCompatibleHeaders (expected "Name: value")`);
+    }
+    headers[name] = entry.slice(separator + 1).trim();
+  }
+
+  return headers;
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as
+ * vLLM, the llama.cpp server, LM Studio or an internal gateway.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  name = 'openai-compatible';
+  private baseUrl: string;
+  private apiKey?: string;
+  private headers: Record<string, string>;
+  private modelsEndpoint: string;
+  private defaultModel?: string;
+  private nativeTools: boolean;
+  private supportsStreamUsage: boolean;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.apiKey = options.apiKey;
+    this.headers = options.headers || {};
+    this.modelsEndpoint = options.modelsEndpoint || '/models';
+    this.defaultModel = options.defaultModel;
+    this.nativeTools = options.supportsTools ?? true;
+    this.supportsStreamUsage = options.supportsStreamUsage ?? false;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const startTime = Date.now();
+    const model = request.model || this.getDefaultModel();
+    const promptTools = this.usesPromptTools(request);
+
+    try {
+      await diagnostics.info('provider', `Starting OpenAI-compatible chat request`, {
+        model,
+        messageCount: request.messages.length,
+        hasTools: !!request.tools?.length,
+        baseUrl: this.baseUrl,
+      });
+
+      const response = await this.postChat(request, model, false, promptTools);
+      const data = await response.json() as any;
+
+      const duration = Date.now() - startTime;
+      await diagnostics.info('provider', `OpenAI-compatible chat request completed`, {
+        duration: `${duration}ms`,
+        model,
+        baseUrl: this.baseUrl,
+      });
+
+      const message = data.choices?.[0]?.message;
+      const content = message?.content || '';
+      const parsed = promptTools
+        ? parsePromptToolCalls(content, request.tools || [])
+        : { content, toolCalls: parseOpenAIToolCalls(message?.tool_calls) };
+
+      return {
+        message: {
+          role: 'assistant',
+          content: parsed.content,
+          toolCalls: parsed.toolCalls,
+        },
+        usage: {
+          inputTokens: data.usage?.prompt_tokens || 0,
+          outputTokens: data.usage?.completion_tokens || 0,
+        },
+      };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      await diagnostics.error('provider', `OpenAI-compatible chat request failed`, error as Error, {
+        duration: `${duration}ms`,
+        model,
+        baseUrl: this.baseUrl,
+      });
+      throw error;
+    }
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    const model = request.model || this.getDefaultModel();
+    const promptTools = this.usesPromptTools(request);
+
+    const response = await this.postChat(request, model, true, promptTools);
+
+    if (!response.body) {
+      throw new Error('No response body');
+    }
+
+    // In prompt mode a reply may be a JSON tool call, which must not be
+    // streamed to the user; hold text back until it clearly isn't one.
+    let held = '';
+    let holding = promptTools;
+
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith('data: ')) continue;
+
+      const data = line.slice(6);
+      if (data === '[DONE]') continue;
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(data);
+      } catch (e) {
+        // Skip invalid JSON
+        continue;
+      }
+
+      const delta = parsed.choices?.[0]?.delta;
+      const content = delta?.content;
+      if (content) {
+        if (holding) {
+          held += content;
+          if (!mayBePromptToolCall(held)) {
+            holding = false;
+            yield { message: { role: 'assistant', content: held } };
+            held = '';
+          }
+        } else {
+          yield { message: { role: 'assistant', content } };
+        }
+      }
+
+      const toolCallDeltas = parseOpenAIToolCallDeltas(delta?.tool_calls);
+      if (toolCallDeltas) {
+        yield { toolCallDeltas };
+      }
+
+      // Servers that honour stream_options send usage in a final chunk with no choices
+      if (parsed.usage) {
+        yield {
+          usage: {
+            inputTokens: parsed.usage.prompt_tokens || 0,
+            outputTokens: parsed.usage.completion_tokens || 0,
+          },
+        };
+      }
+    }
+
+    if (held) {
+      const parsed = parsePromptToolCalls(held, request.tools || []);
+      yield {
+        message: {
+          role: 'assistant',
+          content: parsed.content,
+          toolCalls: parsed.toolCalls,
+        },
+      };
+    }
+  }
+
+  private async postChat(request: ChatRequest, model: string, stream: boolean, promptTools: boolean): Promise<Response> {
+    const messages = promptTools ? toPromptMessages(request.messages, request.tools || []) : request.messages;
+
+    return providerHttp.fetch('OpenAI-compatible', `${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: this.getHeaders(),
+      body: JSON.stringify({
+        model,
+        messages: toOpenAIMessages(messages),
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens || 4000,
+        tools: promptTools ? undefined : toOpenAITools(request.tools),
+        stream: stream || undefined,
+        stream_options: stream && this.supportsStreamUsage ? { include_usage: true } : undefined,
+      }),
+    });
+  }
+
+  private usesPromptTools(request: ChatRequest): boolean {
+    return !this.nativeTools && !!request.tools?.length;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      ...this.headers,
+    };
+  }
+
+  private getModelsUrl(): string {
+    if (/^https?:\/\//.test(this.modelsEndpoint)) {
+      return this.modelsEndpoint;
+    }
+    return `${this.baseUrl}/${this.modelsEndpoint.replace(/^\//, '')}`;
+  }
+
+  validateConfig(): boolean {
+    return !!this.baseUrl;
+  }
+
+  getDefaultModel(): string {
+    return this.defaultModel || 'default';
+  }
+
+  async getSupportedModels(): Promise<string[]> {
+    const fallback = this.defaultModel ? [this.defaultModel] : [];
+
+    try {
+      const response = await providerHttp.fetch('OpenAI-compatible', this.getModelsUrl(), { headers: this.getHeaders() });
+      const data = await response.json() as { data?: Array<{ id: string }> };
+      const models = data.data?.map(model => model.id).filter(Boolean) || [];
+      return models.length ? models : fallback;
+    } catch (error) {
+      await diagnostics.warn('provider', `Failed to fetch OpenAI-compatible models`, {
+        url: this.getModelsUrl(),
+        error: (error as Error).message,
+      });
+      return fallback;
+    }
+  }
+}
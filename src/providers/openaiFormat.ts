@@ -0,0 +1,79 @@
+import { Message, Tool, ToolCall, ToolCallDelta } from '../types/index.js';
+
+// Shared request/response mapping for providers that speak the OpenAI
+// chat completions wire format (OpenAI, OpenRouter).
+
+export function toOpenAIMessages(messages: Message[]): any[] {
+  return messages.map(msg => {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: msg.toolCallId,
+        name: msg.toolName,
+        content: msg.content,
+      };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: call.arguments,
+          },
+        })),
+      };
+    }
+
+    return {
+      role: msg.role,
+      content: msg.content,
+    };
+  });
+}
+
+export function toOpenAITools(tools?: Tool[]): any[] | undefined {
+  if (!tools?.length) {
+    return undefined;
+  }
+
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+export function parseOpenAIToolCalls(toolCalls: any[] | undefined): ToolCall[] | undefined {
+  if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+    return undefined;
+  }
+
+  return toolCalls.map((call, index) => ({
+    id: call.id || `call_${index}`,
+    name: call.function?.name || '',
+    arguments: typeof call.function?.arguments === 'string'
+      ? call.function.arguments
+      : JSON.stringify(call.function?.arguments ?? {}),
+  }));
+}
+
+export function parseOpenAIToolCallDeltas(deltas: any[] | undefined): ToolCallDelta[] | undefined {
+  if (!Array.isArray(deltas) || deltas.length === 0) {
+    return undefined;
+  }
+
+  return deltas.map((delta, position) => ({
+    index: typeof delta.index === 'number' ? delta.index : position,
+    id: delta.id || undefined,
+    name: delta.function?.name || undefined,
+    arguments: delta.function?.arguments || undefined,
+  }));
+}
@@ -1,15 +1,23 @@
-import fetch from 'node-fetch';
-import { AIProvider, ChatRequest, ChatResponse, Message } from '../types/index.js';
+import { AIProvider, ChatRequest, ChatResponse } from '../types/index.js';
+import { parseOpenAIToolCallDeltas, parseOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './openaiFormat.js';
+import { providerHttp } from './request.js';
+import { readLines } from './streaming.js';
 import { diagnostics } from '../utils/diagnostics.js';
-import { ErrorHandler } from '../utils/errorHandler.js';
+import { ModelCatalog, modelCatalog } from '../utils/modelCatalog.js';
+import { ModelInfo, ModelOverride, modelRegistry } from '../utils/modelRegistry.js';
 
 export class OpenRouterProvider implements AIProvider {
   name = 'openrouter';
   private apiKey: string;
-  private baseUrl = 'https://openrouter.ai/api/v1';
+  private baseUrl: string;
+  private catalog: ModelCatalog;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, baseUrl: string = 'https://openrouter.ai/api/v1', catalog: ModelCatalog = modelCatalog) {
     this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.catalog = catalog;
+    // Prices fetched in an earlier session apply until the list is refreshed
+    this.catalog.applyCached(this.name, this.baseUrl);
   }
 
   async chat(request: ChatRequest): Promise<ChatResponse> {
@@ -22,8 +30,9 @@ export class OpenRouterProvider implements AIProvider {
         hasTools: !!request.tools?.length,
       });
 
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      const response = await providerHttp.fetch('OpenRouter', `${this.baseUrl}/chat/completions`, {
       method: 'POST',
+      signal: request.signal,
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.apiKey}`,
@@ -32,25 +41,13 @@ export class OpenRouterProvider implements AIProvider {
       },
       body: JSON.stringify({
         model: request.model || this.getDefaultModel(),
-        messages: request.messages,
-        temperature: request.temperature || 0.7,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature ?? 0.7,
         max_tokens: request.maxTokens || 4000,
-        tools: request.tools?.map(tool => ({
-          type: 'function',
-          function: {
-            name: tool.name,
-            description: tool.description,
-            parameters: tool.parameters,
-          },
-        })),
+        tools: toOpenAITools(request.tools),
       }),
     });
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`OpenRouter API error: ${response.status} ${error}`);
-      }
-
       const data = await response.json() as any;
       
       const duration = Date.now() - startTime;
@@ -64,6 +61,7 @@ export class OpenRouterProvider implements AIProvider {
         message: {
           role: 'assistant',
           content: data.choices[0]?.message?.content || '',
+          toolCalls: parseOpenAIToolCalls(data.choices[0]?.message?.tool_calls),
         },
         usage: {
           inputTokens: data.usage?.prompt_tokens || 0,
@@ -81,8 +79,9 @@ export class OpenRouterProvider implements AIProvider {
   }
 
   async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+    const response = await providerHttp.fetch('OpenRouter', `${this.baseUrl}/chat/completions`, {
       method: 'POST',
+      signal: request.signal,
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.apiKey}`,
@@ -91,70 +90,99 @@ export class OpenRouterProvider implements AIProvider {
       },
       body: JSON.stringify({
         model: request.model || this.getDefaultModel(),
-        messages: request.messages,
-        temperature: request.temperature || 0.7,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature ?? 0.7,
         max_tokens: request.maxTokens || 4000,
-        tools: request.tools?.map(tool => ({
-          type: 'function',
-          function: {
-            name: tool.name,
-            description: tool.description,
-            parameters: tool.parameters,
-          },
-        })),
+        tools: toOpenAITools(request.tools),
         stream: true,
+        stream_options: { include_usage: true },
       }),
     });
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} ${error}`);
-    }
-
     if (!response.body) {
       throw new Error('No response body');
     }
 
-    const reader = (response.body as any).getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
+    for await (const line of readLines(response.body)) {
+      if (line.startsWith('data: ')) {
+        const data = line.slice(6);
+        if (data === '[DONE]') continue;
+        
+        try {
+          const parsed = JSON.parse(data);
+          const delta = parsed.choices?.[0]?.delta;
+          const content = delta?.content;
+          if (content) {
+            yield {
+              message: {
+                role: 'assistant',
+                content,
+              },
+            };
+          }
+
+          const toolCallDeltas = parseOpenAIToolCallDeltas(delta?.tool_calls);
+          if (toolCallDeltas) {
+            yield { toolCallDeltas };
+          }
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-            
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                yield {
-                  message: {
-                    role: 'assistant',
-                    content,
-                  },
-                };
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
+          // Usage arrives in a final chunk with no choices
+          if (parsed.usage) {
+            yield {
+              usage: {
+                inputTokens: parsed.usage.prompt_tokens || 0,
+                outputTokens: parsed.usage.completion_tokens || 0,
+              },
+            };
           }
+        } catch (e) {
+          // Skip invalid JSON
         }
       }
-    } finally {
-      reader.releaseLock();
     }
   }
 
+  /**
+   * Looks the model up in OpenRouter's catalog, which lists `tools` among the
+   * supported parameters of models that can call tools. Models missing from
+   * the catalog, or a catalog that cannot be loaded, are given the benefit of
+   * the doubt.
+   */
+  async supportsTools(model: string): Promise<boolean> {
+    const models = await this.loadModels();
+    return models?.find(info => info.id === model)?.supportsTools ?? true;
+  }
+
+  private loadModels(): Promise<ModelInfo[] | undefined> {
+    return this.catalog.getModels(this.name, this.baseUrl, async () => {
+      const response = await providerHttp.fetch('OpenRouter', `${this.baseUrl}/models`, {
+        headers: { 'Authorization': `Bearer ${this.apiKey}` },
+      });
+      const data = await response.json() as any;
+      if (!Array.isArray(data.data)) {
+        throw new Error('OpenRouter returned no model list');
+      }
+      return data.data.map((model: any) => this.toModelOverride(model));
+    });
+  }
+
+  private toModelOverride(model: any): ModelOverride {
+    // Input modalities are listed either separately or as in "text+image->text"
+    const inputs: string[] = model.architecture?.input_modalities
+      || String(model.architecture?.modality || '').split('->')[0].split('+');
+
+    return {
+      provider: this.name,
+      id: model.id,
+      contextWindow: model.context_length || undefined,
+      maxOutputTokens: model.top_provider?.max_completion_tokens || undefined,
+      supportsTools: Array.isArray(model.supported_parameters) ? model.supported_parameters.includes('tools') : undefined,
+      supportsVision: inputs.includes('image'),
+      inputCostPer1kTokens: toPer1kTokens(model.pricing?.prompt),
+      outputCostPer1kTokens: toPer1kTokens(model.pricing?.completion),
+    };
+  }
+
   validateConfig(): boolean {
     return !!this.apiKey;
   }
@@ -163,18 +191,17 @@ export class OpenRouterProvider implements AIProvider {
     return 'openai/gpt-4-turbo-preview';
   }
 
-  getSupportedModels(): string[] {
-    return [
-      'openai/gpt-4-turbo-preview',
-      'openai/gpt-4',
-      'openai/gpt-3.5-turbo',
-      'meta-llama/llama-3.1-405b-instruct',
-      'meta-llama/llama-3.1-70b-instruct',
-      'google/gemini-pro-1.5',
-      'google/gemini-flash-1.5',
-      'mistralai/mistral-large',
-      'microsoft/wizardlm-2-8x22b',
-      'cohere/command-r-plus'
-    ];
+  async getSupportedModels(): Promise<string[]> {
+    const models = await this.loadModels();
+    return (models || modelRegistry.list(this.name)).map(model => model.id);
+  }
+}
+
+/** OpenRouter prices are USD per token as strings; negative means the price varies */
+function toPer1kTokens(price: unknown): number | undefined {
+  const perToken = Number(price);
+  if (price === undefined || price === null || !Number.isFinite(perToken) || perToken < 0) {
+    return undefined;
   }
+  return Number((perToken * 1000).toPrecision(6));
 }
\ No newline at end of file
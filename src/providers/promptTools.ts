@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+import { Message, Tool, ToolCall } from '../types/index.js';
+
+// Prompt-based tool calling for models that cannot take tool schemas natively.
+// The tool definitions are described in a system message and the model is
+// asked to answer with a JSON object whenever it wants to call a tool:
+//
+//   {"tool_calls": [{"name": "Read", "arguments": {"file_path": "/a.txt"}}]}
+//
+// Tool calls and results already in the conversation are rendered back as
+// plain text so that templates without a `tool` role can still follow along.
+
+export function buildToolPrompt(tools: Tool[]): string {
+  const toolList = tools.map(tool => [
+    `### ${tool.name}`,
+    tool.description,
+    `Parameters (JSON schema): ${JSON.stringify(tool.parameters)}`,
+  ].join('\n')).join('\n\n');
+
+  return `You have access to the following tools:
+
+${toolList}
+
+To call one or more tools, reply with ONLY a JSON object in this exact format and nothing else:
+{"tool_calls": [{"name": "<tool name>", "arguments": {<parameters>}}]}
+
+The tool results will be sent back to you in the next message. When you do not need a tool, answer normally in plain text.`;
+}
+
+export function toPromptMessages(messages: Message[], tools: Tool[]): Message[] {
+  const converted: Message[] = [];
+
+  if (tools.length > 0) {
+    converted.push({ role: 'system', content: buildToolPrompt(tools) });
+  }
+
+  for (const msg of messages) {
+    if (msg.role === 'tool') {
+      converted.push({
+        role: 'user',
+        content: `Result of tool call ${msg.toolName} (${msg.toolCallId})${msg.isError ? ' [error]' : ''}:\n${msg.content}`,
+      });
+    } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      const calls = msg.toolCalls.map(call => ({
+        name: call.name,
+        arguments: safeParse(call.arguments),
+      }));
+      const protocol = JSON.stringify({ tool_calls: calls });
+      converted.push({
+        role: 'assistant',
+        content: msg.content ? `${msg.content}\n${protocol}` : protocol,
+      });
+    } else {
+      converted.push(msg);
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Reads tool calls written in the prompt protocol. The whole reply must be
+ * the `{"tool_calls": [...]}` object, optionally in a code fence, and each
+ * call must name one of the offered tools. Anything else is an ordinary
+ * answer, even when it contains JSON.
+ */
+export function parsePromptToolCalls(content: string, tools: Tool[]): { content: string; toolCalls?: ToolCall[] } {
+  const json = content.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { content };
+  }
+
+  const names = new Set(tools.map(tool => tool.name));
+  const rawCalls: any[] | undefined = Array.isArray(parsed?.tool_calls) ? parsed.tool_calls : undefined;
+  if (!rawCalls?.length || !rawCalls.every(call => typeof call?.name === 'string' && names.has(call.name))) {
+    return { content };
+  }
+
+  return {
+    content: '',
+    toolCalls: rawCalls.map(call => ({
+      id: `call_${randomUUID().slice(0, 8)}`,
+      name: call.name,
+      arguments: typeof call.arguments === 'string'
+        ? call.arguments
+        : JSON.stringify(call.arguments ?? {}),
+    })),
+  };
+}
+
+/**
+ * Whether streamed text so far could still turn out to be a protocol tool
+ * call, in which case it must be held back rather than shown to the user.
+ */
+export function mayBePromptToolCall(content: string): boolean {
+  const trimmed = content.trimStart();
+  return trimmed === '' || trimmed.startsWith('{') || trimmed.startsWith('`');
+}
+
+function safeParse(args: string): any {
+  try {
+    return args.trim() ? JSON.parse(args) : {};
+  } catch {
+    return args;
+  }
+}
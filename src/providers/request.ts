@@ -0,0 +1,234 @@
+import fetch, { RequestInit, Response } from 'node-fetch';
+import { diagnostics } from '../utils/diagnostics.js';
+import { ErrorHandler, OpenCodeError, ProviderRequestError } from '../utils/errorHandler.js';
+
+export interface RetryPolicy {
+  /** Attempts after the first one; 0 disables retries */
+  maxRetries: number;
+  /** Delay before the first retry, doubled for every further attempt */
+  baseDelayMs: number;
+  /** Upper bound for the exponential backoff */
+  maxDelayMs: number;
+  /**
+   * Longest wait a server may ask for through `Retry-After` or rate-limit
+   * headers. Requests asking for more fail instead of stalling the session.
+   */
+  maxRetryAfterMs: number;
+  /**
+   * How long to wait for a response to start before giving up; 0 waits
+   * forever. Timed-out requests are not retried, so a fallback provider can
+   * take over instead.
+   */
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 60000,
+  timeoutMs: 300000,
+};
+
+/** Reported before every retry so the UI can show what is happening */
+export interface RetryEvent {
+  provider: string;
+  /** The retry about to be made, starting at 1 */
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+}
+
+/**
+ * The HTTP layer shared by every provider. Failed requests are retried with
+ * exponential backoff and jitter when `ErrorHandler` deems the failure
+ * transient, waiting as long as the server asks through `Retry-After` or
+ * rate-limit headers. Non-OK responses that are not retried become a
+ * `ProviderRequestError` whose message keeps the provider's usual
+ * `<Provider> API error: <status> <body>` format.
+ */
+export class ProviderHttpClient {
+  private policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  private listeners: Set<(event: RetryEvent) => void> = new Set();
+
+  setPolicy(policy: Partial<RetryPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
+  getPolicy(): RetryPolicy {
+    return { ...this.policy };
+  }
+
+  /** Subscribes to retry notifications; returns an unsubscribe function */
+  onRetry(listener: (event: RetryEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Sends a request and resolves with the OK response, retrying transient
+   * failures. `provider` names the API in errors and diagnostics.
+   */
+  async fetch(provider: string, url: string, init: RequestInit = {}): Promise<Response> {
+    const { maxRetries, timeoutMs } = this.policy;
+    const signal = init.signal as AbortSignal | null | undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      let error: Error;
+      // Only the wait for the response is limited; streams may run as long as they need.
+      // The caller's signal stays linked, so cancelling also stops a stream being read.
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      const timer = timeoutMs > 0 ? setTimeout(abort, timeoutMs) : undefined;
+      signal?.addEventListener('abort', abort, { once: true });
+      if (signal?.aborted) abort();
+
+      try {
+        const response = await fetch(url, { ...init, signal: controller.signal });
+        if (response.ok) {
+          if (attempt > 0) {
+            await diagnostics.info('provider', `${provider} request succeeded after ${attempt} ${attempt === 1 ? 'retry' : 'retries'}`, { url });
+          }
+          return response;
+        }
+
+        const body = await response.text();
+        error = new ProviderRequestError(`${provider} API error: ${response.status} ${body}`, response.status, body, {
+          provider,
+          retryAfterMs: getRetryAfterMs(response.headers),
+        });
+      } catch (fetchError) {
+        error = controller.signal.aborted && !signal?.aborted
+          ? new OpenCodeError(`${provider} request timed out after ${timeoutMs}ms`, 'TIMEOUT', 'provider', { provider, url })
+          : fetchError as Error;
+      } finally {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', abort);
+
+      if (!ErrorHandler.isRetryable(error) || attempt >= maxRetries) {
+        if (attempt > 0) {
+          await diagnostics.error('provider', `${provider} request failed after ${attempt} ${attempt === 1 ? 'retry' : 'retries'}`, error, { url });
+        }
+        throw error;
+      }
+
+      const retryAfterMs = error instanceof ProviderRequestError ? error.retryAfterMs : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > this.policy.maxRetryAfterMs) {
+        await diagnostics.error('provider', `${provider} asked to wait ${retryAfterMs}ms, longer than the ${this.policy.maxRetryAfterMs}ms limit`, error, { url });
+        throw error;
+      }
+
+      const delayMs = retryAfterMs ?? computeBackoff(attempt + 1, this.policy);
+      const event: RetryEvent = {
+        provider,
+        attempt: attempt + 1,
+        maxRetries,
+        delayMs,
+        reason: describeFailure(error),
+      };
+
+      await diagnostics.warn('provider', `Retrying ${provider} request in ${delayMs}ms (attempt ${event.attempt} of ${maxRetries})`, {
+        url,
+        reason: event.reason,
+        delayMs,
+        retryAfter: retryAfterMs !== undefined,
+      });
+      this.listeners.forEach(listener => listener(event));
+
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+export const providerHttp = new ProviderHttpClient();
+
+/**
+ * Exponential backoff with jitter: the delay for a retry is drawn from the
+ * upper half of `baseDelayMs * 2^(attempt - 1)`, capped at `maxDelayMs`, so
+ * clients that failed together do not retry in lockstep.
+ */
+export function computeBackoff(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Reads how long the server wants the client to wait, in milliseconds, from
+ * `retry-after-ms`, `Retry-After` (seconds or an HTTP date) or, for limits
+ * that are used up, the rate-limit reset headers sent by OpenAI and
+ * Anthropic.
+ */
+export function getRetryAfterMs(headers: { get(name: string): string | null }, now: number = Date.now()): number | undefined {
+  const retryAfterMs = Number(headers.get('retry-after-ms'));
+  if (headers.get('retry-after-ms') && Number.isFinite(retryAfterMs)) {
+    return Math.max(0, retryAfterMs);
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  // Without Retry-After, wait until every exhausted rate limit has reset
+  const resets: number[] = [];
+  for (const kind of ['requests', 'tokens']) {
+    if (headers.get(`x-ratelimit-remaining-${kind}`) === '0') {
+      const ms = parseDuration(headers.get(`x-ratelimit-reset-${kind}`) || '');
+      if (ms !== undefined) resets.push(ms);
+    }
+    if (headers.get(`anthropic-ratelimit-${kind}-remaining`) === '0') {
+      const date = Date.parse(headers.get(`anthropic-ratelimit-${kind}-reset`) || '');
+      if (!Number.isNaN(date)) resets.push(Math.max(0, date - now));
+    }
+  }
+
+  return resets.length ? Math.max(...resets) : undefined;
+}
+
+/** Parses durations such as `20ms`, `1.5s` or `6m0s` */
+function parseDuration(value: string): number | undefined {
+  const parts = value.trim().match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+  if (!parts) return undefined;
+
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  return Math.round(parts.reduce((total, part) => {
+    const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/)!;
+    return total + Number(amount) * units[unit];
+  }, 0));
+}
+
+function describeFailure(error: Error): string {
+  if (error instanceof ProviderRequestError) {
+    return error.status === 429 ? 'rate limited' : `HTTP ${error.status}`;
+  }
+  return (error as { code?: string }).code || error.message;
+}
+
+/** Waits between retries; rejects with an `AbortError` as soon as the request is cancelled */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      cancel();
+    } else {
+      signal?.addEventListener('abort', cancel, { once: true });
+    }
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * Reads a streamed HTTP response body line by line. node-fetch exposes the
+ * body as a Node.js Readable, while the global fetch returns a web
+ * ReadableStream, so both shapes are accepted.
+ */
+export async function* readLines(body: any): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of iterateBody(body)) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      yield line.replace(/\r$/, '');
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer.replace(/\r$/, '');
+  }
+}
+
+async function* iterateBody(body: any): AsyncGenerator<Uint8Array | string> {
+  if (typeof body?.getReader === 'function') {
+    const reader = body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  if (body && typeof body[Symbol.asyncIterator] === 'function') {
+    yield* body;
+    return;
+  }
+
+  throw new Error('Response body not readable');
+}
@@ -1,4 +1,13 @@
 import { BaseTool } from './base.js';
+import { Message } from '../types/index.js';
+import { ConversationEngine } from '../utils/conversation.js';
+import { costTracker } from '../utils/costTracker.js';
+import { diagnostics } from '../utils/diagnostics.js';
+import { toolSafety } from '../utils/toolSafety.js';
+
+const SUB_AGENT_PROMPT = `You are a sub-agent launched by another AI coding assistant to carry out a single task autonomously.
+You cannot ask the user questions. Use the available tools to investigate, then finish with a concise final report
+that contains exactly the information the task asks for. Only your final message is returned to the caller.`;
 
 export class AgentTool extends BaseTool {
   name = 'Agent';
@@ -16,50 +25,105 @@ export class AgentTool extends BaseTool {
     },
   };
 
-  async _execute(params: Record<string, any>): Promise<string> {
-    
+  async _execute(params: Record<string, any>, signal?: AbortSignal): Promise<string> {
+
     const { description, prompt } = params;
-    
+
     if (description.split(' ').length > 6) {
       return 'Error: Description should be 3-5 words maximum';
     }
-    
+
     if (prompt.length < 10) {
       return 'Error: Prompt must be at least 10 characters long';
     }
-    
+
+    const { provider, toolManager, sessionId } = this.context;
+    if (!provider || !toolManager) {
+      return 'Error: Agent tool is not available because no AI provider is configured';
+    }
+
+    // Sub-agents never get the Agent tool itself, so they cannot recurse
+    const toolNames = (this.config?.subAgentTools || toolSafety.getReadOnlyTools())
+      .filter(name => name !== this.name);
+    const maxTurns = this.config?.subAgentMaxTurns ?? 10;
+    const tokenBudget = this.config?.subAgentTokenBudget ?? 100000;
+    const model = this.config?.defaultModel || provider.getDefaultModel();
+
+    const engine = new ConversationEngine(provider, toolManager.createSubset(toolNames), {
+      model,
+      temperature: this.config?.temperature,
+      maxTokens: this.config?.maxTokens,
+      maxTurns,
+      stream: false,
+      signal,
+    });
+
+    const messages: Message[] = [
+      { role: 'system', content: SUB_AGENT_PROMPT },
+      { role: 'user', content: prompt },
+    ];
+
+    const startTime = Date.now();
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    let report = '';
+    let toolCallCount = 0;
+    let stopReason: string | undefined;
+
+    await diagnostics.info('agent', `Sub-agent started: ${description}`, {
+      description,
+      tools: toolNames,
+      maxTurns,
+      tokenBudget,
+      parentSessionId: sessionId,
+    });
+
     try {
-      // Note: This is a simplified implementation since we don't have access to the full AI model infrastructure
-      // In a production environment, this would spawn a new agent instance with access to tools
-      
-      return `Agent Task: ${description}
-
-This agent tool is not fully implemented in this version. In the full Feral Code implementation, this would:
-
-1. Launch a new stateless agent instance
-2. Provide the agent with access to all available tools:
-   - Bash, Glob, Grep, LS, Read, Edit, MultiEdit, Write
-   - NotebookRead, NotebookEdit, WebFetch, TodoRead, TodoWrite
-   - WebSearch and other specialized tools
-3. Execute the following task autonomously:
-
-${prompt}
-
-The agent would:
-- Perform the task independently without further user input
-- Use tools as needed to complete the objective
-- Return a single comprehensive result
-- Handle errors and edge cases automatically
-
-To implement this fully, you would need:
-1. A way to spawn new AI model instances
-2. Tool orchestration and execution framework
-3. Result aggregation and reporting system
-4. Proper isolation and resource management
-
-For now, you can break down this task and use individual tools manually to achieve the same result.`;
-    } catch (error: any) {
-      return `Error executing agent task: ${error.message}`;
+      for await (const event of engine.run(messages)) {
+        if (event.type === 'message' && event.message.role === 'assistant') {
+          report = event.message.content;
+          // Stop before running any further tool calls once over budget
+          if (stopReason) break;
+        } else if (event.type === 'tool_call') {
+          toolCallCount++;
+        } else if (event.type === 'max_turns') {
+          stopReason = `turn limit of ${maxTurns} reached`;
+        } else if (event.type === 'cancelled') {
+          stopReason = 'cancelled by the user';
+        } else if (event.type === 'usage') {
+          usage.inputTokens += event.usage.inputTokens;
+          usage.outputTokens += event.usage.outputTokens;
+
+          if (usage.inputTokens + usage.outputTokens > tokenBudget) {
+            stopReason = `token budget of ${tokenBudget} exhausted`;
+          }
+        }
+      }
+    } catch (error) {
+      await diagnostics.error('agent', `Sub-agent failed: ${description}`, error as Error, {
+        description,
+        parentSessionId: sessionId,
+      });
+      return `Error executing agent task: ${(error as Error).message}`;
+    } finally {
+      if (usage.inputTokens > 0 || usage.outputTokens > 0) {
+        await costTracker.trackUsage(provider.name, model, usage.inputTokens, usage.outputTokens, sessionId);
+      }
     }
+
+    await diagnostics.info('agent', `Sub-agent finished: ${description}`, {
+      description,
+      duration: `${Date.now() - startTime}ms`,
+      toolCalls: toolCallCount,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      stopReason,
+      parentSessionId: sessionId,
+    });
+
+    if (stopReason) {
+      return `${report || 'The agent did not produce a report.'}\n\n[Agent stopped early: ${stopReason}]`;
+    }
+
+    return report || 'The agent finished without producing a report.';
   }
-}
\ No newline at end of file
+}
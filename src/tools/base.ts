@@ -1,7 +1,10 @@
 import { diagnostics } from '../utils/diagnostics.js';
 import { ErrorHandler } from '../utils/errorHandler.js';
 import { toolSafety } from '../utils/toolSafety.js';
-import { Config } from '../types/index.js';
+import { PermissionManager } from '../utils/permissions.js';
+import type { PlanMode } from '../utils/planMode.js';
+import { AIProvider, Config } from '../types/index.js';
+import type { ToolManager } from './index.js';
 
 export interface ToolParameter {
   type: string;
@@ -16,20 +19,39 @@ export interface ToolDefinition {
   parameters: Record<string, ToolParameter>;
 }
 
+/**
+ * Runtime state some tools need beyond their parameters, such as the active
+ * provider for tools that talk to the model themselves.
+ */
+export interface ToolContext {
+  provider?: AIProvider;
+  toolManager?: ToolManager;
+  sessionId?: string;
+  /** Approves mutating tool calls; tools run unprompted when absent */
+  permissions?: PermissionManager;
+  planMode?: PlanMode;
+}
+
 export abstract class BaseTool {
   abstract name: string;
   abstract description: string;
   abstract parameters: Record<string, ToolParameter>;
   
   protected config?: Config;
+  protected context: ToolContext = {};
 
-  protected abstract _execute(params: Record<string, any>): Promise<string>;
+  /** `signal` is aborted when the user cancels the turn; long-running tools should stop early */
+  protected abstract _execute(params: Record<string, any>, signal?: AbortSignal): Promise<string>;
 
   setConfig(config: Config): void {
     this.config = config;
   }
 
-  async execute(params: Record<string, any>): Promise<string> {
+  setContext(context: ToolContext): void {
+    this.context = { ...this.context, ...context };
+  }
+
+  async execute(params: Record<string, any>, signal?: AbortSignal): Promise<string> {
     const startTime = Date.now();
     let cleanup: (() => void) | undefined;
 
@@ -58,6 +80,15 @@ export abstract class BaseTool {
             toolName: this.name 
           });
         }
+
+        // Ask for approval once the call is known to be safe to run
+        if (this.context.permissions) {
+          const permission = await this.context.permissions.check(this.name, params);
+          if (!permission.allowed) {
+            await diagnostics.warn('tool', `${this.name} was not approved`, { toolName: this.name, reason: permission.reason });
+            return `Error: ${permission.reason}`;
+          }
+        }
       } else {
         await diagnostics.debug('tool', `Skipping safety checks for ${this.name} (dangerously-skip-permissions enabled)`);
       }
@@ -66,7 +97,7 @@ export abstract class BaseTool {
       cleanup = await toolSafety.trackExecution(this.name);
 
       // Execute the tool
-      const result = await this._execute(params);
+      const result = await this._execute(params, signal);
       
       // Log successful execution
       const duration = Date.now() - startTime;
@@ -1,8 +1,15 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { spawn } from 'child_process';
 import { BaseTool } from './base.js';
 
-const execAsync = promisify(exec);
+const MAX_BUFFER = 1024 * 1024 * 10; // 10MB buffer
+
+interface CommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  /** Why the command was stopped before it finished, if it was */
+  stopped?: 'timeout' | 'cancelled' | 'maxBuffer';
+}
 
 export class BashTool extends BaseTool {
   name = 'Bash';
@@ -19,27 +26,95 @@ export class BashTool extends BaseTool {
     },
   };
 
-  async _execute(params: Record<string, any>): Promise<string> {
-    
+  async _execute(params: Record<string, any>, signal?: AbortSignal): Promise<string> {
+
     const { command, timeout = 120000 } = params;
-    
+
     try {
-      const { stdout, stderr } = await execAsync(command, {
-        timeout: Math.min(timeout, 600000),
-        maxBuffer: 1024 * 1024 * 10, // 10MB buffer
-      });
-      
+      const { stdout, stderr, exitCode, stopped } = await runCommand(command, Math.min(timeout, 600000), signal);
+
+      if (stopped === 'cancelled') {
+        return `Command cancelled by user\n${stdout}${stderr}`.trimEnd();
+      }
+
+      if (stopped === 'timeout') {
+        return `Error: Command failed: timed out after ${timeout}ms`;
+      }
+
+      if (stopped === 'maxBuffer') {
+        return `Error: Command failed: output exceeded ${MAX_BUFFER} bytes`;
+      }
+
+      if (exitCode !== 0) {
+        return `Error: Command failed: exit code ${exitCode}\n${stderr}`;
+      }
+
       if (stderr) {
         return `Command executed with warnings:\n${stdout}\n\nWarnings/Errors:\n${stderr}`;
       }
-      
+
       return stdout || 'Command executed successfully with no output.';
     } catch (error: any) {
-      if (error.code === 'TIMEOUT') {
-        return `Command timed out after ${timeout}ms`;
-      }
-      
-      return `Command failed with error: ${error.message}\n${error.stderr || ''}`;
+      return `Error: Command failed: ${error.message}`;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Runs a command through the shell. The shell leads its own process group,
+ * so a timeout or cancellation stops everything the command started rather
+ * than only the shell itself.
+ */
+function runCommand(command: string, timeoutMs: number, signal?: AbortSignal): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let stopped: CommandResult['stopped'];
+
+    const stop = (reason: NonNullable<CommandResult['stopped']>) => {
+      if (stopped) return;
+      stopped = reason;
+      killProcessGroup(child.pid);
+    };
+    const cancel = () => stop('cancelled');
+    const timer = setTimeout(() => stop('timeout'), timeoutMs);
+    signal?.addEventListener('abort', cancel, { once: true });
+    if (signal?.aborted) cancel();
+
+    const collect = (append: (chunk: string) => void) => (chunk: Buffer) => {
+      append(chunk.toString());
+      if (stdout.length + stderr.length > MAX_BUFFER) stop('maxBuffer');
+    };
+    child.stdout?.on('data', collect(chunk => { stdout += chunk; }));
+    child.stderr?.on('data', collect(chunk => { stderr += chunk; }));
+
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    };
+    child.on('error', error => {
+      finish();
+      reject(error);
+    });
+    child.on('close', exitCode => {
+      finish();
+      resolve({ stdout, stderr, exitCode, stopped });
+    });
+  });
+}
+
+function killProcessGroup(pid: number | undefined): void {
+  if (!pid) return;
+
+  try {
+    process.kill(process.platform === 'win32' ? pid : -pid, 'SIGTERM');
+  } catch {
+    // The command already exited
+  }
+}
@@ -62,7 +62,7 @@ export class EditTool extends BaseTool {
       return `File ${file_path} has been updated. Replaced ${occurrencesReplaced} occurrence(s).`;
     } catch (error: any) {
       if (error.code === 'ENOENT') {
-        return `File does not exist: ${file_path}`;
+        return `Error: File does not exist: ${file_path}`;
       }
       return `Error editing file: ${error.message}`;
     }
@@ -19,23 +19,28 @@ export class ExitPlanModeTool extends BaseTool {
       return 'Error: Plan must be at least 10 characters long';
     }
     
-    return `## Proposed Plan
+    const planMode = this.context.planMode;
+    if (!planMode?.isActive()) {
+      return 'Plan mode is not active. All tools are already available, so you can go ahead with the implementation.';
+    }
 
-${plan}
+    if (!planMode.hasReviewer()) {
+      return 'The plan was recorded, but no one is available to review it. Plan mode stays active, so do not make any changes.';
+    }
 
----
+    const decision = await planMode.review(plan);
 
-**Plan Mode Active**: The above plan has been presented for your review. 
+    switch (decision.action) {
+      case 'approve':
+        return 'The user approved the plan. Plan mode is off and all tools are available; proceed with the implementation.';
+      case 'edit':
+        return `The user approved an edited version of the plan. Plan mode is off and all tools are available; implement this version:
 
-To proceed with implementation:
-- Type "yes" or "proceed" to execute this plan
-- Type "no" or "cancel" to reject and revise
-- Provide feedback to modify the plan before execution
+${decision.plan}`;
+      case 'reject':
+        return `The user rejected the plan. Plan mode is still active. Revise the plan based on this feedback and call ${this.name} again:
 
-This tool simulates plan mode functionality. In the full implementation, this would:
-1. Pause execution and wait for user approval
-2. Only proceed with the plan after explicit user consent
-3. Allow plan modification based on user feedback
-4. Provide clear status indicators for plan mode vs execution mode`;
+${decision.feedback || '(no feedback given)'}`;
+    }
   }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
-import { BaseTool } from './base.js';
+import { BaseTool, ToolContext } from './base.js';
 import { Config } from '../types/index.js';
+import { PermissionPolicy } from '../utils/permissions.js';
+import { PlanMode } from '../utils/planMode.js';
 import { BashTool } from './bash.js';
 import { ReadTool } from './read.js';
 import { WriteTool } from './write.js';
@@ -57,8 +59,15 @@ export {
 
 export class ToolManager {
   private tools: Map<string, BaseTool> = new Map();
+  private policy?: PermissionPolicy;
+  private context: ToolContext = {};
+
+  constructor(tools?: BaseTool[]) {
+    if (tools) {
+      tools.forEach(tool => this.registerTool(tool));
+      return;
+    }
 
-  constructor() {
     this.registerTool(new BashTool());
     this.registerTool(new ReadTool());
     this.registerTool(new WriteTool());
@@ -99,7 +108,7 @@ export class ToolManager {
   }
 
   getToolDefinitions(): Array<{ name: string; description: string; parameters: Record<string, any> }> {
-    return this.getAllTools().map(tool => ({
+    return this.getAvailableTools().map(tool => ({
       name: tool.name,
       description: tool.description,
       parameters: {
@@ -112,6 +121,15 @@ export class ToolManager {
     }));
   }
 
+  /**
+   * Tools the model may currently use: tools denied outright by policy are
+   * not advertised at all, and plan mode limits the set to read-only tools.
+   */
+  getAvailableTools(): BaseTool[] {
+    return this.getAllTools().filter(tool =>
+      !this.policy?.isToolDenied(tool.name) && (this.context.planMode?.isToolAllowed(tool.name) ?? true));
+  }
+
   private convertParameters(params: Record<string, any>): Record<string, any> {
     const converted: Record<string, any> = {};
     
@@ -135,12 +153,55 @@ export class ToolManager {
     }
   }
 
-  async executeTool(name: string, parameters: Record<string, any>): Promise<string> {
+  setPolicy(policy: PermissionPolicy | undefined): void {
+    this.policy = policy;
+  }
+
+  getPolicy(): PermissionPolicy | undefined {
+    return this.policy;
+  }
+
+  getPlanMode(): PlanMode | undefined {
+    return this.context.planMode;
+  }
+
+  setContext(context: ToolContext): void {
+    this.context = { ...this.context, ...context };
+    for (const tool of this.tools.values()) {
+      tool.setContext({ ...context, toolManager: this });
+    }
+  }
+
+  /**
+   * Creates a manager exposing only the named tools. The tool instances are
+   * shared, so configuration and context carry over.
+   */
+  createSubset(names: string[]): ToolManager {
+    const subset = new ToolManager(
+      names
+        .map(name => this.getTool(name))
+        .filter((tool): tool is BaseTool => !!tool)
+    );
+    subset.setPolicy(this.policy);
+    subset.context = this.context;
+    return subset;
+  }
+
+  async executeTool(name: string, parameters: Record<string, any>, signal?: AbortSignal): Promise<string> {
     const tool = this.getTool(name);
     if (!tool) {
       throw new Error(`Tool '${name}' not found`);
     }
 
-    return await tool.execute(parameters);
+    const rule = this.policy?.evaluate(name, parameters);
+    if (rule?.behavior === 'deny') {
+      return `Error: ${name} is denied by rule ${rule.pattern} (${rule.source})`;
+    }
+
+    if (this.context.planMode && !this.context.planMode.isToolAllowed(name)) {
+      return `Error: ${name} is not available in plan mode. Present your plan with ExitPlanMode first.`;
+    }
+
+    return await tool.execute(parameters, signal);
   }
 }
\ No newline at end of file
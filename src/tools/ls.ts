@@ -87,13 +87,13 @@ export class LSTool extends BaseTool {
       }
     } catch (error: any) {
       if (error.code === 'ENOENT') {
-        return `Directory does not exist: ${path}`;
+        return `Error: Directory does not exist: ${path}`;
       }
       if (error.code === 'ENOTDIR') {
-        return `Path is not a directory: ${path}`;
+        return `Error: Path is not a directory: ${path}`;
       }
       if (error.code === 'EACCES') {
-        return `Permission denied: ${path}`;
+        return `Error: Permission denied: ${path}`;
       }
       return `Error listing directory: ${error.message}`;
     }
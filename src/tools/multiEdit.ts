@@ -72,7 +72,7 @@ export class MultiEditTool extends BaseTool {
       return `File ${file_path} has been updated successfully.\n${results.join('\n')}`;
     } catch (error: any) {
       if (error.code === 'ENOENT') {
-        return `File does not exist: ${file_path}`;
+        return `Error: File does not exist: ${file_path}`;
       }
       return `Error editing file: ${error.message}`;
     }
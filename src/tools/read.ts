@@ -47,7 +47,7 @@ export class ReadTool extends BaseTool {
       return numberedLines.join('\n');
     } catch (error: any) {
       if (error.code === 'ENOENT') {
-        return `File does not exist: ${file_path}`;
+        return `Error: File does not exist: ${file_path}`;
       }
       return `Error reading file: ${error.message}`;
     }
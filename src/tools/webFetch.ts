@@ -21,7 +21,7 @@ export class WebFetchTool extends BaseTool {
     },
   };
 
-  async _execute(params: Record<string, any>): Promise<string> {
+  async _execute(params: Record<string, any>, signal?: AbortSignal): Promise<string> {
     
     const { url, prompt, timeout = 30000 } = params;
     
@@ -39,6 +39,7 @@ export class WebFetchTool extends BaseTool {
       // Fetch the content with timeout
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeout);
+      signal?.addEventListener('abort', () => controller.abort(), { once: true });
       
       const response = await fetch(url, {
         signal: controller.signal,
@@ -75,7 +76,7 @@ export class WebFetchTool extends BaseTool {
       return `Content fetched from ${url}:\n\n${prompt}\n\nContent:\n${processedContent.substring(0, 10000)}${processedContent.length > 10000 ? '...' : ''}`;
     } catch (error: any) {
       if (error.name === 'AbortError') {
-        return 'Error: Request timed out';
+        return signal?.aborted ? 'Error: Request cancelled by user' : 'Error: Request timed out';
       }
       return `Error fetching content: ${error.message}`;
     }
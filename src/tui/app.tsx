@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Box, Text, useInput, useApp } from 'ink';
 import TextInput from 'ink-text-input';
 import Spinner from 'ink-spinner';
@@ -7,31 +7,89 @@ import { ChatView } from './components/ChatView.js';
 import { SessionList } from './components/SessionList.js';
 import { StatusBar } from './components/StatusBar.js';
 import { HelpPanel } from './components/HelpPanel.js';
+import { CommandHints } from './components/CommandHints.js';
+import { MemoryPanel } from './components/MemoryPanel.js';
+import { PermissionPrompt } from './components/PermissionPrompt.js';
+import { PlanReview } from './components/PlanReview.js';
+import { ToolCallView } from './components/ToolCallView.js';
 import { Header } from './components/Header.js';
+import { CommandContext, CommandPrompt, CommandView, createCommandRegistry } from '../commands/index.js';
 import { ConfigManager } from '../utils/config.js';
-import { SessionManager } from '../utils/session.js';
-import { ProviderFactory } from '../providers/index.js';
+import { Session, SessionManager } from '../utils/session.js';
+import { FallbackProvider, ProviderFactory } from '../providers/index.js';
+import { FallbackSwitch, getActiveModel, recordFallbackSwitches } from '../providers/fallback.js';
+import { providerHttp, RetryEvent } from '../providers/request.js';
+import { ToolManager } from '../tools/index.js';
 import { AIProvider, Message } from '../types/index.js';
-import { costTracker } from '../utils/costTracker.js';
+import { addUsage, costTracker, EMPTY_USAGE_TOTALS, UsageTotals } from '../utils/costTracker.js';
+import { ContextManager, describeCompaction } from '../utils/contextManager.js';
+import { ConversationEngine } from '../utils/conversation.js';
+import { PermissionDecision, PermissionManager, PermissionRequest } from '../utils/permissions.js';
+import { PlanDecision, PlanMode } from '../utils/planMode.js';
+import { SystemPrompt } from '../utils/systemPrompt.js';
+import { buildTranscript, createTranscriptCache, findMatches, findRunningToolCall, getJumpKey } from './transcript.js';
+import { useTerminalSize } from './useTerminalSize.js';
 
-type AppMode = 'chat' | 'sessions' | 'help' | 'config';
+type AppMode = 'chat' | 'sessions' | 'help' | 'config' | 'memory';
 
 interface AppProps {
   initialPrompt?: string;
   configManager: ConfigManager;
+  toolManager: ToolManager;
+  permissions?: PermissionManager;
+  planMode?: PlanMode;
 }
 
-export const App: React.FC<AppProps> = ({ initialPrompt, configManager }) => {
+interface PendingPermission {
+  request: PermissionRequest;
+  resolve: (decision: PermissionDecision) => void;
+}
+
+interface PendingPlan {
+  plan: string;
+  resolve: (decision: PlanDecision) => void;
+}
+
+export const App: React.FC<AppProps> = ({ initialPrompt, configManager, toolManager, permissions, planMode }) => {
   const { exit } = useApp();
   const [mode, setMode] = useState<AppMode>('chat');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [provider, setProvider] = useState<AIProvider | null>(null);
   const [sessionManager] = useState(() => new SessionManager());
+  // One per session, so directories the tools worked in keep their FERAL.md files
+  const [systemPrompt] = useState(() => new SystemPrompt());
+  const [commands] = useState(() => createCommandRegistry());
   const [currentInput, setCurrentInput] = useState(initialPrompt || '');
+  // Remounts the input after a completion, which puts the cursor at the end
+  const [inputKey, setInputKey] = useState(0);
+  const [commandOutput, setCommandOutput] = useState<string | null>(null);
   const [isInputFocused, setIsInputFocused] = useState(true);
   const [messages, setMessages] = useState<Message[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [sessionUsage, setSessionUsage] = useState<UsageTotals>(EMPTY_USAGE_TOTALS);
+  const [pendingPermission, setPendingPermission] = useState<PendingPermission | null>(null);
+  const [pendingPlan, setPendingPlan] = useState<PendingPlan | null>(null);
+  const [isPlanMode, setIsPlanMode] = useState(planMode?.isActive() ?? false);
+  // Replies as the model wrote them, for checking what the markdown rendering hides
+  const [showRaw, setShowRaw] = useState(false);
+  const [expandTools, setExpandTools] = useState(false);
+  const [retry, setRetry] = useState<RetryEvent | null>(null);
+  const [fallback, setFallback] = useState<FallbackSwitch | null>(null);
+  const turnController = useRef<AbortController | null>(null);
+  const { columns, rows } = useTerminalSize();
+  const [transcriptCache] = useState(createTranscriptCache);
+  // Rows the transcript has room for; ChatView measures it after layout
+  const [viewportHeight, setViewportHeight] = useState(Math.max(rows - 12, 5));
+  // First row shown while scrolled back; null follows the latest output
+  const [scrollTop, setScrollTop] = useState<number | null>(null);
+  // How many messages there were when the user scrolled away from the end
+  const [seenMessages, setSeenMessages] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchMatch, setSearchMatch] = useState<number | null>(null);
+  // The unsent message, put back when the search closes
+  const draftInput = useRef('');
 
   // Initialize provider
   useEffect(() => {
@@ -44,30 +102,194 @@ export const App: React.FC<AppProps> = ({ initialPrompt, configManager }) => {
       
       const aiProvider = ProviderFactory.createProvider(configManager);
       setProvider(aiProvider);
+      toolManager.setContext({ provider: aiProvider });
       
       // Load or create session
       sessionManager.getMostRecentSession().then(session => {
         if (session) {
           setMessages(session.messages);
           setCurrentSessionId(session.id);
+          toolManager.setContext({ sessionId: session.id });
         } else {
           sessionManager.createSession(
             configManager.getConfig().provider,
             configManager.getConfig().defaultModel
           ).then(newSession => {
             setCurrentSessionId(newSession.id);
+            toolManager.setContext({ sessionId: newSession.id });
           });
         }
       });
     } catch (err) {
       setError(`Failed to initialize: ${err instanceof Error ? err.message : String(err)}`);
     }
-  }, [configManager, sessionManager]);
+  }, [configManager, sessionManager, toolManager]);
+
+  // Custom command files with problems are skipped; say which
+  useEffect(() => {
+    const loadErrors = commands.getLoadErrors();
+    if (loadErrors.length) {
+      setNotice(loadErrors.join('\n'));
+    }
+  }, [commands]);
+
+  // Answer permission requests from tools with an in-app prompt
+  useEffect(() => {
+    if (!permissions) return;
+
+    permissions.setPrompter(request => new Promise(resolve => {
+      setMode('chat');
+      setPendingPermission({ request, resolve });
+    }));
+
+    return () => permissions.setPrompter(undefined);
+  }, [permissions]);
+
+  const handlePermissionDecision = useCallback((decision: PermissionDecision) => {
+    pendingPermission?.resolve(decision);
+    setPendingPermission(null);
+  }, [pendingPermission]);
+
+  // Review plans from ExitPlanMode in-app and mirror plan mode in the status bar
+  useEffect(() => {
+    if (!planMode) return;
+
+    planMode.setReviewer(plan => new Promise(resolve => {
+      setMode('chat');
+      setPendingPlan({ plan, resolve });
+    }));
+    const unsubscribe = planMode.onChange(setIsPlanMode);
+
+    return () => {
+      planMode.setReviewer(undefined);
+      unsubscribe();
+    };
+  }, [planMode]);
+
+  // Show provider retries in the status bar until the request gets through
+  useEffect(() => providerHttp.onRetry(setRetry), []);
+
+  // Keep running token and cost totals for the session, including sub-agents
+  useEffect(() => {
+    if (!currentSessionId) return;
+
+    let cancelled = false;
+    costTracker.getSessionTotals(currentSessionId).then(totals => {
+      if (!cancelled) setSessionUsage(totals);
+    });
+    const unsubscribe = costTracker.onUsage(entry => {
+      if (entry.sessionId === currentSessionId) {
+        setSessionUsage(totals => addUsage(totals, entry, entry.cost));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [currentSessionId]);
+
+  // Record provider switches in the session and show them in the header
+  useEffect(() => {
+    if (!(provider instanceof FallbackProvider)) return;
+
+    const stopRecording = recordFallbackSwitches(provider, sessionManager);
+    const unsubscribe = provider.onSwitch(setFallback);
+    return () => {
+      stopRecording();
+      unsubscribe();
+    };
+  }, [provider, sessionManager]);
+
+  const handlePlanDecision = useCallback((decision: PlanDecision) => {
+    pendingPlan?.resolve(decision);
+    setPendingPlan(null);
+  }, [pendingPlan]);
+
+  // Stops the running turn; the engine keeps the partial reply. Open prompts
+  // are declined so the tool waiting on them can finish.
+  const cancelTurn = useCallback(() => {
+    turnController.current?.abort();
+    pendingPermission?.resolve('deny');
+    setPendingPermission(null);
+    pendingPlan?.resolve({ action: 'reject', feedback: 'Cancelled by the user' });
+    setPendingPlan(null);
+  }, [pendingPermission, pendingPlan]);
+
+  const transcript = useMemo(() => buildTranscript(messages, {
+    width: Math.max(columns - 2, 20),
+    raw: showRaw,
+    expandTools,
+    isLoading,
+    awaitingApproval: !!(pendingPermission || pendingPlan),
+  }, transcriptCache), [messages, columns, showRaw, expandTools, isLoading, pendingPermission, pendingPlan, transcriptCache]);
+
+  // Left out of the transcript while it waits, and shown with the prompt instead
+  const approvalCall = isLoading && (pendingPermission || pendingPlan) ? findRunningToolCall(messages) : undefined;
+
+  const lastTop = Math.max(transcript.length - viewportHeight, 0);
+  const top = scrollTop === null ? lastTop : Math.min(scrollTop, lastTop);
+  const searchMatches = useMemo(
+    () => isSearching ? findMatches(transcript, currentInput) : [],
+    [isSearching, transcript, currentInput]
+  );
+
+  const scrollTo = useCallback((row: number) => {
+    if (row >= lastTop) {
+      setScrollTop(null);
+      return;
+    }
+    if (scrollTop === null) {
+      setSeenMessages(messages.length);
+    }
+    setScrollTop(Math.max(row, 0));
+  }, [lastTop, scrollTop, messages.length]);
+
+  // Puts a search match in the middle of the view
+  const showMatch = useCallback((row: number) => {
+    setSearchMatch(row);
+    scrollTo(row - Math.floor(viewportHeight / 2));
+  }, [scrollTo, viewportHeight]);
+
+  // Typing a search jumps to the latest match
+  useEffect(() => {
+    if (!isSearching) return;
+    const matches = findMatches(transcript, currentInput);
+    if (matches.length) {
+      showMatch(matches[matches.length - 1]);
+    } else {
+      setSearchMatch(null);
+    }
+    // Only when the query changes, not as new output arrives
+  }, [isSearching, currentInput]);
+
+  // Enter steps back to older matches, wrapping around to the latest
+  const showPreviousMatch = useCallback(() => {
+    if (!searchMatches.length) return;
+    const older = searchMatches.filter(row => searchMatch === null || row < searchMatch);
+    showMatch(older.length ? older[older.length - 1] : searchMatches[searchMatches.length - 1]);
+  }, [searchMatches, searchMatch, showMatch]);
+
+  const toggleSearch = useCallback(() => {
+    if (isSearching) {
+      setCurrentInput(draftInput.current);
+      setSearchMatch(null);
+    } else {
+      draftInput.current = currentInput;
+      setCurrentInput('');
+    }
+    setIsSearching(!isSearching);
+    setInputKey(inputKey + 1);
+  }, [isSearching, currentInput, inputKey]);
 
   // Handle keyboard shortcuts
   useInput((input, key) => {
     if (key.ctrl && input === 'c') {
-      exit();
+      if (isLoading) {
+        cancelTurn();
+      } else {
+        exit();
+      }
       return;
     }
 
@@ -86,70 +308,239 @@ export const App: React.FC<AppProps> = ({ initialPrompt, configManager }) => {
       return;
     }
 
+    if (key.ctrl && input === 'o') {
+      setExpandTools(!expandTools);
+      return;
+    }
+
+    if (key.ctrl && input === 't') {
+      setShowRaw(!showRaw);
+      return;
+    }
+
+    if (key.ctrl && input === 'p' && planMode && !pendingPlan) {
+      planMode.toggle();
+      return;
+    }
+
+    if (mode === 'chat') {
+      const jump = getJumpKey(input, key);
+      if (key.pageUp || key.pageDown || jump) {
+        if (key.pageUp) scrollTo(top - (viewportHeight - 1));
+        if (key.pageDown) scrollTo(top + viewportHeight - 1);
+        if (jump === 'top') scrollTo(0);
+        if (jump === 'bottom') scrollTo(lastTop);
+        // The input box has already taken the key's escape sequence as text
+        setCurrentInput(currentInput);
+        return;
+      }
+
+      if (key.ctrl && input === 'f') {
+        toggleSearch();
+        return;
+      }
+    }
+
+    if (key.escape && isSearching) {
+      toggleSearch();
+      return;
+    }
+
+    // Prompts handle Esc themselves
+    if (key.escape && isLoading && !pendingPermission && !pendingPlan) {
+      cancelTurn();
+      return;
+    }
+
     if (key.escape) {
       setMode('chat');
       setIsInputFocused(true);
       return;
     }
+
+    if (key.tab && mode === 'chat' && !isLoading && provider && commands.isCommand(currentInput)) {
+      const completed = commands.complete(currentInput, createCommandContext());
+      if (completed) {
+        setCurrentInput(completed);
+        setInputKey(inputKey + 1);
+      }
+    }
   });
 
-  const handleSendMessage = useCallback(async (content: string) => {
-    if (!content.trim() || !provider || isLoading) return;
+  const showSession = useCallback((session: Session) => {
+    setMessages(session.messages);
+    setCurrentSessionId(session.id);
+    toolManager.setContext({ sessionId: session.id });
+  }, [toolManager]);
+
+  const createCommandContext = useCallback((signal?: AbortSignal): CommandContext => ({
+    commands,
+    configManager,
+    toolManager,
+    sessionManager,
+    systemPrompt,
+    provider: provider!,
+    messages,
+    signal,
+    setMessages,
+    setProvider: (next) => {
+      setProvider(next);
+      setFallback(null);
+      toolManager.setContext({ provider: next });
+    },
+    setSession: showSession,
+    openView: (view: CommandView) => {
+      setMode(view);
+      return true;
+    },
+  }), [commands, configManager, toolManager, sessionManager, systemPrompt, provider, messages, showSession]);
+
+  // Runs a slash command; Esc cancels the ones that call the model, like /compact.
+  // Returns the prompt when the command is one to send to the model.
+  const runCommand = useCallback(async (input: string): Promise<CommandPrompt | undefined> => {
+    setIsLoading(true);
+    setError(null);
+    setNotice(null);
+    setCommandOutput(null);
+    setCurrentInput('');
+
+    const controller = new AbortController();
+    turnController.current = controller;
+
+    try {
+      const output = await commands.execute(input, createCommandContext(controller.signal));
+      if (typeof output === 'string') {
+        setCommandOutput(output);
+      } else if (output) {
+        return output;
+      }
+    } catch (err) {
+      setNotice(controller.signal.aborted
+        ? 'Cancelled.'
+        : `${input.trim().split(/\s/)[0]} failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      turnController.current = null;
+      setIsLoading(false);
+    }
+    return undefined;
+  }, [commands, createCommandContext]);
+
+  const handleSendMessage = useCallback(async (input: string) => {
+    if (!input.trim() || !provider || isLoading) return;
+
+    setScrollTop(null);
+    let request: CommandPrompt = { prompt: input };
+    if (commands.isCommand(input)) {
+      const prompt = await runCommand(input);
+      if (!prompt) return;
+      request = prompt;
+    }
+    const content = request.prompt;
 
     setIsLoading(true);
     setError(null);
+    setNotice(null);
+    setCommandOutput(null);
     
     const userMessage: Message = { role: 'user', content };
     const newMessages = [...messages, userMessage];
     setMessages(newMessages);
     setCurrentInput('');
 
+    const controller = new AbortController();
+    turnController.current = controller;
+
     try {
       // Add user message to session
       await sessionManager.addMessage(userMessage);
 
-      let assistantContent = '';
-      let totalUsage = { inputTokens: 0, outputTokens: 0 };
-      const assistantMessage: Message = { role: 'assistant', content: '' };
+      // Custom commands may pick the model and limit the tools for their prompt
+      const config = { ...configManager.getConfig(), ...(request.model && { defaultModel: request.model }) };
+      const tools = request.allowedTools ? toolManager.createSubset(request.allowedTools) : toolManager;
+      const engine = new ConversationEngine(provider, tools, {
+        model: config.defaultModel,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        maxTurns: config.maxTurns,
+        signal: controller.signal,
+        contextManager: config.autoCompact === false
+          ? undefined
+          : new ContextManager(provider, { model: config.defaultModel, maxTokens: config.maxTokens }),
+        systemPrompt,
+      });
+
+      let transcript = newMessages;
+      let streamingContent = '';
       
-      // Stream the response
-      for await (const chunk of provider.streamChat({
-        messages: newMessages,
-        model: configManager.getConfig().defaultModel,
-        temperature: configManager.getConfig().temperature,
-        maxTokens: configManager.getConfig().maxTokens,
-      })) {
-        if (chunk.message?.content) {
-          assistantContent += chunk.message.content;
-          assistantMessage.content = assistantContent;
-          setMessages([...newMessages, { ...assistantMessage }]);
-        }
-        
-        if (chunk.usage) {
-          totalUsage.inputTokens += chunk.usage.inputTokens || 0;
-          totalUsage.outputTokens += chunk.usage.outputTokens || 0;
+      // Run the tool loop, streaming text into a pending assistant message
+      for await (const event of engine.run(newMessages)) {
+        setRetry(null);
+        if (event.type === 'text') {
+          streamingContent += event.content;
+          setMessages([...transcript, { role: 'assistant', content: streamingContent }]);
+        } else if (event.type === 'message') {
+          streamingContent = '';
+          transcript = [...transcript, event.message];
+          setMessages(transcript);
+          await sessionManager.addMessage(event.message);
+        } else if (event.type === 'usage') {
+          // Tracked per request, so a fallback switch mid-loop is priced correctly
+          await costTracker.trackUsage(
+            provider.name,
+            getActiveModel(provider, config.defaultModel),
+            event.usage.inputTokens || 0,
+            event.usage.outputTokens || 0,
+            currentSessionId || undefined,
+            event.turn
+          );
+        } else if (event.type === 'compaction') {
+          transcript = event.messages;
+          setMessages(transcript);
+          await sessionManager.recordCompaction(event.compaction, event.messages);
+          setNotice(describeCompaction(event.compaction));
+        } else if (event.type === 'max_turns') {
+          setNotice(`Stopped after ${event.turns} tool-calling turns (FERAL_CODE_MAX_TURNS)`);
+        } else if (event.type === 'cancelled') {
+          setMessages(transcript);
+          setNotice('Cancelled. The conversation so far is kept.');
         }
       }
-
-      // Track cost for this interaction
-      if (totalUsage.inputTokens > 0 || totalUsage.outputTokens > 0) {
-        await costTracker.trackUsage(
-          provider.name,
-          configManager.getConfig().defaultModel || provider.getDefaultModel(),
-          totalUsage.inputTokens,
-          totalUsage.outputTokens,
-          currentSessionId || undefined
-        );
-      }
-
-      // Save final assistant message to session
-      await sessionManager.addMessage(assistantMessage);
     } catch (err) {
-      setError(`Failed to get response: ${err instanceof Error ? err.message : String(err)}`);
+      if (controller.signal.aborted) {
+        setNotice('Cancelled. The conversation so far is kept.');
+      } else {
+        setError(`Failed to get response: ${err instanceof Error ? err.message : String(err)}`);
+      }
     } finally {
+      turnController.current = null;
       setIsLoading(false);
+      setRetry(null);
     }
-  }, [messages, provider, isLoading, configManager, sessionManager]);
+  }, [messages, provider, isLoading, configManager, sessionManager, toolManager, currentSessionId, commands, runCommand, systemPrompt]);
+
+  const prompt = pendingPermission ? (
+    <PermissionPrompt
+      request={pendingPermission.request}
+      onDecision={handlePermissionDecision}
+    />
+  ) : pendingPlan ? (
+    <PlanReview plan={pendingPlan.plan} onDecision={handlePlanDecision} />
+  ) : undefined;
+
+  let transcriptStatus: string | undefined;
+  if (isSearching) {
+    const position = searchMatch === null ? 0 : searchMatches.indexOf(searchMatch) + 1;
+    transcriptStatus = !currentInput.trim()
+      ? 'Type to search the conversation · Esc closes the search'
+      : searchMatches.length
+        ? `Match ${position} of ${searchMatches.length} · Enter for the previous match · Esc closes the search`
+        : 'No matches';
+  } else if (top < lastTop) {
+    const newMessages = messages.length - seenMessages;
+    transcriptStatus = newMessages > 0
+      ? `↓ ${newMessages} new message${newMessages === 1 ? '' : 's'} below · End jumps to the latest`
+      : `↓ ${lastTop - top} more rows below · PageDown scrolls, End jumps to the latest`;
+  }
 
   if (error) {
     return (
@@ -178,52 +569,89 @@ export const App: React.FC<AppProps> = ({ initialPrompt, configManager }) => {
   }
 
   return (
-    <Box flexDirection="column" height="100%">
+    // One row short of the terminal, which Ink would otherwise clear on every update
+    <Box flexDirection="column" height={rows - 1}>
       {/* Enhanced Header with Cost Tracking and Model Info */}
       <Header 
         provider={provider} 
         configManager={configManager} 
         currentSessionId={currentSessionId || undefined}
+        fallback={fallback}
       />
 
       {/* Main content */}
       <Box flexGrow={1} flexDirection="row">
         {mode === 'chat' && (
           <Box flexDirection="column" flexGrow={1}>
-            <ChatView 
-              messages={messages}
+            <ChatView
+              lines={transcript}
+              top={top}
+              height={viewportHeight}
               isLoading={isLoading}
               provider={provider.name}
-              model={configManager.getConfig().defaultModel || provider.getDefaultModel()}
+              model={getActiveModel(provider, configManager.getConfig().defaultModel)}
+              highlight={searchMatch ?? undefined}
+              status={transcriptStatus}
+              onResize={setViewportHeight}
+              approval={approvalCall ? (
+                <ToolCallView
+                  toolCall={approvalCall}
+                  running
+                  expanded={expandTools}
+                  approval={prompt}
+                  diff={pendingPermission?.request.diff}
+                />
+              ) : prompt}
             />
+
+            {notice && (
+              <Box paddingX={1}>
+                <Text color="yellow">⚠️  {notice}</Text>
+              </Box>
+            )}
+
+            {commandOutput && (
+              <Box borderStyle="round" borderColor="gray" paddingX={1} flexDirection="column">
+                {commandOutput.split('\n').map((line, index) => (
+                  <Text key={index}>{line || ' '}</Text>
+                ))}
+              </Box>
+            )}
             
             {/* Input area */}
             <Box borderStyle="round" paddingX={1} marginTop={1}>
               <Box width="100%">
-                <Text color="cyan">💬 </Text>
+                <Text color="cyan">{isSearching ? '🔍 ' : '💬 '}</Text>
                 <TextInput
+                  key={inputKey}
                   value={currentInput}
                   onChange={setCurrentInput}
-                  onSubmit={handleSendMessage}
-                  placeholder="Type your message..."
-                  focus={isInputFocused}
+                  onSubmit={isSearching ? showPreviousMatch : handleSendMessage}
+                  placeholder={isSearching ? 'Search the conversation...' : 'Type your message, or / for commands...'}
+                  focus={isInputFocused && !pendingPermission && !pendingPlan}
                 />
               </Box>
             </Box>
+
+            {!isLoading && !isSearching && <CommandHints commands={commands} input={currentInput} />}
           </Box>
         )}
 
         {mode === 'sessions' && (
           <SessionList
             sessionManager={sessionManager}
-            onSelectSession={(session) => {
-              setMessages(session.messages);
+            onSelectSession={async (session) => {
+              // Loading makes it the session new messages are saved to
+              const loaded = await sessionManager.loadSession(session.id);
+              if (loaded) showSession(loaded);
               setMode('chat');
             }}
           />
         )}
 
-        {mode === 'help' && <HelpPanel />}
+        {mode === 'help' && <HelpPanel commands={commands.list()} />}
+
+        {mode === 'memory' && <MemoryPanel systemPrompt={systemPrompt} />}
 
         {mode === 'config' && (
           <Box flexDirection="column" padding={1}>
@@ -240,8 +668,12 @@ export const App: React.FC<AppProps> = ({ initialPrompt, configManager }) => {
       <StatusBar 
         mode={mode}
         provider={provider.name}
-        model={configManager.getConfig().defaultModel || provider.getDefaultModel()}
+        model={getActiveModel(provider, configManager.getConfig().defaultModel)}
         isLoading={isLoading}
+        planMode={isPlanMode}
+        raw={showRaw}
+        retry={retry}
+        usage={sessionUsage}
       />
     </Box>
   );
@@ -1,64 +1,74 @@
-import React from 'react';
-import { Box, Text } from 'ink';
+import React, { useEffect, useRef } from 'react';
+import { Box, DOMElement, measureElement, Text } from 'ink';
 import Spinner from 'ink-spinner';
-import { Message } from '../../types/index.js';
+import { TranscriptLine } from '../transcript.js';
 
 interface ChatViewProps {
-  messages: Message[];
+  lines: TranscriptLine[];
+  /** Index of the first row shown */
+  top: number;
+  /** Rows the transcript has room for, as last measured */
+  height: number;
   isLoading: boolean;
   provider: string;
   model: string;
+  /** Row of the current search match */
+  highlight?: number;
+  /** Shown under the transcript: rows below the view, or search results */
+  status?: string;
+  /** A prompt to approve the running tool call, shown with that call below the transcript */
+  approval?: React.ReactNode;
+  /** Called when the room for the transcript changes, e.g. as panels open below it */
+  onResize: (height: number) => void;
 }
 
-export const ChatView: React.FC<ChatViewProps> = ({ messages, isLoading, provider, model }) => {
+/**
+ * Shows the rows of the transcript that fit the screen. Only those rows are
+ * handed to Ink, however long the conversation gets.
+ */
+export const ChatView: React.FC<ChatViewProps> = ({ lines, top, height, isLoading, provider, model, highlight, status, approval, onResize }) => {
+  const viewport = useRef<DOMElement>(null);
+
+  // The room left over by the header, input and status bar is only known after layout
+  useEffect(() => {
+    if (!viewport.current) return;
+    const measured = measureElement(viewport.current).height;
+    if (measured > 0 && measured !== height) {
+      onResize(measured);
+    }
+  });
+
+  if (lines.length === 0) {
+    return (
+      <Box flexDirection="column" flexGrow={1} paddingX={1} alignItems="center" justifyContent="center">
+        <Text color="gray">Welcome to Feral Code!</Text>
+        <Text color="gray">Using {provider} ({model})</Text>
+        <Text color="gray">Type a message to start chatting...</Text>
+      </Box>
+    );
+  }
+
+  const toolRunning = lines.some(line => line.spinner);
+
   return (
     <Box flexDirection="column" flexGrow={1} paddingX={1}>
-      {messages.length === 0 ? (
-        <Box flexDirection="column" alignItems="center" justifyContent="center" height="100%">
-          <Text color="gray">Welcome to Feral Code!</Text>
-          <Text color="gray">Using {provider} ({model})</Text>
-          <Text color="gray">Type a message to start chatting...</Text>
-        </Box>
-      ) : (
-        <Box flexDirection="column">
-          {messages.map((message, index) => (
-            <MessageBubble key={index} message={message} />
-          ))}
-          {isLoading && (
-            <Box marginTop={1}>
-              <Spinner type="dots" />
-              <Text color="blue"> Assistant is thinking...</Text>
-            </Box>
-          )}
+      <Box ref={viewport} flexDirection="column" flexGrow={1}>
+        {lines.slice(top, top + height).map((line, index) => (
+          <Text key={top + index} wrap="truncate-end" inverse={top + index === highlight}>
+            {line.spinner && <Text color="cyan"><Spinner type="dots" /> </Text>}
+            {line.text || ' '}
+          </Text>
+        ))}
+      </Box>
+
+      {status && <Text color="yellow">{status}</Text>}
+      {approval}
+      {isLoading && !toolRunning && !approval && (
+        <Box>
+          <Spinner type="dots" />
+          <Text color="blue"> Assistant is thinking...</Text>
         </Box>
       )}
     </Box>
   );
 };
-
-interface MessageBubbleProps {
-  message: Message;
-}
-
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
-  const isUser = message.role === 'user';
-  
-  return (
-    <Box 
-      flexDirection="column" 
-      marginBottom={1}
-      paddingX={1}
-      borderStyle={isUser ? "round" : "single"}
-      borderColor={isUser ? "cyan" : "green"}
-    >
-      <Box>
-        <Text bold color={isUser ? "cyan" : "green"}>
-          {isUser ? "👤 You" : "🤖 Assistant"}
-        </Text>
-      </Box>
-      <Box marginTop={0}>
-        <Text>{message.content}</Text>
-      </Box>
-    </Box>
-  );
-};
\ No newline at end of file
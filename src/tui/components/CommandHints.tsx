@@ -0,0 +1,42 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { CommandRegistry, describeCommand, formatCommandUsage, parseCommand } from '../../commands/index.js';
+
+interface CommandHintsProps {
+  commands: CommandRegistry;
+  input: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/** Matching commands while a name is typed, then the arguments the command takes */
+export const CommandHints: React.FC<CommandHintsProps> = ({ commands, input }) => {
+  const suggestions = commands.getSuggestions(input);
+
+  if (suggestions.length) {
+    return (
+      <Box flexDirection="column" paddingX={2}>
+        {suggestions.slice(0, MAX_SUGGESTIONS).map(command => (
+          <Text key={command.name}>
+            <Text color="green">{formatCommandUsage(command).padEnd(24)}</Text>
+            <Text color="gray">{describeCommand(command)}</Text>
+          </Text>
+        ))}
+        <Text color="gray" dimColor>Tab to complete</Text>
+      </Box>
+    );
+  }
+
+  const parsed = parseCommand(input);
+  const command = parsed && commands.get(parsed.name);
+  if (!command) {
+    return null;
+  }
+
+  return (
+    <Box paddingX={2}>
+      <Text color="green">{formatCommandUsage(command)}</Text>
+      <Text color="gray">  {describeCommand(command)}</Text>
+    </Box>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import chalk from 'chalk';
+import { DiffLine } from '../../utils/toolDisplay.js';
+
+interface DiffViewProps {
+  lines: DiffLine[];
+  /** Lines shown before the rest is summarized; all of them when absent */
+  maxLines?: number;
+}
+
+const STYLES: Record<DiffLine['kind'], (text: string) => string> = {
+  add: text => chalk.green(`+ ${text}`),
+  remove: text => chalk.red(`- ${text}`),
+  context: text => chalk.dim(`  ${text}`),
+  gap: () => chalk.gray('…'),
+};
+
+/** The diff as styled terminal rows, for views that lay out rows themselves */
+export function renderDiffRows(lines: DiffLine[], maxLines?: number): string[] {
+  const shown = maxLines === undefined ? lines : lines.slice(0, maxLines);
+  const added = lines.filter(line => line.kind === 'add').length;
+  const removed = lines.filter(line => line.kind === 'remove').length;
+  return [
+    `${chalk.green(`+${added}`)} ${chalk.red(`-${removed}`)} ${chalk.gray('lines')}`,
+    ...shown.map(line => STYLES[line.kind](line.text)),
+    ...(shown.length < lines.length ? [chalk.gray.dim(`… ${lines.length - shown.length} more lines (Ctrl+O to expand)`)] : []),
+  ];
+}
+
+export const DiffView: React.FC<DiffViewProps> = ({ lines, maxLines }) => (
+  <Box flexDirection="column">
+    {renderDiffRows(lines, maxLines).map((row, index) => (
+      <Text key={index}>{row}</Text>
+    ))}
+  </Box>
+);
@@ -1,16 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text } from 'ink';
 import { AIProvider } from '../../types/index.js';
-import { costTracker } from '../../utils/costTracker.js';
+import { costTracker, formatCost } from '../../utils/costTracker.js';
 import { ConfigManager } from '../../utils/config.js';
+import { FallbackSwitch } from '../../providers/fallback.js';
 
 interface HeaderProps {
   provider: AIProvider | null;
   configManager: ConfigManager;
   currentSessionId?: string;
+  fallback?: FallbackSwitch | null;
 }
 
-export const Header: React.FC<HeaderProps> = ({ provider, configManager, currentSessionId }) => {
+export const Header: React.FC<HeaderProps> = ({ provider, configManager, currentSessionId, fallback }) => {
   const [todayCost, setTodayCost] = useState(0);
   const [monthCost, setMonthCost] = useState(0);
   const [sessionCost, setSessionCost] = useState(0);
@@ -41,8 +43,8 @@ export const Header: React.FC<HeaderProps> = ({ provider, configManager, current
       if (provider) {
         try {
           // Try to get model info if provider supports it
-          if ('getModelInfo' in provider && typeof provider.getModelInfo === 'function') {
-            const info = await (provider as any).getModelInfo();
+          if (provider.getModelInfo) {
+            const info = await provider.getModelInfo();
             setModelInfo(info);
           } else {
             // Fallback to basic info
@@ -68,23 +70,23 @@ export const Header: React.FC<HeaderProps> = ({ provider, configManager, current
     updateCosts();
     updateModelInfo();
 
-    // Update costs every 10 seconds
+    // Update costs as requests are tracked, and every 10 seconds
+    const unsubscribe = costTracker.onUsage(() => updateCosts());
     const interval = setInterval(updateCosts, 10000);
-    return () => clearInterval(interval);
-  }, [provider, configManager, currentSessionId]);
-
-  const formatCost = (cost: number): string => {
-    if (cost === 0) return 'Free';
-    if (cost < 0.001) return '<$0.001';
-    return `$${cost.toFixed(cost < 0.01 ? 4 : 3)}`;
-  };
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [provider, configManager, currentSessionId, fallback]);
 
   const getProviderColor = (providerName: string): string => {
     switch (providerName.toLowerCase()) {
       case 'anthropic': return 'magenta';
       case 'openai': return 'green';
       case 'openrouter': return 'blue';
+      case 'gemini': return 'blueBright';
       case 'ollama': return 'cyan';
+      case 'openai-compatible': return 'yellow';
       default: return 'white';
     }
   };
@@ -116,6 +118,15 @@ export const Header: React.FC<HeaderProps> = ({ provider, configManager, current
         )}
       </Box>
 
+      {/* The provider that failed, while a fallback is answering instead */}
+      {fallback && (
+        <Box>
+          <Text color="yellow">↪ Fallback from </Text>
+          <Text color={getProviderColor(fallback.from.provider)}>{fallback.from.provider}</Text>
+          <Text color="gray"> / {fallback.from.model}: {fallback.reason.slice(0, 80)}</Text>
+        </Box>
+      )}
+
       {/* Bottom row - Cost Information */}
       <Box justifyContent="space-between" paddingY={0}>
         <Box>
@@ -1,7 +1,12 @@
 import React from 'react';
 import { Box, Text } from 'ink';
+import { describeCommand, formatCommandUsage, SlashCommand } from '../../commands/index.js';
 
-export const HelpPanel: React.FC = () => {
+interface HelpPanelProps {
+  commands: SlashCommand[];
+}
+
+export const HelpPanel: React.FC<HelpPanelProps> = ({ commands }) => {
   return (
     <Box flexDirection="column" padding={2} width="100%">
       <Text bold color="cyan">🆘 Feral Code Help</Text>
@@ -14,10 +19,32 @@ export const HelpPanel: React.FC = () => {
         <Text> - View session history</Text>
         <Text color="green">Ctrl+R</Text>
         <Text> - View configuration</Text>
+        <Text color="green">Ctrl+P</Text>
+        <Text> - Toggle plan mode (read-only tools until a plan is approved)</Text>
+        <Text color="green">Ctrl+O</Text>
+        <Text> - Expand or collapse tool output and diffs</Text>
+        <Text color="green">Ctrl+T</Text>
+        <Text> - Show replies as raw text instead of rendered markdown</Text>
+        <Text color="green">PageUp / PageDown</Text>
+        <Text> - Scroll the conversation</Text>
+        <Text color="green">Home / End</Text>
+        <Text> - Jump to the start or the latest message</Text>
+        <Text color="green">Ctrl+F</Text>
+        <Text> - Search the conversation (Enter: previous match, Esc: close)</Text>
         <Text color="green">Ctrl+C</Text>
-        <Text> - Exit application</Text>
+        <Text> - Cancel the current response, or exit when idle</Text>
         <Text color="green">Esc</Text>
-        <Text> - Return to chat mode</Text>
+        <Text> - Cancel the current response, or return to chat mode</Text>
+      </Box>
+
+      <Box flexDirection="column" marginTop={2}>
+        <Text bold color="yellow">Commands (Tab completes):</Text>
+        {commands.map(command => (
+          <React.Fragment key={command.name}>
+            <Text color="green">{formatCommandUsage(command)}</Text>
+            <Text> - {describeCommand(command)}</Text>
+          </React.Fragment>
+        ))}
       </Box>
 
       <Box flexDirection="column" marginTop={2}>
@@ -53,7 +80,7 @@ export const HelpPanel: React.FC = () => {
         <Text color="green">FERAL_CODE_MODEL</Text>
         <Text> - Override default model</Text>
         <Text color="green">FERAL_CODE_TEMPERATURE</Text>
-        <Text> - Response creativity (0.0-1.0)</Text>
+        <Text> - Response creativity (0.0-2.0)</Text>
         <Text color="green">FERAL_CODE_MAX_TOKENS</Text>
         <Text> - Maximum response length</Text>
       </Box>
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { openInEditor } from '../../utils/editor.js';
+import { InstructionFile, SystemPrompt } from '../../utils/systemPrompt.js';
+
+interface MemoryPanelProps {
+  systemPrompt: SystemPrompt;
+}
+
+const PREVIEW_LINES = 12;
+
+/** Lists the FERAL.md files that make up the system prompt and opens them in $VISUAL or $EDITOR */
+export const MemoryPanel: React.FC<MemoryPanelProps> = ({ systemPrompt }) => {
+  const [files, setFiles] = useState<InstructionFile[]>(() => systemPrompt.getInstructionFiles());
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const edit = (file: InstructionFile) => {
+    mkdirSync(dirname(file.path), { recursive: true });
+
+    // The editor needs the terminal to itself until it exits
+    process.stdin.setRawMode?.(false);
+    try {
+      openInEditor(file.path);
+      setError(null);
+    } catch (editError) {
+      setError(editError instanceof Error ? editError.message : String(editError));
+    } finally {
+      process.stdin.setRawMode?.(true);
+    }
+    setFiles(systemPrompt.getInstructionFiles());
+  };
+
+  useInput((input, key) => {
+    if (key.upArrow && selectedIndex > 0) {
+      setSelectedIndex(selectedIndex - 1);
+    } else if (key.downArrow && selectedIndex < files.length - 1) {
+      setSelectedIndex(selectedIndex + 1);
+    } else if ((key.return || input === 'e') && files[selectedIndex]) {
+      edit(files[selectedIndex]);
+    }
+  });
+
+  const selected = files[selectedIndex];
+  const preview = selected?.content?.trim().split('\n') || [];
+
+  return (
+    <Box flexDirection="column" padding={1} width="100%">
+      <Text color="cyan" bold>🧠 Memory</Text>
+      <Text color="gray" dimColor>Instruction files sent with every request. ↑/↓ to navigate, Enter to edit, Esc to return</Text>
+
+      <Box flexDirection="column" marginTop={1}>
+        {files.map((file, index) => (
+          <Text key={file.path} color={index === selectedIndex ? 'cyan' : undefined}>
+            {index === selectedIndex ? '❯ ' : '  '}
+            {file.scope.padEnd(9)} {file.path}
+            <Text color="gray">
+              {file.content === undefined ? ' (not created yet)' : ` (${file.content.split('\n').length} lines)`}
+            </Text>
+          </Text>
+        ))}
+      </Box>
+
+      {selected && preview.length > 0 && (
+        <Box flexDirection="column" marginTop={1} borderStyle="round" borderColor="gray" paddingX={1}>
+          {preview.slice(0, PREVIEW_LINES).map((line, index) => (
+            <Text key={index} color="gray">{line || ' '}</Text>
+          ))}
+          {preview.length > PREVIEW_LINES && (
+            <Text color="gray" dimColor>… {preview.length - PREVIEW_LINES} more lines</Text>
+          )}
+        </Box>
+      )}
+
+      {error && (
+        <Box marginTop={1}>
+          <Text color="red">{error}</Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { PermissionDecision, PermissionRequest, PERMISSION_CHOICES } from '../../utils/permissions.js';
+
+interface PermissionPromptProps {
+  request: PermissionRequest;
+  onDecision: (decision: PermissionDecision) => void;
+}
+
+export const PermissionPrompt: React.FC<PermissionPromptProps> = ({ request, onDecision }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useInput((input, key) => {
+    if (key.upArrow && selectedIndex > 0) {
+      setSelectedIndex(selectedIndex - 1);
+    } else if (key.downArrow && selectedIndex < PERMISSION_CHOICES.length - 1) {
+      setSelectedIndex(selectedIndex + 1);
+    } else if (key.return) {
+      onDecision(PERMISSION_CHOICES[selectedIndex].decision);
+    } else if (key.escape) {
+      onDecision('deny');
+    } else {
+      const choice = PERMISSION_CHOICES[parseInt(input, 10) - 1];
+      if (choice) {
+        onDecision(choice.decision);
+      }
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="yellow" paddingX={1} marginTop={1}>
+      <Text color="yellow" bold>🔐 {request.toolName} wants to run</Text>
+      <Text>{request.summary}</Text>
+
+      <Box flexDirection="column" marginTop={1}>
+        {PERMISSION_CHOICES.map((choice, index) => (
+          <Text key={choice.decision} color={index === selectedIndex ? 'cyan' : undefined}>
+            {index === selectedIndex ? '❯ ' : '  '}
+            {index + 1}. {choice.label}
+            {(choice.decision === 'allow_session' || choice.decision === 'allow_always') && <Text color="gray"> ({request.pattern})</Text>}
+          </Text>
+        ))}
+      </Box>
+
+      <Text color="gray" dimColor>Use ↑/↓ and Enter, or press 1-4. Esc denies.</Text>
+    </Box>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import TextInput from 'ink-text-input';
+import { PlanDecision } from '../../utils/planMode.js';
+
+interface PlanReviewProps {
+  plan: string;
+  onDecision: (decision: PlanDecision) => void;
+}
+
+const CHOICES = [
+  { action: 'approve', label: 'Approve and start implementing' },
+  { action: 'edit', label: 'Approve with changes' },
+  { action: 'reject', label: 'Reject with feedback' },
+] as const;
+
+export const PlanReview: React.FC<PlanReviewProps> = ({ plan, onDecision }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [inputAction, setInputAction] = useState<'edit' | 'reject' | null>(null);
+  const [text, setText] = useState('');
+
+  useInput((input, key) => {
+    if (inputAction) {
+      if (key.escape) {
+        setInputAction(null);
+        setText('');
+      }
+      return;
+    }
+
+    if (key.upArrow && selectedIndex > 0) {
+      setSelectedIndex(selectedIndex - 1);
+    } else if (key.downArrow && selectedIndex < CHOICES.length - 1) {
+      setSelectedIndex(selectedIndex + 1);
+    } else if (key.return) {
+      const { action } = CHOICES[selectedIndex];
+      if (action === 'approve') {
+        onDecision({ action: 'approve' });
+      } else {
+        setInputAction(action);
+      }
+    }
+  });
+
+  const handleSubmit = (value: string) => {
+    if (inputAction === 'edit') {
+      onDecision(value.trim()
+        ? { action: 'edit', plan: `${plan}\n\nChanges requested by the user:\n${value.trim()}` }
+        : { action: 'approve' });
+    } else {
+      onDecision({ action: 'reject', feedback: value.trim() });
+    }
+  };
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={1} marginTop={1}>
+      <Text color="cyan" bold>📋 Proposed plan</Text>
+      <Box marginY={1}>
+        <Text>{plan}</Text>
+      </Box>
+
+      {inputAction ? (
+        <Box flexDirection="column">
+          <Text color="gray">
+            {inputAction === 'edit' ? 'Describe the changes to make to the plan:' : 'What should change?'}
+          </Text>
+          <Box>
+            <Text color="cyan">› </Text>
+            <TextInput value={text} onChange={setText} onSubmit={handleSubmit} />
+          </Box>
+          <Text color="gray" dimColor>Enter to submit, Esc to go back</Text>
+        </Box>
+      ) : (
+        <Box flexDirection="column">
+          {CHOICES.map((choice, index) => (
+            <Text key={choice.action} color={index === selectedIndex ? 'cyan' : undefined}>
+              {index === selectedIndex ? '❯ ' : '  '}{choice.label}
+            </Text>
+          ))}
+          <Text color="gray" dimColor>Use ↑/↓ and Enter</Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
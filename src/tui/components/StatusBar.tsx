@@ -1,34 +1,72 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import Spinner from 'ink-spinner';
+import { RetryEvent } from '../../providers/request.js';
+import { formatCost, formatTokenCount, UsageTotals } from '../../utils/costTracker.js';
 
 interface StatusBarProps {
   mode: string;
   provider: string;
   model: string;
   isLoading: boolean;
+  planMode?: boolean;
+  /** Replies are shown without rendering their markdown */
+  raw?: boolean;
+  /** The provider retry currently being waited for, if any */
+  retry?: RetryEvent | null;
+  /** Tokens and cost of the session so far */
+  usage?: UsageTotals;
 }
 
-export const StatusBar: React.FC<StatusBarProps> = ({ mode, provider, model, isLoading }) => {
+export const StatusBar: React.FC<StatusBarProps> = ({ mode, provider, model, isLoading, planMode, raw, retry, usage }) => {
   return (
     <Box borderStyle="single" paddingX={1} justifyContent="space-between">
       <Box>
         <Text color="cyan">Mode: {mode.toUpperCase()}</Text>
+        {planMode && (
+          <React.Fragment>
+            <Text color="gray"> | </Text>
+            <Text color="magenta" bold>PLAN (read-only)</Text>
+          </React.Fragment>
+        )}
+        {raw && (
+          <React.Fragment>
+            <Text color="gray"> | </Text>
+            <Text color="yellow">RAW</Text>
+          </React.Fragment>
+        )}
         <Text color="gray"> | </Text>
         <Text color="green">{provider}</Text>
         <Text color="gray"> | </Text>
         <Text color="yellow">{model}</Text>
+        {usage && usage.requests > 0 && (
+          <React.Fragment>
+            <Text color="gray"> | </Text>
+            <Text color="white">
+              {`↑${formatTokenCount(usage.inputTokens)} ↓${formatTokenCount(usage.outputTokens)} `}
+            </Text>
+            <Text color="green">{formatCost(usage.cost)}</Text>
+          </React.Fragment>
+        )}
       </Box>
       
       <Box>
-        {isLoading && (
+        {isLoading && retry && (
+          <React.Fragment>
+            <Spinner type="dots" />
+            <Text color="yellow">
+              {` ${retry.provider} ${retry.reason}, retry ${retry.attempt}/${retry.maxRetries} in ${Math.ceil(retry.delayMs / 1000)}s`}
+            </Text>
+          </React.Fragment>
+        )}
+        {isLoading && !retry && (
           <React.Fragment>
             <Spinner type="dots" />
             <Text color="blue"> Thinking...</Text>
           </React.Fragment>
         )}
         <Text color="gray" dimColor>
-          Ctrl+H:Help | Ctrl+S:Sessions | Ctrl+R:Config | Ctrl+C:Exit
+          Ctrl+H:Help | Ctrl+S:Sessions | Ctrl+R:Config | Ctrl+P:Plan | Ctrl+T:Raw | {isLoading ? 'Esc:Cancel' : 'Ctrl+C:Exit'}
         </Text>
       </Box>
     </Box>
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import Spinner from 'ink-spinner';
+import chalk from 'chalk';
+import { DiffLine, ToolCall, ToolResultMessage } from '../../types/index.js';
+import { formatDuration, getToolDiff, parseToolArguments, summarizeToolCall } from '../../utils/toolDisplay.js';
+import { renderDiffRows } from './DiffView.js';
+
+export type ToolCallState = 'running' | 'approval' | 'queued' | 'not_run' | 'done';
+
+interface ToolCallViewProps {
+  toolCall: ToolCall;
+  /** Absent until the tool has finished */
+  result?: ToolResultMessage;
+  running: boolean;
+  /** Shows the whole output and diff instead of the first lines */
+  expanded: boolean;
+  /** An approval prompt for this call, shown in place of its output */
+  approval?: React.ReactNode;
+  /** The change the call would make, as the permission check saw it */
+  diff?: DiffLine[];
+}
+
+// Lines of output and diff shown while collapsed
+const COLLAPSED_OUTPUT_LINES = 3;
+const COLLAPSED_DIFF_LINES = 12;
+// Keeps a huge output from stalling the terminal even when expanded
+const MAX_OUTPUT_LINES = 500;
+
+/**
+ * One tool call as styled terminal rows: a header with what it works on,
+ * whether it is running or how it went and for how long, then the first
+ * lines of its output. File edits show their diff instead, also while they
+ * wait for approval.
+ */
+export function renderToolCallRows(
+  toolCall: ToolCall,
+  result: ToolResultMessage | undefined,
+  state: ToolCallState,
+  expanded: boolean,
+  knownDiff?: DiffLine[]
+): { header: string; details: string[] } {
+  const params = parseToolArguments(toolCall);
+  const summary = params ? summarizeToolCall(toolCall.name, params) : toolCall.arguments;
+  // Writes record their change against the old file; sessions from before that show the new content
+  const diff = result?.diff ?? knownDiff ?? (params && !result?.isError ? getToolDiff(toolCall.name, params) : undefined);
+
+  const icon = {
+    running: '',
+    approval: chalk.yellow('⏸ '),
+    queued: chalk.gray('○ '),
+    not_run: chalk.gray('○ '),
+    done: result?.isError ? chalk.red('✖ ') : chalk.green('✔ '),
+  }[state];
+  const duration = result?.durationMs !== undefined ? chalk.gray.dim(` (${formatDuration(result.durationMs)})`) : '';
+  const note = state === 'not_run' ? chalk.gray.dim(' (not run)') : '';
+  const header = `${icon}${chalk.bold.magenta(toolCall.name)}${summary ? chalk.gray(` ${summary}`) : ''}${duration}${note}`;
+
+  const details: string[] = [];
+  if (diff && (result || state === 'approval')) {
+    details.push(...renderDiffRows(diff, expanded ? undefined : COLLAPSED_DIFF_LINES));
+  }
+
+  const output = result?.content ? result.content.split('\n') : [];
+  const style = result?.isError ? chalk.red : chalk.gray;
+  if (diff) {
+    // A successful edit is described by its diff
+    details.push(...output.slice(0, 1).map(line => style(line)));
+  } else {
+    const shown = output.slice(0, expanded ? MAX_OUTPUT_LINES : COLLAPSED_OUTPUT_LINES);
+    details.push(...shown.map(line => style(line)));
+    if (shown.length < output.length) {
+      details.push(chalk.gray.dim(`… ${output.length - shown.length} more lines${expanded ? '' : ' (Ctrl+O to expand)'}`));
+    }
+  }
+
+  return { header, details };
+}
+
+/** One tool call: what it works on, whether it is running or how it went, and its output */
+export const ToolCallView: React.FC<ToolCallViewProps> = ({ toolCall, result, running, expanded, approval, diff }) => {
+  const state = approval ? 'approval' : running ? 'running' : result ? 'done' : 'not_run';
+  const { header, details } = renderToolCallRows(toolCall, result, state, expanded, diff);
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text>
+        {state === 'running' && <Text color="cyan"><Spinner type="dots" /> </Text>}
+        {header}
+      </Text>
+
+      <Box flexDirection="column" paddingLeft={2}>
+        {details.map((row, index) => (
+          <Text key={index}>{row || ' '}</Text>
+        ))}
+        {approval}
+      </Box>
+    </Box>
+  );
+};
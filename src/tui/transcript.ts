@@ -0,0 +1,140 @@
+import chalk from 'chalk';
+import stripAnsi from 'strip-ansi';
+import { Message, ToolCall, ToolResultMessage } from '../types/index.js';
+import { renderMarkdown, wrapLine } from '../utils/markdown.js';
+import { renderToolCallRows, ToolCallState } from './components/ToolCallView.js';
+
+/** One terminal row of the conversation */
+export interface TranscriptLine {
+  text: string;
+  /** Shown after a spinner, for the tool call that is running */
+  spinner?: boolean;
+}
+
+export interface TranscriptOptions {
+  width: number;
+  /** Replies as the model wrote them instead of rendered markdown */
+  raw?: boolean;
+  /** Tool output and diffs in full */
+  expandTools?: boolean;
+  isLoading?: boolean;
+  /** The running tool call is waiting for the user to approve it, and is shown with the prompt instead */
+  awaitingApproval?: boolean;
+}
+
+const DETAIL_INDENT = '  ';
+
+const HEADERS: Record<Message['role'], string> = {
+  user: chalk.bold.cyan('👤 You'),
+  assistant: chalk.bold.green('🤖 Assistant'),
+  system: chalk.bold.gray('📋 System'),
+  tool: chalk.bold.gray('🔧 Tool result'),
+};
+
+function getToolCallState(toolCall: ToolCall, results: Map<string, ToolResultMessage>, runningId: string | undefined, options: TranscriptOptions): ToolCallState {
+  if (results.has(toolCall.id)) return 'done';
+  if (toolCall.id === runningId) return options.awaitingApproval ? 'approval' : 'running';
+  return options.isLoading ? 'queued' : 'not_run';
+}
+
+/** A message as rows: a header, the content, its tool calls and a blank line */
+function renderMessage(message: Message, results: Map<string, ToolResultMessage>, states: ToolCallState[], options: TranscriptOptions): TranscriptLine[] {
+  const lines: TranscriptLine[] = [{ text: HEADERS[message.role] }];
+
+  if (message.content) {
+    const content = message.role === 'assistant' && !options.raw
+      ? renderMarkdown(message.content, { width: options.width })
+      : message.role === 'tool' ? chalk.gray(message.content) : message.content;
+    lines.push(...content.split('\n').map(text => ({ text })));
+  }
+
+  if (message.role === 'assistant') {
+    message.toolCalls?.forEach((toolCall, index) => {
+      if (states[index] === 'approval') return;
+      const { header, details } = renderToolCallRows(toolCall, results.get(toolCall.id), states[index], !!options.expandTools);
+      lines.push(
+        { text: '' },
+        { text: header, spinner: states[index] === 'running' },
+        ...details.map(text => ({ text: DETAIL_INDENT + text })),
+      );
+    });
+  }
+  lines.push({ text: '' });
+
+  // Every row must take exactly one terminal line for scrolling to add up
+  return lines.flatMap(line => stripAnsi(line.text).length > options.width
+    ? wrapLine(line.text, options.width).map((text, index) => ({ text, spinner: line.spinner && index === 0 }))
+    : [line]);
+}
+
+function getToolResults(messages: Message[]): Map<string, ToolResultMessage> {
+  const results = new Map<string, ToolResultMessage>();
+  messages.forEach(message => {
+    if (message.role === 'tool') results.set(message.toolCallId, message);
+  });
+  return results;
+}
+
+/**
+ * The call a turn that is still going is working on. Tools run one at a time,
+ * so it is the first call without a result in the latest reply.
+ */
+export function findRunningToolCall(messages: Message[]): ToolCall | undefined {
+  const results = getToolResults(messages);
+  const lastAssistant = [...messages].reverse().find(message => message.role === 'assistant');
+  return lastAssistant?.role === 'assistant'
+    ? lastAssistant.toolCalls?.find(call => !results.has(call.id))
+    : undefined;
+}
+
+/** Rendered messages by message object, so only changed messages are rendered again */
+export type TranscriptCache = WeakMap<Message, { key: string; lines: TranscriptLine[] }>;
+
+export function createTranscriptCache(): TranscriptCache {
+  return new WeakMap();
+}
+
+/**
+ * Turns the conversation into terminal rows. Tool results are shown with the
+ * calls that made them; results whose call is gone, as after compaction, are
+ * shown on their own. Messages are only rendered again when they, their
+ * tool calls' state or the options change, which keeps streaming cheap.
+ */
+export function buildTranscript(messages: Message[], options: TranscriptOptions, cache: TranscriptCache = createTranscriptCache()): TranscriptLine[] {
+  const results = getToolResults(messages);
+  const calledIds = new Set(messages.flatMap(message => message.role === 'assistant' ? message.toolCalls?.map(call => call.id) || [] : []));
+  const runningId = options.isLoading ? findRunningToolCall(messages)?.id : undefined;
+
+  return messages.flatMap(message => {
+    if (message.role === 'tool' && calledIds.has(message.toolCallId)) return [];
+
+    const states = message.role === 'assistant'
+      ? (message.toolCalls || []).map(call => getToolCallState(call, results, runningId, options))
+      : [];
+    const key = [options.width, !!options.raw, !!options.expandTools, states.join(',')].join('|');
+    const cached = cache.get(message);
+    if (cached?.key === key) return cached.lines;
+
+    const lines = renderMessage(message, results, states, options);
+    cache.set(message, { key, lines });
+    return lines;
+  });
+}
+
+/** Rows containing the query, ignoring case and colours */
+export function findMatches(lines: TranscriptLine[], query: string): number[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  return lines.flatMap((line, index) => stripAnsi(line.text).toLowerCase().includes(needle) ? [index] : []);
+}
+
+/**
+ * Home and End, which Ink reports as escape sequences: `\u001B[H`,
+ * `\u001B[1~` or `\u001BOH` arrive as `[H`, `[1~` or `OH` with meta set.
+ */
+export function getJumpKey(input: string, key: { meta: boolean }): 'top' | 'bottom' | undefined {
+  if (!key.meta) return undefined;
+  if (['[H', '[1~', 'OH', '[7~'].includes(input)) return 'top';
+  if (['[F', '[4~', 'OF', '[8~'].includes(input)) return 'bottom';
+  return undefined;
+}
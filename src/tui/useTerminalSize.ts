@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { useStdout } from 'ink';
+
+/** Columns and rows of the terminal, updated when it is resized */
+export function useTerminalSize(): { columns: number; rows: number } {
+  const { stdout } = useStdout();
+  const read = () => ({ columns: stdout?.columns || 80, rows: stdout?.rows || 24 });
+  const [size, setSize] = useState(read);
+
+  useEffect(() => {
+    if (!stdout) return;
+    const onResize = () => setSize(read());
+    stdout.on('resize', onResize);
+    return () => {
+      stdout.off('resize', onResize);
+    };
+  }, [stdout]);
+
+  return size;
+}
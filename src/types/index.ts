@@ -1,8 +1,58 @@
-export interface Message {
-  role: 'user' | 'assistant' | 'system';
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON-encoded arguments, exactly as produced by the model */
+  arguments: string;
+}
+
+/** A fragment of a tool call received while streaming, keyed by its position in the reply */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export interface UserMessage {
+  role: 'user';
   content: string;
+  /** Kept word for word when the conversation is compacted */
+  pinned?: boolean;
 }
 
+export interface SystemMessage {
+  role: 'system';
+  content: string;
+  /** Kept word for word when the conversation is compacted */
+  pinned?: boolean;
+}
+
+export interface AssistantMessage {
+  role: 'assistant';
+  content: string;
+  toolCalls?: ToolCall[];
+}
+
+/** One line of a file change as shown to the user */
+export interface DiffLine {
+  kind: 'add' | 'remove' | 'context' | 'gap';
+  text: string;
+}
+
+export interface ToolResultMessage {
+  role: 'tool';
+  content: string;
+  toolCallId: string;
+  toolName: string;
+  isError?: boolean;
+  /** How long the tool ran, including waiting for approval */
+  durationMs?: number;
+  /** The change a Write made, worked out from the file as it was before */
+  diff?: DiffLine[];
+}
+
+export type Message = UserMessage | SystemMessage | AssistantMessage | ToolResultMessage;
+
 export interface Tool {
   name: string;
   description: string;
@@ -15,10 +65,13 @@ export interface ChatRequest {
   temperature?: number;
   maxTokens?: number;
   tools?: Tool[];
+  /** Cancels the request, including a stream that is already being read */
+  signal?: AbortSignal;
 }
 
 export interface ChatResponse {
-  message: Message;
+  message: AssistantMessage;
+  toolCallDeltas?: ToolCallDelta[];
   usage?: {
     inputTokens: number;
     outputTokens: number;
@@ -32,13 +85,28 @@ export interface AIProvider {
   validateConfig(): boolean | Promise<boolean>;
   getDefaultModel(): string;
   getSupportedModels(): string[] | Promise<string[]>;
+  /** Whether the model can make tool calls; providers without this method are assumed to */
+  supportsTools?(model: string): boolean | Promise<boolean>;
+  /** The model in use and where it runs, for display */
+  getModelInfo?(): Promise<{ model: string; provider: string; location: string }>;
 }
 
 export interface Config {
-  provider: 'openai' | 'openrouter' | 'ollama';
+  provider: 'openai' | 'openrouter' | 'ollama' | 'openai-compatible' | 'anthropic' | 'gemini';
   openaiApiKey?: string;
   openrouterApiKey?: string;
+  anthropicApiKey?: string;
+  anthropicBaseUrl?: string;
+  geminiApiKey?: string;
+  geminiBaseUrl?: string;
   ollamaBaseUrl?: string;
+  ollamaToolMode?: 'auto' | 'native' | 'prompt';
+  openaiCompatibleBaseUrl?: string;
+  openaiCompatibleApiKey?: string;
+  openaiCompatibleHeaders?: string[];
+  openaiCompatibleModelsEndpoint?: string;
+  openaiCompatibleSupportsTools?: boolean;
+  openaiCompatibleStreamUsage?: boolean;
   defaultModel?: string;
   model?: string;
   temperature?: number;
@@ -47,6 +115,15 @@ export interface Config {
   allowedTools?: string[];
   disallowedTools?: string[];
   dangerouslySkipPermissions?: boolean;
+  permissionPolicy?: 'deny' | 'accept-edits' | 'allow';
+  maxTurns?: number;
+  maxRetries?: number;
+  requestTimeout?: number;
+  fallbacks?: string[];
+  autoCompact?: boolean;
+  subAgentTools?: string[];
+  subAgentMaxTurns?: number;
+  subAgentTokenBudget?: number;
 }
 
 export interface ProviderConfig {
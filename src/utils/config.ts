@@ -1,46 +1,347 @@
 import { config as dotenvConfig } from 'dotenv';
+import { execFileSync } from 'child_process';
+import { readFileSync } from 'fs';
+import { chmod, mkdir, readFile, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { basename, dirname, join } from 'path';
 import { Config, ProviderConfig } from '../types/index.js';
 
 dotenvConfig();
 
+/**
+ * Where an effective configuration value came from. Later layers override
+ * earlier ones: defaults, user file, credentials file, project file, local
+ * file, environment, then command-line flags.
+ */
+export type ConfigSource = 'default' | ConfigFileLayer | 'env' | 'cli';
+
+/**
+ * Persistent config files. API keys live in the user-level credentials file
+ * so they never end up in the shareable project config.
+ */
+export type ConfigFileLayer = 'user' | 'credentials' | 'project' | 'local';
+
+const FILE_LAYERS: ConfigFileLayer[] = ['user', 'credentials', 'project', 'local'];
+
+export type ConfigKey = Exclude<keyof Config, 'model'>;
+
+interface ConfigField {
+  type: 'string' | 'number' | 'boolean' | 'string[]';
+  env?: string;
+  default?: unknown;
+  values?: readonly string[];
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  /** Stored in the credentials file and masked on display */
+  secret?: boolean;
+  /**
+   * Ignored in config files that come with a cloned repository: permission
+   * settings decide which tool calls need approval, endpoint settings decide
+   * where API keys are sent
+   */
+  unshared?: 'permission' | 'endpoint';
+}
+
+const UNSHARED_LABELS: Record<NonNullable<ConfigField['unshared']>, string> = {
+  permission: 'Permission setting',
+  endpoint: 'Endpoint setting',
+};
+
+export const CONFIG_SCHEMA: Record<ConfigKey, ConfigField> = {
+  provider: { type: 'string', env: 'FERAL_CODE_PROVIDER', default: 'openai', values: ['openai', 'openrouter', 'ollama', 'openai-compatible', 'anthropic', 'gemini'] },
+  openaiApiKey: { type: 'string', env: 'OPENAI_API_KEY', secret: true },
+  openrouterApiKey: { type: 'string', env: 'OPENROUTER_API_KEY', secret: true },
+  anthropicApiKey: { type: 'string', env: 'ANTHROPIC_API_KEY', secret: true },
+  anthropicBaseUrl: { type: 'string', env: 'ANTHROPIC_BASE_URL', default: 'https://api.anthropic.com/v1', unshared: 'endpoint' },
+  geminiApiKey: { type: 'string', env: 'GEMINI_API_KEY', secret: true },
+  geminiBaseUrl: { type: 'string', env: 'GEMINI_BASE_URL', default: 'https://generativelanguage.googleapis.com/v1beta', unshared: 'endpoint' },
+  ollamaBaseUrl: { type: 'string', env: 'OLLAMA_BASE_URL', default: 'http://localhost:11434', unshared: 'endpoint' },
+  ollamaToolMode: { type: 'string', env: 'OLLAMA_TOOL_MODE', default: 'auto', values: ['auto', 'native', 'prompt'] },
+  openaiCompatibleBaseUrl: { type: 'string', env: 'OPENAI_COMPATIBLE_BASE_URL', unshared: 'endpoint' },
+  openaiCompatibleApiKey: { type: 'string', env: 'OPENAI_COMPATIBLE_API_KEY', secret: true },
+  openaiCompatibleHeaders: { type: 'string[]', env: 'OPENAI_COMPATIBLE_HEADERS', unshared: 'endpoint' },
+  openaiCompatibleModelsEndpoint: { type: 'string', env: 'OPENAI_COMPATIBLE_MODELS_ENDPOINT', default: '/models', unshared: 'endpoint' },
+  openaiCompatibleSupportsTools: { type: 'boolean', env: 'OPENAI_COMPATIBLE_SUPPORTS_TOOLS', default: true },
+  openaiCompatibleStreamUsage: { type: 'boolean', env: 'OPENAI_COMPATIBLE_STREAM_USAGE', default: false },
+  defaultModel: { type: 'string', env: 'FERAL_CODE_MODEL' },
+  temperature: { type: 'number', env: 'FERAL_CODE_TEMPERATURE', default: 0.7, min: 0, max: 2 },
+  maxTokens: { type: 'number', env: 'FERAL_CODE_MAX_TOKENS', default: 4000, integer: true, min: 1 },
+  verbose: { type: 'boolean', env: 'FERAL_CODE_VERBOSE', default: false },
+  allowedTools: { type: 'string[]', env: 'FERAL_CODE_ALLOWED_TOOLS', unshared: 'permission' },
+  disallowedTools: { type: 'string[]', env: 'FERAL_CODE_DISALLOWED_TOOLS', unshared: 'permission' },
+  dangerouslySkipPermissions: { type: 'boolean', env: 'FERAL_CODE_DANGEROUSLY_SKIP_PERMISSIONS', default: false, unshared: 'permission' },
+  permissionPolicy: { type: 'string', env: 'FERAL_CODE_PERMISSION_POLICY', default: 'deny', values: ['deny', 'accept-edits', 'allow'], unshared: 'permission' },
+  maxTurns: { type: 'number', env: 'FERAL_CODE_MAX_TURNS', default: 20, integer: true, min: 1 },
+  maxRetries: { type: 'number', env: 'FERAL_CODE_MAX_RETRIES', default: 3, integer: true, min: 0 },
+  requestTimeout: { type: 'number', env: 'FERAL_CODE_REQUEST_TIMEOUT', default: 300, min: 0 },
+  fallbacks: { type: 'string[]', env: 'FERAL_CODE_FALLBACKS' },
+  autoCompact: { type: 'boolean', env: 'FERAL_CODE_AUTO_COMPACT', default: true },
+  subAgentTools: { type: 'string[]', env: 'FERAL_CODE_SUBAGENT_TOOLS' },
+  subAgentMaxTurns: { type: 'number', env: 'FERAL_CODE_SUBAGENT_MAX_TURNS', default: 10, integer: true, min: 1 },
+  subAgentTokenBudget: { type: 'number', env: 'FERAL_CODE_SUBAGENT_TOKEN_BUDGET', default: 100000, integer: true, min: 1 },
+};
+
+export interface ConfigManagerOptions {
+  userConfigPath?: string;
+  /** Directory holding the project's `.feral-code` folder (default: cwd) */
+  projectDir?: string;
+}
+
 export class ConfigManager {
   private config: Config;
+  private sources: Partial<Record<ConfigKey, ConfigSource>> = {};
+  private loadErrors: string[] = [];
+  private paths: Record<ConfigFileLayer, string>;
 
-  constructor() {
+  constructor(options: ConfigManagerOptions = {}) {
+    const projectDir = options.projectDir || process.cwd();
+    const userPath = options.userConfigPath || join(homedir(), '.feral-code', 'config.json');
+    this.paths = {
+      user: userPath,
+      credentials: join(dirname(userPath), 'credentials.json'),
+      project: join(projectDir, '.feral-code', 'config.json'),
+      local: join(projectDir, '.feral-code', 'config.local.json'),
+    };
     this.config = this.loadConfig();
   }
 
   private loadConfig(): Config {
-    // Load from environment variables
-    const provider = (process.env.FERAL_CODE_PROVIDER as 'openai' | 'openrouter' | 'ollama') || 'openai';
-    
-    return {
-      provider,
-      openaiApiKey: process.env.OPENAI_API_KEY,
-      openrouterApiKey: process.env.OPENROUTER_API_KEY,
-      ollamaBaseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
-      defaultModel: process.env.FERAL_CODE_MODEL,
-      temperature: process.env.FERAL_CODE_TEMPERATURE ? parseFloat(process.env.FERAL_CODE_TEMPERATURE) : 0.7,
-      maxTokens: process.env.FERAL_CODE_MAX_TOKENS ? parseInt(process.env.FERAL_CODE_MAX_TOKENS) : 4000,
-      verbose: process.env.FERAL_CODE_VERBOSE === 'true',
-      allowedTools: process.env.FERAL_CODE_ALLOWED_TOOLS?.split(',').map(t => t.trim()),
-      disallowedTools: process.env.FERAL_CODE_DISALLOWED_TOOLS?.split(',').map(t => t.trim()),
-      dangerouslySkipPermissions: process.env.FERAL_CODE_DANGEROUSLY_SKIP_PERMISSIONS !== 'false', // Default to true
+    const config: Record<string, unknown> = {};
+    this.sources = {};
+    this.loadErrors = [];
+    const setValue = (key: ConfigKey, value: unknown, source: ConfigSource) => {
+      config[key] = value;
+      this.sources[key] = source;
     };
+
+    for (const [key, field] of Object.entries(CONFIG_SCHEMA) as Array<[ConfigKey, ConfigField]>) {
+      if (field.default !== undefined) {
+        setValue(key, field.default, 'default');
+      }
+    }
+
+    for (const layer of FILE_LAYERS) {
+      const values = this.readConfigFile(layer);
+      for (const [key, value] of Object.entries(values) as Array<[ConfigKey, unknown]>) {
+        setValue(key, value, layer);
+      }
+    }
+
+    // Environment variables override every file
+    for (const [key, field] of Object.entries(CONFIG_SCHEMA) as Array<[ConfigKey, ConfigField]>) {
+      const raw = field.env ? process.env[field.env] : undefined;
+      if (raw === undefined || raw === '') continue;
+
+      const value = parseEnvValue(field, raw);
+      const error = validateValue(key, field, value, `environment variable ${field.env}`);
+      if (error) {
+        this.loadErrors.push(error);
+      } else {
+        setValue(key, value, 'env');
+      }
+    }
+
+    return config as unknown as Config;
+  }
+
+  private readConfigFile(layer: ConfigFileLayer): Partial<Config> {
+    const path = this.paths[layer];
+    let content: string;
+    try {
+      content = readFileSync(path, 'utf-8');
+    } catch (error) {
+      // This layer has no config file
+      return {};
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      this.loadErrors.push(`Invalid JSON in ${path}: ${(error as Error).message}`);
+      return {};
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      this.loadErrors.push(`Invalid config in ${path}: expected a JSON object`);
+      return {};
+    }
+
+    const shared = this.isShared(layer);
+    const values: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      const field = CONFIG_SCHEMA[key as ConfigKey];
+      if (!field) {
+        this.loadErrors.push(`Unknown key '${key}' in ${path}`);
+        continue;
+      }
+
+      const error = layer === 'project' && field.secret
+        ? `Secret '${key}' must not be stored in the shared project config ${path}; use "feral-code config set ${key}" instead`
+        : shared && field.unshared
+          ? layer === 'project'
+            ? `${UNSHARED_LABELS[field.unshared]} '${key}' is ignored in the shared project config ${path}; set it in your user or local config instead`
+            : `${UNSHARED_LABELS[field.unshared]} '${key}' is ignored in ${path} because it is tracked by git; set it in your user config instead`
+          : validateValue(key, field, value, path);
+      if (error) {
+        this.loadErrors.push(error);
+      } else {
+        values[key] = value;
+      }
+    }
+
+    return values as Partial<Config>;
+  }
+
+  /** Whether a config file comes with the repository: the project file, or a local file that was committed */
+  private isShared(layer: ConfigFileLayer): boolean {
+    return layer === 'project' || (layer === 'local' && isTrackedByGit(this.paths.local));
+  }
+
+  getConfigPath(layer: ConfigFileLayer): string {
+    return this.paths[layer];
+  }
+
+  getSource(key: ConfigKey): ConfigSource | undefined {
+    return this.sources[key];
+  }
+
+  /** Describes where a value came from, e.g. `env (FERAL_CODE_MODEL)` */
+  describeSource(key: ConfigKey): string {
+    const source = this.sources[key];
+    switch (source) {
+      case 'user':
+      case 'credentials':
+      case 'project':
+      case 'local':
+        return `${source} (${this.paths[source]})`;
+      case 'env':
+        return `env (${CONFIG_SCHEMA[key].env})`;
+      case 'cli':
+        return 'command line';
+      default:
+        return source || 'unset';
+    }
+  }
+
+  getLoadErrors(): string[] {
+    return [...this.loadErrors];
+  }
+
+  /**
+   * Validates a value given as text and writes it to a config file. Secrets
+   * always go to the credentials file, whatever layer was asked for.
+   * Returns the layer that was written.
+   */
+  async setPersistentValue(key: string, rawValue: string, layer: Exclude<ConfigFileLayer, 'credentials'> = 'user'): Promise<ConfigFileLayer> {
+    const field = getConfigField(key);
+    const target: ConfigFileLayer = field.secret ? 'credentials' : layer;
+    if (field.unshared && target === 'project') {
+      throw new Error(`'${key}' cannot be set in the shared project config; use --user or --local`);
+    }
+    if (field.unshared && this.isShared(target)) {
+      throw new Error(`'${key}' cannot be set in ${this.paths[target]} because it is tracked by git; use --user`);
+    }
+    const value = parseConfigInput(field, rawValue);
+
+    const error = validateValue(key, field, value);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const values = await this.readConfigFileForUpdate(target);
+    values[key] = value;
+    await this.writeConfigFile(target, values);
+
+    this.config = this.loadConfig();
+    return target;
+  }
+
+  /** Removes a key from a config file. Returns whether it was present. */
+  async unsetPersistentValue(key: string, layer: Exclude<ConfigFileLayer, 'credentials'> = 'user'): Promise<boolean> {
+    const field = getConfigField(key);
+    const target: ConfigFileLayer = field.secret ? 'credentials' : layer;
+
+    const values = await this.readConfigFileForUpdate(target);
+    if (!(key in values)) {
+      return false;
+    }
+
+    delete values[key];
+    await this.writeConfigFile(target, values);
+
+    this.config = this.loadConfig();
+    return true;
+  }
+
+  /** Creates an empty config file if needed and returns its path */
+  async ensureConfigFile(layer: ConfigFileLayer): Promise<string> {
+    try {
+      await readFile(this.paths[layer], 'utf-8');
+    } catch (error) {
+      await this.writeConfigFile(layer, {});
+    }
+    return this.paths[layer];
+  }
+
+  /** Re-reads all layers, e.g. after a config file was edited by hand */
+  reload(): void {
+    this.config = this.loadConfig();
+  }
+
+  private async readConfigFileForUpdate(layer: ConfigFileLayer): Promise<Record<string, unknown>> {
+    let content: string;
+    try {
+      content = await readFile(this.paths[layer], 'utf-8');
+    } catch (error) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch (error) {
+      // Fall through: refuse to overwrite a file we cannot read
+    }
+    throw new Error(`Cannot update ${this.paths[layer]}: it is not a valid JSON object. Fix it with "feral-code config edit".`);
+  }
+
+  private async writeConfigFile(layer: ConfigFileLayer, values: Record<string, unknown>): Promise<void> {
+    const path = this.paths[layer];
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(values, null, 2) + '\n', 'utf-8');
+
+    if (layer === 'credentials') {
+      await chmod(path, 0o600);
+    } else if (layer === 'local') {
+      // Keep personal overrides out of git even if the project does not ignore them
+      const gitignorePath = join(dirname(path), '.gitignore');
+      const gitignore = await readFile(gitignorePath, 'utf-8').catch(() => '');
+      if (!gitignore.split('\n').includes('config.local.json')) {
+        await writeFile(gitignorePath, `${gitignore}${gitignore && !gitignore.endsWith('\n') ? '\n' : ''}config.local.json\n`, 'utf-8');
+      }
+    }
   }
 
   getConfig(): Config {
     return { ...this.config };
   }
 
+  /** Applies overrides from command-line flags */
   updateConfig(updates: Partial<Config>): void {
     this.config = { ...this.config, ...updates };
+    for (const key of Object.keys(updates) as ConfigKey[]) {
+      this.sources[key] = 'cli';
+    }
   }
 
-  getProviderConfig(): ProviderConfig {
+  getProviderConfig(provider: Config['provider'] = this.getConfig().provider): ProviderConfig {
     const config = this.getConfig();
     
-    switch (config.provider) {
+    switch (provider) {
       case 'openai':
         return {
           apiKey: config.openaiApiKey || '',
@@ -69,6 +370,33 @@ export class ConfigManager {
           ]
         };
       
+      case 'anthropic':
+        return {
+          apiKey: config.anthropicApiKey || '',
+          baseUrl: config.anthropicBaseUrl,
+          defaultModel: config.defaultModel || 'claude-3-5-sonnet-20241022',
+          models: [
+            'claude-3-5-sonnet-20241022',
+            'claude-3-5-haiku-20241022',
+            'claude-3-opus-20240229',
+            'claude-3-sonnet-20240229',
+            'claude-3-haiku-20240307'
+          ]
+        };
+
+      case 'gemini':
+        return {
+          apiKey: config.geminiApiKey || '',
+          baseUrl: config.geminiBaseUrl,
+          defaultModel: config.defaultModel || 'gemini-1.5-pro',
+          models: [
+            'gemini-1.5-pro',
+            'gemini-1.5-flash',
+            'gemini-1.5-flash-8b',
+            'gemini-2.0-flash'
+          ]
+        };
+
       case 'ollama':
         return {
           apiKey: '', // No API key needed for Ollama
@@ -85,15 +413,23 @@ export class ConfigManager {
             'qwen2:7b'
           ]
         };
+
+      case 'openai-compatible':
+        return {
+          apiKey: config.openaiCompatibleApiKey || '',
+          baseUrl: config.openaiCompatibleBaseUrl,
+          defaultModel: config.defaultModel || 'default',
+          models: config.defaultModel ? [config.defaultModel] : []
+        };
         
       default:
-        throw new Error(`Unknown provider: ${config.provider}`);
+        throw new Error(`Unknown provider: ${provider}`);
     }
   }
 
   validateConfig(): { valid: boolean; errors: string[] } {
     const config = this.getConfig();
-    const errors: string[] = [];
+    const errors: string[] = [...this.loadErrors];
 
     // Check if provider is set
     if (!config.provider) {
@@ -112,9 +448,24 @@ export class ConfigManager {
           errors.push('OpenRouter API key not found. Set OPENROUTER_API_KEY environment variable.');
         }
         break;
+      case 'anthropic':
+        if (!config.anthropicApiKey) {
+          errors.push('Anthropic API key not found. Set ANTHROPIC_API_KEY environment variable.');
+        }
+        break;
+      case 'gemini':
+        if (!config.geminiApiKey) {
+          errors.push('Gemini API key not found. Set GEMINI_API_KEY environment variable.');
+        }
+        break;
       case 'ollama':
         // No API key required for Ollama, but we could check if the server is accessible
         break;
+      case 'openai-compatible':
+        if (!config.openaiCompatibleBaseUrl) {
+          errors.push('OpenAI-compatible base URL not found. Set OPENAI_COMPATIBLE_BASE_URL environment variable.');
+        }
+        break;
     }
 
     return {
@@ -128,23 +479,57 @@ export class ConfigManager {
 Environment Variables:
 
 Required:
-  FERAL_CODE_PROVIDER         AI provider to use (openai|openrouter|ollama)
+  FERAL_CODE_PROVIDER         AI provider to use (openai|openrouter|anthropic|gemini|ollama|openai-compatible)
   
 Provider API Keys (one required based on provider):
   OPENAI_API_KEY           Your OpenAI API key  
   OPENROUTER_API_KEY       Your OpenRouter API key
+  ANTHROPIC_API_KEY        Your Anthropic API key
+  GEMINI_API_KEY           Your Google Gemini API key
   
+Optional (for Anthropic):
+  ANTHROPIC_BASE_URL       Messages API URL (default: https://api.anthropic.com/v1)
+
+Optional (for Gemini):
+  GEMINI_BASE_URL          Gemini API URL (default: https://generativelanguage.googleapis.com/v1beta)
+
 Optional (for Ollama):
   OLLAMA_BASE_URL          Ollama server URL (default: http://localhost:11434)
+  OLLAMA_TOOL_MODE         Tool calling mode (auto|native|prompt, default: auto)
+
+Optional (for OpenAI-compatible servers such as vLLM, llama.cpp or LM Studio):
+  OPENAI_COMPATIBLE_BASE_URL         Server URL including the version prefix (e.g. http://localhost:8000/v1)
+  OPENAI_COMPATIBLE_API_KEY          Bearer token, if the server requires one
+  OPENAI_COMPATIBLE_HEADERS          Comma-separated extra headers ("Name: value")
+  OPENAI_COMPATIBLE_MODELS_ENDPOINT  Path or URL listing the models (default: /models)
+  OPENAI_COMPATIBLE_SUPPORTS_TOOLS   Send native tool schemas (true|false, default: true)
+  OPENAI_COMPATIBLE_STREAM_USAGE     Request token usage when streaming (true|false, default: false)
 
 Optional:
   FERAL_CODE_MODEL          Model to use (overrides provider default)
-  FERAL_CODE_TEMPERATURE    Temperature for responses (0.0-1.0, default: 0.7)
+  FERAL_CODE_TEMPERATURE    Temperature for responses (0.0-2.0, default: 0.7)
   FERAL_CODE_MAX_TOKENS     Maximum tokens in response (default: 4000)
   FERAL_CODE_VERBOSE        Enable verbose logging (true|false, default: false)
-  FERAL_CODE_ALLOWED_TOOLS  Comma-separated list of allowed tools
-  FERAL_CODE_DISALLOWED_TOOLS  Comma-separated list of disallowed tools
-  FERAL_CODE_DANGEROUSLY_SKIP_PERMISSIONS  Skip permission prompts (true|false, default: true)
+  FERAL_CODE_MAX_TURNS      Maximum tool-calling turns per request (default: 20)
+  FERAL_CODE_MAX_RETRIES    Retries for rate-limited or failed provider requests (default: 3, 0 disables)
+  FERAL_CODE_REQUEST_TIMEOUT  Seconds to wait for a provider to respond (default: 300, 0 disables)
+  FERAL_CODE_FALLBACKS      Comma-separated provider:model pairs to try when the provider fails
+                            (e.g. anthropic:claude-3-5-sonnet-20241022,ollama:llama3.1:8b)
+  FERAL_CODE_AUTO_COMPACT   Summarize older turns when the context window fills up (true|false, default: true)
+  FERAL_CODE_SUBAGENT_TOOLS  Comma-separated tools available to sub-agents (default: read-only tools)
+  FERAL_CODE_SUBAGENT_MAX_TURNS  Maximum tool-calling turns per sub-agent (default: 10)
+  FERAL_CODE_SUBAGENT_TOKEN_BUDGET  Maximum tokens a sub-agent may use (default: 100000)
+  FERAL_CODE_ALLOWED_TOOLS  Comma-separated tools or rule patterns to run without asking
+  FERAL_CODE_DISALLOWED_TOOLS  Comma-separated tools or rule patterns that may never run
+  FERAL_CODE_DANGEROUSLY_SKIP_PERMISSIONS  Skip safety checks and permission prompts (true|false, default: false)
+  FERAL_CODE_PERMISSION_POLICY  Answer to permission prompts in --print mode (deny|accept-edits|allow, default: deny)
+
+Config files (JSON, keys as shown by "feral-code config"):
+  ~/.feral-code/config.json          User settings
+  .feral-code/config.json            Project settings (commit to share with your team)
+  .feral-code/config.local.json      Personal project overrides (keep out of git)
+  ~/.feral-code/credentials.json     API keys saved with "feral-code config set"
+  Environment variables override config files; command-line flags override both.
 
 Examples:
   export FERAL_CODE_PROVIDER=openai
@@ -159,4 +544,92 @@ Examples:
   export FERAL_CODE_MODEL=llama3.1:8b
 `;
   }
-}
\ No newline at end of file
+}
+
+export function getConfigField(key: string): ConfigField {
+  const field = CONFIG_SCHEMA[key as ConfigKey];
+  if (!field) {
+    throw new Error(`Unknown config key '${key}'. Run "feral-code config" to list the available keys.`);
+  }
+  return field;
+}
+
+/** Renders a value for display, masking API keys */
+export function formatConfigValue(key: ConfigKey, value: unknown): string {
+  if (value === undefined) return '-';
+  if (CONFIG_SCHEMA[key].secret && typeof value === 'string') {
+    return value.length > 8 ? `${value.slice(0, 3)}…${value.slice(-4)}` : '****';
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+function isTrackedByGit(path: string): boolean {
+  try {
+    execFileSync('git', ['ls-files', '--error-unmatch', basename(path)], { cwd: dirname(path), stdio: 'ignore' });
+    return true;
+  } catch {
+    // Not tracked, not in a repository, or git is not installed
+    return false;
+  }
+}
+
+function parseEnvValue(field: ConfigField, raw: string): unknown {
+  switch (field.type) {
+    case 'number':
+      // Keep unparseable input as-is so the validation error can show it
+      return Number.isNaN(Number(raw)) ? raw : Number(raw);
+    case 'boolean':
+      return raw === 'true';
+    case 'string[]':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Parses a value typed on the command line. Unlike environment variables,
+ * input that does not fit the type is kept as text so validation rejects it.
+ */
+function parseConfigInput(field: ConfigField, raw: string): unknown {
+  switch (field.type) {
+    case 'number':
+      return raw.trim() !== '' && !Number.isNaN(Number(raw)) ? Number(raw) : raw;
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : raw;
+    case 'string[]':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Checks a value against its schema field. Returns an error naming the key
+ * and where the value came from, or undefined when the value is valid.
+ */
+function validateValue(key: string, field: ConfigField, value: unknown, location?: string): string | undefined {
+  const where = location ? ` in ${location}` : '';
+  const invalid = (problem: string) => `Invalid ${key}${where}: ${problem}`;
+
+  switch (field.type) {
+    case 'string':
+      if (typeof value !== 'string') return invalid(`expected a string, got ${JSON.stringify(value)}`);
+      if (field.values && !field.values.includes(value)) {
+        return `Unknown ${key} '${value}'${where} (expected ${field.values.join(', ')})`;
+      }
+      return undefined;
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) return invalid(`expected a number, got ${JSON.stringify(value)}`);
+      if (field.integer && !Number.isInteger(value)) return invalid(`expected a whole number, got ${value}`);
+      if (field.min !== undefined && value < field.min) return invalid(`must be at least ${field.min}`);
+      if (field.max !== undefined && value > field.max) return invalid(`must be at most ${field.max}`);
+      return undefined;
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : invalid(`expected true or false, got ${JSON.stringify(value)}`);
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+        ? undefined
+        : invalid(`expected an array of strings, got ${JSON.stringify(value)}`);
+  }
+}
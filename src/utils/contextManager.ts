@@ -0,0 +1,276 @@
+import { AIProvider, Message, SystemMessage, Tool, ToolResultMessage } from '../types/index.js';
+import { diagnostics } from './diagnostics.js';
+import { ModelInfo, modelRegistry } from './modelRegistry.js';
+import { TokenEstimator } from './tokens.js';
+
+/** A compaction of the conversation, as stored in the session */
+export interface Compaction {
+  trigger: 'auto' | 'manual';
+  /** ISO timestamp */
+  at: string;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** Messages folded into the summary */
+  summarizedMessages: number;
+  trimmedToolOutputs: number;
+  summary?: string;
+  /** The summarized messages and trimmed tool results as they were, so nothing is lost from the record */
+  replaced: Message[];
+}
+
+export interface CompactionResult {
+  messages: Message[];
+  compaction: Compaction;
+}
+
+export interface ContextManagerOptions {
+  model?: string;
+  /** Tokens requested for each reply, which the conversation must leave room for */
+  maxTokens?: number;
+  /** Share of the usable window at which automatic compaction starts */
+  threshold?: number;
+}
+
+export interface CompactOptions {
+  trigger?: Compaction['trigger'];
+  /** What the summary should focus on, as given to `/compact` */
+  instructions?: string;
+  tools?: Tool[];
+  signal?: AbortSignal;
+}
+
+export const SUMMARY_HEADER = 'Summary of the earlier conversation, which was compacted to fit the context window:';
+
+const SUMMARY_PROMPT = `You are summarizing a conversation between a user and a coding assistant so that the assistant can continue the work with only your summary and the most recent messages.
+
+Write a concise summary that keeps:
+- what the user asked for and any decisions or preferences they stated
+- files that were read, created or changed, with the important details of each
+- commands that were run and what they showed, especially errors
+- what has been done and what is still left to do
+
+Leave out pleasantries and anything the assistant no longer needs. Do not continue the conversation; only write the summary.`;
+
+const DEFAULT_THRESHOLD = 0.8;
+// Share of the usable window kept as recent messages when older ones are summarized
+const RECENT_SHARE = 0.25;
+// Tool results longer than this are cut down once the model has answered them
+const TOOL_OUTPUT_LIMIT = 1000;
+const TRIM_HEAD_CHARS = 2000;
+const TRIM_TAIL_CHARS = 1000;
+// Longest a single message may be when rendered for the summary request
+const SUMMARY_MESSAGE_CHARS = 4000;
+
+/**
+ * Keeps a conversation within the model's context window, as given by the
+ * model registry. When the estimated size nears the window, tool results the
+ * model has already answered are cut down to their beginning and end, and if
+ * that is not enough, older turns are replaced by a summary the model writes
+ * itself. Pinned messages are kept word for word, and the most recent turns
+ * are always kept as they are.
+ */
+export class ContextManager {
+  private provider: AIProvider;
+  private options: ContextManagerOptions;
+
+  constructor(provider: AIProvider, options: ContextManagerOptions = {}) {
+    this.provider = provider;
+    this.options = options;
+  }
+
+  /** Tokens the conversation may use, leaving room for the reply */
+  getUsableTokens(): number {
+    const model = this.getModel();
+    const reserved = Math.min(this.options.maxTokens ?? model.maxOutputTokens, model.maxOutputTokens);
+    return Math.max(model.contextWindow - reserved, Math.floor(model.contextWindow / 2));
+  }
+
+  estimate(messages: Message[], tools?: Tool[]): number {
+    const estimator = this.getEstimator();
+    return estimator.countMessages(messages) + estimator.countTools(tools);
+  }
+
+  needsCompaction(messages: Message[], tools?: Tool[]): boolean {
+    return this.estimate(messages, tools) > this.getUsableTokens() * (this.options.threshold ?? DEFAULT_THRESHOLD);
+  }
+
+  /**
+   * Compacts the conversation. Automatic compaction stops once the
+   * conversation fits again; manual compaction always summarizes what it can.
+   * Returns nothing when there is nothing to compact.
+   */
+  async compact(messages: Message[], options: CompactOptions = {}): Promise<CompactionResult | undefined> {
+    const trigger = options.trigger ?? 'manual';
+    const tokensBefore = this.estimate(messages, options.tools);
+
+    const trimmed = this.trimToolOutputs(messages);
+    // Indexes of the messages that will not remain as they were
+    const changed = new Set(trimmed.flatMap((message, index) => message === messages[index] ? [] : [index]));
+    const trimmedToolOutputs = changed.size;
+    let compacted = trimmed;
+    let summary: string | undefined;
+    let summarizedMessages = 0;
+
+    if (trigger === 'manual' || this.needsCompaction(trimmed, options.tools)) {
+      // Asked for explicitly, everything before the last exchange is summarized
+      const recentStart = this.findRecentStart(trimmed, trigger === 'manual' ? 0 : this.getUsableTokens() * RECENT_SHARE);
+      const older = trimmed.slice(0, recentStart);
+      const toSummarize = older.filter(message => !isPinned(message));
+
+      if (toSummarize.length) {
+        summary = await this.summarize(toSummarize, options);
+        summarizedMessages = toSummarize.length;
+        older.forEach((message, index) => {
+          if (!isPinned(message)) changed.add(index);
+        });
+        const summaryMessage: SystemMessage = { role: 'system', content: `${SUMMARY_HEADER}\n\n${summary}` };
+        compacted = [...older.filter(isPinned), summaryMessage, ...trimmed.slice(recentStart)];
+      }
+    }
+
+    if (!changed.size) {
+      return undefined;
+    }
+
+    const compaction: Compaction = {
+      trigger,
+      at: new Date().toISOString(),
+      tokensBefore,
+      tokensAfter: this.estimate(compacted, options.tools),
+      summarizedMessages,
+      trimmedToolOutputs,
+      summary,
+      replaced: messages.filter((_, index) => changed.has(index)),
+    };
+
+    await diagnostics.info('session', `Compacted the conversation`, {
+      trigger,
+      tokensBefore,
+      tokensAfter: compaction.tokensAfter,
+      summarizedMessages,
+      trimmedToolOutputs,
+    });
+
+    return { messages: compacted, compaction };
+  }
+
+  /**
+   * Cuts down long tool results the model has already answered. Results after
+   * the last assistant message have not been seen yet and are left alone.
+   */
+  private trimToolOutputs(messages: Message[]): Message[] {
+    const estimator = this.getEstimator();
+    let lastAssistant = -1;
+    messages.forEach((message, index) => {
+      if (message.role === 'assistant') lastAssistant = index;
+    });
+
+    return messages.map((message, index) => {
+      if (message.role !== 'tool' || index > lastAssistant || estimator.count(message.content) <= TOOL_OUTPUT_LIMIT) {
+        return message;
+      }
+      // Dense output can be many tokens in few characters; the head and tail would overlap
+      if (message.content.length <= TRIM_HEAD_CHARS + TRIM_TAIL_CHARS) {
+        return message;
+      }
+
+      const removed = Math.max(message.content.length - TRIM_HEAD_CHARS - TRIM_TAIL_CHARS, 0);
+      const trimmed: ToolResultMessage = {
+        ...message,
+        content: `${message.content.slice(0, TRIM_HEAD_CHARS)}\n[... ${removed} characters removed to save context ...]\n${message.content.slice(-TRIM_TAIL_CHARS)}`,
+      };
+      return trimmed;
+    });
+  }
+
+  /**
+   * Finds where the recent messages begin. The cut is always made before a
+   * user message, so tool calls stay with their results, and the last user
+   * message is always kept.
+   */
+  private findRecentStart(messages: Message[], budget: number): number {
+    const estimator = this.getEstimator();
+    let start = messages.length;
+    let tokens = 0;
+
+    for (let index = messages.length - 1; index >= 0; index--) {
+      tokens += estimator.countMessage(messages[index]);
+      if (messages[index].role !== 'user' || isPinned(messages[index])) {
+        continue;
+      }
+      if (start < messages.length && tokens > budget) {
+        break;
+      }
+      start = index;
+    }
+
+    return start;
+  }
+
+  private async summarize(messages: Message[], options: CompactOptions): Promise<string> {
+    const model = this.getModel();
+    // Leave room for the prompt and the summary itself
+    const transcriptChars = Math.floor(this.getUsableTokens() * 0.7 * 3.5);
+    let transcript = messages.map(renderForSummary).join('\n\n');
+    if (transcript.length > transcriptChars) {
+      transcript = `[earlier part omitted]\n\n${transcript.slice(-transcriptChars)}`;
+    }
+
+    const focus = options.instructions?.trim() ? `\n\nWhen summarizing, focus on: ${options.instructions.trim()}` : '';
+    const response = await this.provider.chat({
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT + focus },
+        { role: 'user', content: `Summarize this conversation:\n\n${transcript}` },
+      ],
+      model: this.options.model,
+      maxTokens: Math.min(2000, model.maxOutputTokens),
+      signal: options.signal,
+    });
+
+    const summary = response.message.content.trim();
+    if (!summary) {
+      throw new Error('The model returned an empty summary');
+    }
+    return summary;
+  }
+
+  private getModel(): ModelInfo {
+    return modelRegistry.get(this.provider.name, this.options.model || this.provider.getDefaultModel());
+  }
+
+  private getEstimator(): TokenEstimator {
+    return new TokenEstimator(this.provider.name, this.options.model || this.provider.getDefaultModel());
+  }
+}
+
+/** One line for the user, such as "Compacted the conversation (summarized 12 messages): ~9000 → ~2100 tokens" */
+export function describeCompaction(compaction: Compaction): string {
+  const parts = [
+    compaction.summarizedMessages ? `summarized ${compaction.summarizedMessages} messages` : '',
+    compaction.trimmedToolOutputs ? `trimmed ${compaction.trimmedToolOutputs} tool outputs` : '',
+  ].filter(Boolean);
+  return `Compacted the conversation (${parts.join(', ')}): ~${compaction.tokensBefore} → ~${compaction.tokensAfter} tokens`;
+}
+
+function isPinned(message: Message): boolean {
+  return (message.role === 'user' || message.role === 'system') && !!message.pinned;
+}
+
+function renderForSummary(message: Message): string {
+  const clip = (text: string) => text.length > SUMMARY_MESSAGE_CHARS
+    ? `${text.slice(0, SUMMARY_MESSAGE_CHARS)} [...]`
+    : text;
+
+  switch (message.role) {
+    case 'user':
+      return `User: ${clip(message.content)}`;
+    case 'system':
+      return `System: ${clip(message.content)}`;
+    case 'assistant': {
+      const calls = (message.toolCalls || []).map(call => `[called ${call.name} ${clip(call.arguments)}]`);
+      return `Assistant: ${[clip(message.content), ...calls].filter(Boolean).join('\n')}`;
+    }
+    case 'tool':
+      return `Result of ${message.toolName}${message.isError ? ' (error)' : ''}: ${clip(message.content)}`;
+  }
+}
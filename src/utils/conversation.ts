@@ -0,0 +1,330 @@
+import {
+  AIProvider,
+  AssistantMessage,
+  ChatRequest,
+  ChatResponse,
+  DiffLine,
+  Message,
+  Tool,
+  ToolCall,
+  ToolCallDelta,
+  ToolResultMessage,
+} from '../types/index.js';
+import { ToolManager } from '../tools/index.js';
+import { Compaction, ContextManager } from './contextManager.js';
+import { diagnostics } from './diagnostics.js';
+import { modelRegistry } from './modelRegistry.js';
+import { PLAN_MODE_PROMPT } from './planMode.js';
+import { SystemPrompt } from './systemPrompt.js';
+import { getToolDiff, readPreviousContent } from './toolDisplay.js';
+
+export type Usage = NonNullable<ChatResponse['usage']>;
+
+export interface ConversationOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  maxTurns?: number;
+  stream?: boolean;
+  /**
+   * Cancels the run. The reply streamed so far is kept, tool calls that have
+   * not started are answered with a cancellation result and a `cancelled`
+   * event ends the run.
+   */
+  signal?: AbortSignal;
+  /** Compacts the conversation before a request when it nears the context window */
+  contextManager?: ContextManager;
+  /** Sent as the first system message of every request; learns the paths tools work on */
+  systemPrompt?: SystemPrompt;
+}
+
+export type ConversationEvent =
+  | { type: 'text'; content: string }
+  | { type: 'message'; message: Message }
+  | { type: 'tool_call'; toolCall: ToolCall }
+  | { type: 'tool_result'; toolCall: ToolCall; result: string; isError: boolean; durationMs: number }
+  /** Usage of one request; `turn` counts the requests of the tool loop from 1 */
+  | { type: 'usage'; usage: Usage; turn: number }
+  | { type: 'max_turns'; turns: number }
+  | { type: 'compaction'; compaction: Compaction; messages: Message[] }
+  | { type: 'cancelled' };
+
+export const DEFAULT_MAX_TURNS = 20;
+
+const CANCELLED_RESULT = 'Error: Cancelled by the user before the tool ran';
+
+/**
+ * Assembles streamed tool-call fragments into complete tool calls. Deltas
+ * sharing an index belong to the same call; names and arguments arrive in
+ * pieces and are concatenated in order.
+ */
+export class ToolCallAccumulator {
+  private calls: Map<number, ToolCall> = new Map();
+
+  add(deltas: ToolCallDelta[]): void {
+    for (const delta of deltas) {
+      const existing = this.calls.get(delta.index) || { id: '', name: '', arguments: '' };
+
+      if (delta.id) existing.id = delta.id;
+      if (delta.name) existing.name += delta.name;
+      if (delta.arguments) existing.arguments += delta.arguments;
+
+      this.calls.set(delta.index, existing);
+    }
+  }
+
+  getToolCalls(): ToolCall[] {
+    return Array.from(this.calls.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([index, call]) => ({
+        ...call,
+        id: call.id || `call_${index}`,
+      }));
+  }
+}
+
+/**
+ * Drives the agentic loop shared by print mode, the text REPL and the TUI:
+ * send the conversation, execute any tool calls the model makes, feed the
+ * results back as tool messages and repeat until the model answers without
+ * calling tools or the turn limit is reached.
+ *
+ * Every message the engine adds to the conversation is emitted as a
+ * `message` event; callers own the transcript and append those themselves.
+ * When a context manager compacts the conversation, a `compaction` event
+ * carries the messages that replace the transcript.
+ * The system prompt is not part of the transcript; it is built afresh for
+ * every request so that edited instruction files apply right away.
+ *
+ * Requests follow the model's entry in the model registry: tools are only
+ * offered to models that can call them, models that cannot stream get a
+ * plain request and `maxTokens` is capped at the model's output limit.
+ */
+export class ConversationEngine {
+  private provider: AIProvider;
+  private toolManager: ToolManager;
+  private options: ConversationOptions;
+
+  constructor(provider: AIProvider, toolManager: ToolManager, options: ConversationOptions = {}) {
+    this.provider = provider;
+    this.toolManager = toolManager;
+    this.options = options;
+  }
+
+  async *run(messages: Message[]): AsyncGenerator<ConversationEvent> {
+    const history = [...messages];
+    const maxTurns = this.options.maxTurns ?? DEFAULT_MAX_TURNS;
+    const signal = this.options.signal;
+
+    for (let turn = 1; ; turn++) {
+      const compacted = yield* this.compactIfNeeded(history);
+      if (compacted) {
+        history.splice(0, history.length, ...compacted);
+      }
+
+      const assistantMessage = yield* this.requestTurn(history, turn);
+
+      if (signal?.aborted) {
+        // Keep the partial reply, without tool calls that will never run
+        if (assistantMessage.content) {
+          const partial: AssistantMessage = { role: 'assistant', content: assistantMessage.content };
+          history.push(partial);
+          yield { type: 'message', message: partial };
+        }
+        yield { type: 'cancelled' };
+        return;
+      }
+
+      history.push(assistantMessage);
+      yield { type: 'message', message: assistantMessage };
+
+      if (!assistantMessage.toolCalls?.length) {
+        return;
+      }
+
+      for (const toolCall of assistantMessage.toolCalls) {
+        yield { type: 'tool_call', toolCall };
+
+        // Every call still needs a result, or the next request would be rejected
+        const startedAt = Date.now();
+        const { result, isError, diff } = signal?.aborted
+          ? { result: CANCELLED_RESULT, isError: true, diff: undefined }
+          : await this.executeToolCall(toolCall);
+        const durationMs = Date.now() - startedAt;
+        yield { type: 'tool_result', toolCall, result, isError, durationMs };
+
+        const toolMessage: ToolResultMessage = {
+          role: 'tool',
+          content: result,
+          toolCallId: toolCall.id,
+          toolName: toolCall.name,
+          isError,
+          durationMs,
+          ...(diff && { diff }),
+        };
+        history.push(toolMessage);
+        yield { type: 'message', message: toolMessage };
+      }
+
+      if (signal?.aborted) {
+        yield { type: 'cancelled' };
+        return;
+      }
+
+      if (turn >= maxTurns) {
+        await diagnostics.warn('session', `Conversation stopped after reaching max turns`, {
+          maxTurns,
+          provider: this.provider.name,
+        });
+        yield { type: 'max_turns', turns: turn };
+        return;
+      }
+    }
+  }
+
+  private async *compactIfNeeded(history: Message[]): AsyncGenerator<ConversationEvent, Message[] | undefined> {
+    const contextManager = this.options.contextManager;
+    const tools = this.getToolDefinitions();
+    if (!contextManager?.needsCompaction([...this.getSystemMessages(), ...history], tools)) {
+      return undefined;
+    }
+
+    try {
+      const result = await contextManager.compact(history, { trigger: 'auto', tools, signal: this.options.signal });
+      if (!result) return undefined;
+
+      yield { type: 'compaction', compaction: result.compaction, messages: result.messages };
+      return result.messages;
+    } catch (error) {
+      // The request may still fit, since the estimate leaves headroom
+      await diagnostics.error('session', `Could not compact the conversation`, error as Error, {
+        provider: this.provider.name,
+      });
+      return undefined;
+    }
+  }
+
+  private getSystemMessages(): Message[] {
+    const messages: Message[] = [];
+    if (this.options.systemPrompt) {
+      messages.push({ role: 'system', content: this.options.systemPrompt.build() });
+    }
+    // Remind the model of plan mode on every turn, since it can change mid-run
+    if (this.toolManager.getPlanMode()?.isActive()) {
+      messages.push({ role: 'system', content: PLAN_MODE_PROMPT });
+    }
+    return messages;
+  }
+
+  private getToolDefinitions(): Tool[] | undefined {
+    const model = modelRegistry.get(this.provider.name, this.options.model || this.provider.getDefaultModel());
+    return model.supportsTools ? this.toolManager.getToolDefinitions() : undefined;
+  }
+
+  private async *requestTurn(history: Message[], turn: number): AsyncGenerator<ConversationEvent, AssistantMessage> {
+    const model = modelRegistry.get(this.provider.name, this.options.model || this.provider.getDefaultModel());
+    const request: ChatRequest = {
+      messages: [...this.getSystemMessages(), ...history],
+      model: this.options.model,
+      temperature: this.options.temperature,
+      // Never ask for more than the model can produce
+      maxTokens: this.options.maxTokens && Math.min(this.options.maxTokens, model.maxOutputTokens),
+      tools: this.getToolDefinitions(),
+      signal: this.options.signal,
+    };
+
+    if (this.options.stream === false || !model.supportsStreaming) {
+      let response: ChatResponse;
+      try {
+        response = await this.provider.chat(request);
+      } catch (error) {
+        if (this.options.signal?.aborted) {
+          return { role: 'assistant', content: '' };
+        }
+        throw error;
+      }
+
+      if (response.message.content) {
+        yield { type: 'text', content: response.message.content };
+      }
+      if (response.usage) {
+        yield { type: 'usage', usage: response.usage, turn };
+      }
+      return {
+        role: 'assistant',
+        content: response.message.content,
+        toolCalls: response.message.toolCalls?.length ? response.message.toolCalls : undefined,
+      };
+    }
+
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    const accumulator = new ToolCallAccumulator();
+
+    try {
+      for await (const chunk of this.provider.streamChat(request)) {
+        if (chunk.message?.content) {
+          content += chunk.message.content;
+          yield { type: 'text', content: chunk.message.content };
+        }
+
+        if (chunk.message?.toolCalls) {
+          toolCalls.push(...chunk.message.toolCalls);
+        }
+
+        if (chunk.toolCallDeltas) {
+          accumulator.add(chunk.toolCallDeltas);
+        }
+
+        if (chunk.usage) {
+          yield { type: 'usage', usage: chunk.usage, turn };
+        }
+      }
+    } catch (error) {
+      // A cancelled stream ends the turn with whatever arrived so far
+      if (!this.options.signal?.aborted) {
+        throw error;
+      }
+    }
+
+    toolCalls.push(...accumulator.getToolCalls());
+
+    return {
+      role: 'assistant',
+      content,
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+    };
+  }
+
+  private async executeToolCall(toolCall: ToolCall): Promise<{ result: string; isError: boolean; diff?: DiffLine[] }> {
+    let params: Record<string, any>;
+
+    try {
+      params = toolCall.arguments.trim() ? JSON.parse(toolCall.arguments) : {};
+    } catch (error) {
+      return {
+        result: `Error: Invalid JSON arguments for tool '${toolCall.name}': ${(error as Error).message}`,
+        isError: true,
+      };
+    }
+
+    // Once the file is written, its old content is gone
+    const previousContent = await readPreviousContent(toolCall.name, params);
+
+    try {
+      const result = await this.toolManager.executeTool(toolCall.name, params, this.options.signal);
+      const isError = result.startsWith('Error');
+      // Instructions only come from where the model was allowed to work
+      if (!isError) {
+        this.options.systemPrompt?.trackToolCall(params);
+      }
+      const diff = toolCall.name === 'Write' && !isError ? getToolDiff(toolCall.name, params, previousContent) : undefined;
+      return { result, isError, diff };
+    } catch (error) {
+      await diagnostics.error('tool', `Tool call ${toolCall.name} could not be executed`, error as Error, {
+        toolCallId: toolCall.id,
+      });
+      return { result: `Error: ${(error as Error).message}`, isError: true };
+    }
+  }
+}
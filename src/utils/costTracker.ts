@@ -2,6 +2,7 @@ import { readFile, writeFile, mkdir } from 'fs/promises';
 import { join, dirname } from 'path';
 import { homedir } from 'os';
 import { diagnostics } from './diagnostics.js';
+import { modelRegistry } from './modelRegistry.js';
 
 export interface CostEntry {
   timestamp: string;
@@ -11,6 +12,16 @@ export interface CostEntry {
   outputTokens: number;
   cost: number;
   sessionId?: string;
+  /** Which request of the tool loop this was, counted from 1 */
+  turn?: number;
+}
+
+/** Running totals of the requests made so far, as shown while working */
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  requests: number;
 }
 
 export interface CostSummary {
@@ -33,37 +44,7 @@ export class CostTracker {
   private costPath: string;
   private costData: CostEntry[] = [];
   private isLoaded = false;
-
-  // Cost data (USD per 1k tokens) - updated as of 2024
-  private static COST_CONFIG: Record<string, Record<string, ProviderCostConfig>> = {
-    anthropic: {
-      'claude-3-5-sonnet-20241022': { inputCostPer1kTokens: 0.003, outputCostPer1kTokens: 0.015 },
-      'claude-3-5-haiku-20241022': { inputCostPer1kTokens: 0.001, outputCostPer1kTokens: 0.005 },
-      'claude-3-opus-20240229': { inputCostPer1kTokens: 0.015, outputCostPer1kTokens: 0.075 },
-      'claude-3-sonnet-20240229': { inputCostPer1kTokens: 0.003, outputCostPer1kTokens: 0.015 },
-      'claude-3-haiku-20240307': { inputCostPer1kTokens: 0.00025, outputCostPer1kTokens: 0.00125 },
-    },
-    openai: {
-      'gpt-4o': { inputCostPer1kTokens: 0.005, outputCostPer1kTokens: 0.015 },
-      'gpt-4o-mini': { inputCostPer1kTokens: 0.00015, outputCostPer1kTokens: 0.0006 },
-      'gpt-4': { inputCostPer1kTokens: 0.03, outputCostPer1kTokens: 0.06 },
-      'gpt-4-turbo': { inputCostPer1kTokens: 0.01, outputCostPer1kTokens: 0.03 },
-      'gpt-3.5-turbo': { inputCostPer1kTokens: 0.0005, outputCostPer1kTokens: 0.0015 },
-    },
-    openrouter: {
-      'anthropic/claude-3.5-sonnet': { inputCostPer1kTokens: 0.003, outputCostPer1kTokens: 0.015 },
-      'anthropic/claude-3-haiku': { inputCostPer1kTokens: 0.00025, outputCostPer1kTokens: 0.00125 },
-      'openai/gpt-4o': { inputCostPer1kTokens: 0.005, outputCostPer1kTokens: 0.015 },
-      'openai/gpt-4o-mini': { inputCostPer1kTokens: 0.00015, outputCostPer1kTokens: 0.0006 },
-      'meta-llama/llama-3.1-8b-instruct:free': { inputCostPer1kTokens: 0, outputCostPer1kTokens: 0 },
-      'meta-llama/llama-3.1-70b-instruct': { inputCostPer1kTokens: 0.0009, outputCostPer1kTokens: 0.0009 },
-      'google/gemini-pro-1.5': { inputCostPer1kTokens: 0.00125, outputCostPer1kTokens: 0.005 },
-    },
-    ollama: {
-      // Local models have no API costs
-      'default': { inputCostPer1kTokens: 0, outputCostPer1kTokens: 0 },
-    },
-  };
+  private listeners: Set<(entry: CostEntry) => void> = new Set();
 
   constructor() {
     this.costPath = join(homedir(), '.amai-code', 'costs.json');
@@ -88,7 +69,8 @@ export class CostTracker {
     model: string,
     inputTokens: number,
     outputTokens: number,
-    sessionId?: string
+    sessionId?: string,
+    turn?: number
   ): Promise<number> {
     await this.ensureLoaded();
 
@@ -102,9 +84,11 @@ export class CostTracker {
       outputTokens,
       cost,
       sessionId,
+      turn,
     };
 
     this.costData.push(entry);
+    this.listeners.forEach(listener => listener(entry));
     await this.saveCostData();
 
     await diagnostics.info('cost', `Tracked usage cost: $${cost.toFixed(6)}`, {
@@ -118,37 +102,18 @@ export class CostTracker {
     return cost;
   }
 
-  private calculateCost(provider: string, model: string, inputTokens: number, outputTokens: number): number {
-    const providerConfig = CostTracker.COST_CONFIG[provider.toLowerCase()];
-    if (!providerConfig) {
-      // Unknown provider, assume no cost (like local models)
-      return 0;
-    }
-
-    // Try exact model match first
-    let modelConfig = providerConfig[model];
-    
-    // If no exact match, try partial matches or defaults
-    if (!modelConfig) {
-      const modelKey = Object.keys(providerConfig).find(key => 
-        model.toLowerCase().includes(key.toLowerCase()) ||
-        key.toLowerCase().includes(model.toLowerCase())
-      );
-      
-      if (modelKey) {
-        modelConfig = providerConfig[modelKey];
-      } else {
-        // Use default or first available model config
-        modelConfig = providerConfig['default'] || Object.values(providerConfig)[0];
-      }
-    }
+  /** Subscribes to every tracked request; returns an unsubscribe function */
+  onUsage(listener: (entry: CostEntry) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
 
-    if (!modelConfig) {
-      return 0;
-    }
+  private calculateCost(provider: string, model: string, inputTokens: number, outputTokens: number): number {
+    // Prices come from the model registry; unknown models are assumed free, like local ones
+    const { inputCostPer1kTokens, outputCostPer1kTokens } = modelRegistry.get(provider, model);
 
-    const inputCost = (inputTokens / 1000) * modelConfig.inputCostPer1kTokens;
-    const outputCost = (outputTokens / 1000) * modelConfig.outputCostPer1kTokens;
+    const inputCost = (inputTokens / 1000) * inputCostPer1kTokens;
+    const outputCost = (outputTokens / 1000) * outputCostPer1kTokens;
 
     return inputCost + outputCost;
   }
@@ -224,6 +189,16 @@ export class CostTracker {
     return summary;
   }
 
+  async getSessionTotals(sessionId: string): Promise<UsageTotals> {
+    const summary = await this.getSummary({ sessionId });
+    return {
+      inputTokens: summary.totalInputTokens,
+      outputTokens: summary.totalOutputTokens,
+      cost: summary.totalCost,
+      requests: summary.requestCount,
+    };
+  }
+
   async getCurrentSessionCost(sessionId: string): Promise<number> {
     const summary = await this.getSummary({ sessionId });
     return summary.totalCost;
@@ -278,7 +253,17 @@ export class CostTracker {
   }
 
   getProviderCostInfo(provider: string): Record<string, ProviderCostConfig> | undefined {
-    return CostTracker.COST_CONFIG[provider.toLowerCase()];
+    const costs: Record<string, ProviderCostConfig> = {};
+
+    for (const info of modelRegistry.list(provider)) {
+      costs[info.id] = { inputCostPer1kTokens: info.inputCostPer1kTokens, outputCostPer1kTokens: info.outputCostPer1kTokens };
+    }
+    if (modelRegistry.hasProviderDefaults(provider)) {
+      const defaults = modelRegistry.getDefaults(provider);
+      costs['default'] = { inputCostPer1kTokens: defaults.inputCostPer1kTokens, outputCostPer1kTokens: defaults.outputCostPer1kTokens };
+    }
+
+    return Object.keys(costs).length ? costs : undefined;
   }
 
   private async saveCostData(): Promise<void> {
@@ -291,5 +276,38 @@ export class CostTracker {
   }
 }
 
+export const EMPTY_USAGE_TOTALS: UsageTotals = { inputTokens: 0, outputTokens: 0, cost: 0, requests: 0 };
+
+/** Adds one request to the totals, returning new totals */
+export function addUsage(
+  totals: UsageTotals,
+  usage: { inputTokens: number; outputTokens: number },
+  cost: number
+): UsageTotals {
+  return {
+    inputTokens: totals.inputTokens + usage.inputTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+    cost: totals.cost + cost,
+    requests: totals.requests + 1,
+  };
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return 'Free';
+  if (cost < 0.001) return '<$0.001';
+  return `$${cost.toFixed(cost < 0.01 ? 4 : 3)}`;
+}
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return String(tokens);
+}
+
+/** For example "12.3K in / 850 out tokens, $0.041" */
+export function formatUsageTotals(totals: UsageTotals): string {
+  return `${formatTokenCount(totals.inputTokens)} in / ${formatTokenCount(totals.outputTokens)} out tokens, ${formatCost(totals.cost)}`;
+}
+
 // Global cost tracker instance
 export const costTracker = new CostTracker();
\ No newline at end of file
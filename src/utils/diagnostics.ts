@@ -5,7 +5,7 @@ import { homedir } from 'os';
 export interface DiagnosticEvent {
   timestamp: string;
   level: 'info' | 'warn' | 'error' | 'debug';
-  category: 'tool' | 'provider' | 'session' | 'system' | 'mcp' | 'cost';
+  category: 'tool' | 'provider' | 'session' | 'system' | 'mcp' | 'cost' | 'agent' | 'permission';
   message: string;
   data?: any;
   stack?: string;
@@ -0,0 +1,45 @@
+import { spawnSync } from 'child_process';
+
+/**
+ * $VISUAL or $EDITOR as a program and its arguments, e.g. `code --wait`.
+ * Quotes group words, as in `"/opt/My Editor/edit" -w`; nothing else is
+ * interpreted, since the editor is run without a shell.
+ */
+export function parseEditorCommand(value: string): string[] {
+  const words: string[] = [];
+  let word: string | null = null;
+  let quote: string | null = null;
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        word += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      word = word ?? '';
+    } else if (/\s/.test(char)) {
+      if (word !== null) words.push(word);
+      word = null;
+    } else {
+      word = (word ?? '') + char;
+    }
+  }
+  if (word !== null) words.push(word);
+  return words;
+}
+
+/** Opens a file in $VISUAL or $EDITOR (vi by default) and waits for the editor to exit */
+export function openInEditor(path: string): void {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const [command = 'vi', ...args] = parseEditorCommand(editor);
+  const result = spawnSync(command, [...args, path], { stdio: 'inherit' });
+  if (result.error) {
+    throw new Error(`Could not start ${editor}: ${result.error.message}`);
+  }
+  if (result.status !== 0) {
+    throw new Error(`${editor} exited with status ${result.status}`);
+  }
+}
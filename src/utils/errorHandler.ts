@@ -27,7 +27,64 @@ export class OpenCodeError extends Error {
   }
 }
 
+/**
+ * A non-OK HTTP response from a model provider. The status decides whether
+ * the request may be retried; `retryAfterMs` carries the wait the server
+ * asked for through `Retry-After` or rate-limit headers.
+ */
+export class ProviderRequestError extends OpenCodeError {
+  public readonly status: number;
+  public readonly body: string;
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, body: string, context?: { provider?: string; retryAfterMs?: number }) {
+    super(message, getProviderErrorCode(status), 'provider', context);
+    this.name = 'ProviderRequestError';
+    this.status = status;
+    this.body = body;
+    this.retryAfterMs = context?.retryAfterMs;
+  }
+}
+
+// 408 request timeout, 409 conflict, 425 too early, 429 rate limit and
+// 529 (Anthropic's "overloaded") are transient like most 5xx responses
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+// Dropped connections are worth another attempt. A refused connection or a
+// host that does not resolve means nothing is there (such as a local server
+// that is not running), so those fail straight away.
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET']);
+
+function getProviderErrorCode(status: number): string {
+  if (status === 429) return 'RATE_LIMITED';
+  if (RETRYABLE_STATUSES.has(status)) return 'PROVIDER_UNAVAILABLE';
+  if (status === 401 || status === 403) return 'AUTHENTICATION_FAILED';
+  return 'PROVIDER_ERROR';
+}
+
 export class ErrorHandler {
+  /**
+   * Whether a failed provider request may succeed if sent again: rate limits,
+   * overloaded or unavailable servers and dropped connections. Client errors
+   * such as bad requests or invalid keys, and cancelled requests, are fatal.
+   */
+  static isRetryable(error: unknown): boolean {
+    if (error instanceof ProviderRequestError) {
+      return RETRYABLE_STATUSES.has(error.status);
+    }
+
+    const err = error as { name?: string; code?: string; message?: string } | undefined;
+    if (!err || err.name === 'AbortError') {
+      return false;
+    }
+
+    if (err.code && RETRYABLE_NETWORK_CODES.has(err.code)) {
+      return true;
+    }
+
+    return /socket hang up|network timeout/i.test(err.message || '');
+  }
+
   static async handleError(error: Error, context: ErrorContext): Promise<string> {
     let errorMessage: string;
     let errorCode: string;
@@ -0,0 +1,252 @@
+import chalk, { ChalkInstance } from 'chalk';
+import hljs from 'highlight.js';
+import stripAnsi from 'strip-ansi';
+import wrapAnsi from 'wrap-ansi';
+
+export interface MarkdownOptions {
+  /** Columns to wrap prose at; code blocks are never wrapped so they copy intact */
+  width?: number;
+}
+
+// Styles for highlight.js token classes; unlisted classes stay plain
+const CODE_STYLES: Record<string, ChalkInstance> = {
+  keyword: chalk.magenta,
+  'selector-tag': chalk.magenta,
+  built_in: chalk.cyan,
+  type: chalk.cyan,
+  class: chalk.cyan,
+  title: chalk.blue,
+  'title.function': chalk.blue,
+  'title.class': chalk.cyan,
+  literal: chalk.yellow,
+  number: chalk.yellow,
+  string: chalk.green,
+  regexp: chalk.red,
+  symbol: chalk.yellow,
+  attr: chalk.yellow,
+  attribute: chalk.yellow,
+  property: chalk.yellow,
+  variable: chalk.red,
+  'template-variable': chalk.red,
+  params: chalk.white,
+  comment: chalk.gray,
+  quote: chalk.gray,
+  doctag: chalk.gray,
+  meta: chalk.gray,
+  tag: chalk.blue,
+  name: chalk.blue,
+  section: chalk.bold.blue,
+  bullet: chalk.yellow,
+  addition: chalk.green,
+  deletion: chalk.red,
+  emphasis: chalk.italic,
+  strong: chalk.bold,
+};
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;/g, "'")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** Turns the HTML spans highlight.js produces into terminal colours */
+function htmlToAnsi(html: string): string {
+  const styles: Array<ChalkInstance | undefined> = [];
+  let output = '';
+
+  for (const [token, className] of html.matchAll(/<span class="([^"]*)">|<\/span>|[^<]+/g)) {
+    if (className !== undefined) {
+      // `hljs-title function_` is the title of a function
+      const [main, ...modifiers] = className.split(' ').map(name => name.replace(/^hljs-/, '').replace(/_$/, ''));
+      styles.push(CODE_STYLES[[main, ...modifiers].join('.')] || CODE_STYLES[main]);
+    } else if (token === '</span>') {
+      styles.pop();
+    } else {
+      const style = [...styles].reverse().find(Boolean);
+      const text = decodeEntities(token);
+      output += style ? style(text) : text;
+    }
+  }
+  return output;
+}
+
+/** Highlights code in a language highlight.js knows; anything else is left as it is */
+export function highlightCode(code: string, language?: string): string {
+  if (!language || !chalk.level || !hljs.getLanguage(language)) {
+    return code;
+  }
+  try {
+    return htmlToAnsi(hljs.highlight(code, { language, ignoreIllegals: true }).value);
+  } catch {
+    return code;
+  }
+}
+
+/** Bold, italics, strikethrough, inline code and links within one line */
+export function renderInline(text: string): string {
+  const pattern = /(`+)([\s\S]*?[^`])\1(?!`)|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_(?!\w)|~~(.+?)~~|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+  return text.replace(pattern, (match, _ticks, code, bold, boldAlt, italic, italicAlt, strike, label, url) => {
+    if (code !== undefined) return chalk.yellow(code.trim() || code);
+    if (bold !== undefined || boldAlt !== undefined) return chalk.bold(renderInline(bold ?? boldAlt));
+    if (italic !== undefined || italicAlt !== undefined) return chalk.italic(renderInline(italic ?? italicAlt));
+    if (strike !== undefined) return chalk.strikethrough(renderInline(strike));
+    if (label !== undefined) {
+      const rendered = chalk.blue.underline(renderInline(label));
+      return label === url ? rendered : `${rendered} ${chalk.gray(`(${url})`)}`;
+    }
+    return match;
+  });
+}
+
+/** Wraps to the width, keeping the line's own indentation on every part */
+export function wrapLine(text: string, width: number): string[] {
+  const indent = text.match(/^[ \t]*/)![0];
+  return wrapAnsi(text.slice(indent.length), Math.max(width - indent.length, 10), { hard: true })
+    .split('\n')
+    .map(line => indent + line);
+}
+
+function splitRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/** Lays a table out in columns, or keeps it as written when it does not fit */
+function renderTable(lines: string[], width: number): string[] {
+  const [header, divider, ...body] = lines;
+  const alignments = splitRow(divider).map(cell =>
+    cell.endsWith(':') ? (cell.startsWith(':') ? 'center' : 'right') : 'left');
+  const rows = [splitRow(header), ...body.map(splitRow)].map(row => row.map(renderInline));
+  const columns = Math.max(...rows.map(row => row.length));
+  const widths = Array.from({ length: columns }, (_, column) =>
+    Math.max(3, ...rows.map(row => stripAnsi(row[column] || '').length)));
+
+  if (widths.reduce((sum, columnWidth) => sum + columnWidth, 0) + (columns - 1) * 3 > width) {
+    return lines.flatMap(line => wrapLine(line, width));
+  }
+
+  const pad = (cell: string, column: number): string => {
+    const space = widths[column] - stripAnsi(cell).length;
+    if (alignments[column] === 'right') return ' '.repeat(space) + cell;
+    if (alignments[column] === 'center') {
+      return ' '.repeat(Math.floor(space / 2)) + cell + ' '.repeat(Math.ceil(space / 2));
+    }
+    return cell + ' '.repeat(space);
+  };
+  const formatRow = (row: string[]): string =>
+    widths.map((_, column) => pad(row[column] || '', column)).join(chalk.gray(' │ ')).trimEnd();
+
+  return [
+    formatRow(rows[0].map(cell => chalk.bold(cell))),
+    chalk.gray(widths.map(columnWidth => '─'.repeat(columnWidth)).join('─┼─')),
+    ...rows.slice(1).map(formatRow),
+  ];
+}
+
+/**
+ * Renders markdown for the terminal: headings, emphasis, lists, quotes,
+ * tables, rules and fenced code highlighted by language. Line breaks are kept
+ * as the model wrote them and prose is wrapped to `width`. Code blocks are
+ * printed as they are, without indentation or wrapping, so they copy cleanly.
+ * An unclosed fence, as while a reply streams in, runs to the end.
+ */
+export function renderMarkdown(markdown: string, options: MarkdownOptions = {}): string {
+  const width = options.width || process.stdout.columns || 80;
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const output: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, marker, language] = fence;
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !(lines[index].trim().startsWith(marker) && lines[index].trim().replace(/[`~]/g, '') === '')) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++;
+      if (language) output.push(chalk.gray(language));
+      output.push(...highlightCode(code.join('\n'), language).split('\n'));
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const style = heading[1].length <= 2 ? chalk.bold.cyan : chalk.bold;
+      output.push(...wrapLine(style(renderInline(heading[2])), width));
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      output.push(chalk.gray('─'.repeat(Math.min(width, 40))));
+      index++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(lines[index].match(QUOTE)![1]);
+        index++;
+      }
+      const rendered = renderMarkdown(quoted.join('\n'), { width: width - 2 });
+      output.push(...rendered.split('\n').map(quotedLine => `${chalk.gray('│')} ${chalk.italic(quotedLine)}`));
+      continue;
+    }
+
+    if (line.includes('|') && index + 1 < lines.length && TABLE_DIVIDER.test(lines[index + 1]) && lines[index + 1].includes('-')) {
+      const table = [line, lines[index + 1]];
+      index += 2;
+      while (index < lines.length && lines[index].includes('|') && lines[index].trim()) {
+        table.push(lines[index]);
+        index++;
+      }
+      output.push(...renderTable(table, width));
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const [, indent, marker, text] = item;
+      const depth = Math.floor(indent.replace(/\t/g, '  ').length / 2);
+      const bullet = /\d/.test(marker) ? marker : '•';
+      const task = text.match(/^\[([ xX])\]\s+(.*)$/);
+      const content = task ? `${task[1] === ' ' ? '☐' : chalk.green('☑')} ${task[2]}` : text;
+
+      const prefix = `${'  '.repeat(depth)}${bullet} `;
+      const [first, ...rest] = wrapLine(renderInline(content), width - prefix.length);
+      output.push(`${'  '.repeat(depth)}${chalk.gray(bullet)} ${first}`, ...rest.map(continued => ' '.repeat(prefix.length) + continued));
+      index++;
+      continue;
+    }
+
+    if (!line.trim()) {
+      // One blank line between blocks, however many were written
+      if (output.length && output[output.length - 1] !== '') output.push('');
+      index++;
+      continue;
+    }
+
+    output.push(...wrapLine(renderInline(line), width));
+    index++;
+  }
+
+  while (output[output.length - 1] === '') output.pop();
+  return output.join('\n');
+}
@@ -0,0 +1,142 @@
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { diagnostics } from './diagnostics.js';
+import { ModelInfo, ModelOverride, ModelRegistry, modelRegistry } from './modelRegistry.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CachedCatalog {
+  provider: string;
+  /** API the list was fetched from, so a cache for another endpoint is not reused */
+  source: string;
+  fetchedAt: string;
+  models: ModelOverride[];
+}
+
+/** Where the models last returned for a provider came from */
+export interface CatalogStatus {
+  origin: 'api' | 'cache' | 'stale-cache' | 'builtin';
+  fetchedAt?: string;
+  error?: string;
+}
+
+export interface ModelCatalogOptions {
+  registry?: ModelRegistry;
+  cacheDir?: string;
+  /** How long a fetched list is used before asking the API again */
+  maxAgeMs?: number;
+}
+
+/**
+ * Model lists fetched from provider APIs, cached on disk in
+ * `~/.feral-code/cache`. Fetched models are added to the model registry, so
+ * their context lengths and prices are used by the conversation engine and
+ * the cost tracker. When the API cannot be reached an older cache is used,
+ * and without one providers fall back to their built-in list.
+ */
+export class ModelCatalog {
+  private registry: ModelRegistry;
+  private cacheDir: string;
+  private maxAgeMs: number;
+  private pending: Map<string, Promise<ModelInfo[] | undefined>> = new Map();
+  private statuses: Map<string, CatalogStatus> = new Map();
+
+  constructor(options: ModelCatalogOptions = {}) {
+    this.registry = options.registry || modelRegistry;
+    this.cacheDir = options.cacheDir || join(homedir(), '.feral-code', 'cache');
+    this.maxAgeMs = options.maxAgeMs ?? DAY_MS;
+  }
+
+  /**
+   * Returns the provider's models, fetching them with `fetchModels` unless a
+   * fresh cache exists. Resolves to undefined when neither the API nor a cache
+   * has them. Concurrent and repeated calls share one lookup per process.
+   */
+  getModels(provider: string, source: string, fetchModels: () => Promise<ModelOverride[]>): Promise<ModelInfo[] | undefined> {
+    const id = `${provider}:${source}`;
+    if (!this.pending.has(id)) {
+      this.pending.set(id, this.load(provider, source, fetchModels));
+    }
+    return this.pending.get(id)!;
+  }
+
+  /**
+   * Adds cached models to the registry without going to the network, so
+   * prices fetched earlier are used from the start of a session.
+   */
+  applyCached(provider: string, source: string): void {
+    const cached = this.readCache(provider, source);
+    if (cached) {
+      this.registry.discover(cached.models);
+    }
+  }
+
+  /** Forgets the provider's cached list so the next lookup asks the API */
+  invalidate(provider: string): void {
+    for (const id of this.pending.keys()) {
+      if (id.startsWith(`${provider}:`)) this.pending.delete(id);
+    }
+    rmSync(this.getPath(provider), { force: true });
+  }
+
+  getStatus(provider: string): CatalogStatus | undefined {
+    return this.statuses.get(provider);
+  }
+
+  private async load(provider: string, source: string, fetchModels: () => Promise<ModelOverride[]>): Promise<ModelInfo[] | undefined> {
+    const cached = this.readCache(provider, source);
+    if (cached && Date.now() - Date.parse(cached.fetchedAt) < this.maxAgeMs) {
+      this.statuses.set(provider, { origin: 'cache', fetchedAt: cached.fetchedAt });
+      return this.resolve(cached.models);
+    }
+
+    try {
+      const models = await fetchModels();
+      const fetchedAt = new Date().toISOString();
+      this.writeCache({ provider, source, fetchedAt, models });
+      this.statuses.set(provider, { origin: 'api', fetchedAt });
+      return this.resolve(models);
+    } catch (error) {
+      const message = (error as Error).message;
+      await diagnostics.warn('provider', `Could not fetch the ${provider} model list`, { source, error: message });
+
+      if (cached) {
+        this.statuses.set(provider, { origin: 'stale-cache', fetchedAt: cached.fetchedAt, error: message });
+        return this.resolve(cached.models);
+      }
+      this.statuses.set(provider, { origin: 'builtin', error: message });
+      return undefined;
+    }
+  }
+
+  private resolve(models: ModelOverride[]): ModelInfo[] {
+    this.registry.discover(models);
+    return models.map(model => this.registry.get(model.provider, model.id));
+  }
+
+  private readCache(provider: string, source: string): CachedCatalog | undefined {
+    try {
+      const cached = JSON.parse(readFileSync(this.getPath(provider), 'utf-8')) as CachedCatalog;
+      return cached.source === source && Array.isArray(cached.models) ? cached : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeCache(catalog: CachedCatalog): void {
+    try {
+      mkdirSync(this.cacheDir, { recursive: true });
+      writeFileSync(this.getPath(catalog.provider), JSON.stringify(catalog));
+    } catch (error) {
+      // Only costs a refetch next time
+      diagnostics.warn('provider', `Could not cache the ${catalog.provider} model list`, { error: (error as Error).message });
+    }
+  }
+
+  private getPath(provider: string): string {
+    return join(this.cacheDir, `models-${provider}.json`);
+  }
+}
+
+export const modelCatalog = new ModelCatalog();
@@ -0,0 +1,254 @@
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { diagnostics } from './diagnostics.js';
+
+export interface ModelInfo {
+  provider: string;
+  id: string;
+  /** Tokens the model accepts, prompt and reply together */
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsTools: boolean;
+  supportsVision: boolean;
+  supportsStreaming: boolean;
+  /** USD per 1k tokens */
+  inputCostPer1kTokens: number;
+  outputCostPer1kTokens: number;
+}
+
+/** An override from a models.json file; only `provider` and `id` are required */
+export type ModelOverride = Partial<ModelInfo> & Pick<ModelInfo, 'provider' | 'id'>;
+
+type ModelDefaults = Omit<ModelInfo, 'provider' | 'id'>;
+
+// Assumed for models nobody has described, and no cost. Current hosted models take at
+// least 128k tokens; guessing lower would compact every conversation and cut replies short.
+const DEFAULT_MODEL_INFO: ModelDefaults = {
+  contextWindow: 128000,
+  maxOutputTokens: 4096,
+  supportsTools: true,
+  supportsVision: false,
+  supportsStreaming: true,
+  inputCostPer1kTokens: 0,
+  outputCostPer1kTokens: 0,
+};
+
+// Defaults for providers whose models are not listed, such as local servers
+const PROVIDER_DEFAULTS: Record<string, Partial<ModelDefaults>> = {
+  ollama: { contextWindow: 8192 },
+  'openai-compatible': { contextWindow: 8192 },
+};
+
+function model(provider: string, id: string, info: Partial<ModelDefaults>): ModelInfo {
+  return { provider, id, ...DEFAULT_MODEL_INFO, ...info };
+}
+
+// Published limits and prices (USD per 1k tokens) - updated as of 2024
+const BUILTIN_MODELS: ModelInfo[] = [
+  model('openai', 'gpt-4-turbo-preview', { contextWindow: 128000, maxOutputTokens: 4096, inputCostPer1kTokens: 0.01, outputCostPer1kTokens: 0.03 }),
+  model('openai', 'gpt-4-turbo', { contextWindow: 128000, maxOutputTokens: 4096, supportsVision: true, inputCostPer1kTokens: 0.01, outputCostPer1kTokens: 0.03 }),
+  model('openai', 'gpt-4o', { contextWindow: 128000, maxOutputTokens: 16384, supportsVision: true, inputCostPer1kTokens: 0.005, outputCostPer1kTokens: 0.015 }),
+  model('openai', 'gpt-4o-mini', { contextWindow: 128000, maxOutputTokens: 16384, supportsVision: true, inputCostPer1kTokens: 0.00015, outputCostPer1kTokens: 0.0006 }),
+  model('openai', 'gpt-4', { contextWindow: 8192, maxOutputTokens: 8192, inputCostPer1kTokens: 0.03, outputCostPer1kTokens: 0.06 }),
+  model('openai', 'gpt-4-32k', { contextWindow: 32768, maxOutputTokens: 8192, inputCostPer1kTokens: 0.06, outputCostPer1kTokens: 0.12 }),
+  model('openai', 'gpt-3.5-turbo', { contextWindow: 16385, maxOutputTokens: 4096, inputCostPer1kTokens: 0.0005, outputCostPer1kTokens: 0.0015 }),
+  model('openai', 'gpt-3.5-turbo-16k', { contextWindow: 16385, maxOutputTokens: 4096, inputCostPer1kTokens: 0.003, outputCostPer1kTokens: 0.004 }),
+
+  model('openrouter', 'openai/gpt-4-turbo-preview', { contextWindow: 128000, maxOutputTokens: 4096, inputCostPer1kTokens: 0.01, outputCostPer1kTokens: 0.03 }),
+  model('openrouter', 'openai/gpt-4o', { contextWindow: 128000, maxOutputTokens: 16384, supportsVision: true, inputCostPer1kTokens: 0.005, outputCostPer1kTokens: 0.015 }),
+  model('openrouter', 'openai/gpt-4o-mini', { contextWindow: 128000, maxOutputTokens: 16384, supportsVision: true, inputCostPer1kTokens: 0.00015, outputCostPer1kTokens: 0.0006 }),
+  model('openrouter', 'openai/gpt-4', { contextWindow: 8191, maxOutputTokens: 4096, inputCostPer1kTokens: 0.03, outputCostPer1kTokens: 0.06 }),
+  model('openrouter', 'openai/gpt-3.5-turbo', { contextWindow: 16385, maxOutputTokens: 4096, inputCostPer1kTokens: 0.0005, outputCostPer1kTokens: 0.0015 }),
+  model('openrouter', 'anthropic/claude-3.5-sonnet', { contextWindow: 200000, maxOutputTokens: 8192, supportsVision: true, inputCostPer1kTokens: 0.003, outputCostPer1kTokens: 0.015 }),
+  model('openrouter', 'anthropic/claude-3-haiku', { contextWindow: 200000, maxOutputTokens: 4096, supportsVision: true, inputCostPer1kTokens: 0.00025, outputCostPer1kTokens: 0.00125 }),
+  model('openrouter', 'meta-llama/llama-3.1-405b-instruct', { contextWindow: 131072, maxOutputTokens: 4096, inputCostPer1kTokens: 0.0027, outputCostPer1kTokens: 0.0027 }),
+  model('openrouter', 'meta-llama/llama-3.1-70b-instruct', { contextWindow: 131072, maxOutputTokens: 4096, inputCostPer1kTokens: 0.0009, outputCostPer1kTokens: 0.0009 }),
+  model('openrouter', 'meta-llama/llama-3.1-8b-instruct:free', { contextWindow: 131072, maxOutputTokens: 4096, supportsTools: false }),
+  model('openrouter', 'google/gemini-pro-1.5', { contextWindow: 2000000, maxOutputTokens: 8192, supportsVision: true, inputCostPer1kTokens: 0.00125, outputCostPer1kTokens: 0.005 }),
+  model('openrouter', 'google/gemini-flash-1.5', { contextWindow: 1000000, maxOutputTokens: 8192, supportsVision: true, inputCostPer1kTokens: 0.000075, outputCostPer1kTokens: 0.0003 }),
+  model('openrouter', 'mistralai/mistral-large', { contextWindow: 128000, maxOutputTokens: 4096, inputCostPer1kTokens: 0.003, outputCostPer1kTokens: 0.009 }),
+  model('openrouter', 'microsoft/wizardlm-2-8x22b', { contextWindow: 65536, maxOutputTokens: 4096, supportsTools: false, inputCostPer1kTokens: 0.0005, outputCostPer1kTokens: 0.0005 }),
+  model('openrouter', 'cohere/command-r-plus', { contextWindow: 128000, maxOutputTokens: 4000, inputCostPer1kTokens: 0.0025, outputCostPer1kTokens: 0.01 }),
+
+  model('anthropic', 'claude-3-5-sonnet-20241022', { contextWindow: 200000, maxOutputTokens: 8192, supportsVision: true, inputCostPer1kTokens: 0.003, outputCostPer1kTokens: 0.015 }),
+  model('anthropic', 'claude-3-5-haiku-20241022', { contextWindow: 200000, maxOutputTokens: 8192, inputCostPer1kTokens: 0.001, outputCostPer1kTokens: 0.005 }),
+  model('anthropic', 'claude-3-opus-20240229', { contextWindow: 200000, maxOutputTokens: 4096, supportsVision: true, inputCostPer1kTokens: 0.015, outputCostPer1kTokens: 0.075 }),
+  model('anthropic', 'claude-3-sonnet-20240229', { contextWindow: 200000, maxOutputTokens: 4096, supportsVision: true, inputCostPer1kTokens: 0.003, outputCostPer1kTokens: 0.015 }),
+  model('anthropic', 'claude-3-haiku-20240307', { contextWindow: 200000, maxOutputTokens: 4096, supportsVision: true, inputCostPer1kTokens: 0.00025, outputCostPer1kTokens: 0.00125 }),
+
+  model('gemini', 'gemini-1.5-pro', { contextWindow: 2097152, maxOutputTokens: 8192, supportsVision: true, inputCostPer1kTokens: 0.00125, outputCostPer1kTokens: 0.005 }),
+  model('gemini', 'gemini-1.5-flash', { contextWindow: 1048576, maxOutputTokens: 8192, supportsVision: true, inputCostPer1kTokens: 0.000075, outputCostPer1kTokens: 0.0003 }),
+  model('gemini', 'gemini-1.5-flash-8b', { contextWindow: 1048576, maxOutputTokens: 8192, supportsVision: true, inputCostPer1kTokens: 0.0000375, outputCostPer1kTokens: 0.00015 }),
+  model('gemini', 'gemini-2.0-flash', { contextWindow: 1048576, maxOutputTokens: 8192, supportsVision: true, inputCostPer1kTokens: 0.0001, outputCostPer1kTokens: 0.0004 }),
+];
+
+export interface ModelRegistryOptions {
+  /** models.json files to apply in order; later files win */
+  overridePaths?: string[];
+}
+
+/**
+ * What is known about each model: context window, output limit, feature
+ * support and prices. Built-in entries can be changed or extended by
+ * `models.json` files in `~/.feral-code` and the project's `.feral-code`
+ * directory, each holding an array of entries with a `provider`, an `id` and
+ * the fields to set. Overrides are read the first time the registry is used.
+ */
+export class ModelRegistry {
+  private models: Map<string, ModelInfo> = new Map();
+  private overrides: Map<string, ModelOverride> = new Map();
+  private overridePaths: string[];
+  private isLoaded = false;
+
+  constructor(options: ModelRegistryOptions = {}) {
+    this.overridePaths = options.overridePaths || [
+      join(homedir(), '.feral-code', 'models.json'),
+      join(process.cwd(), '.feral-code', 'models.json'),
+    ];
+    BUILTIN_MODELS.forEach(info => this.models.set(key(info.provider, info.id), info));
+  }
+
+  /** Adds a model or changes fields of a known one */
+  register(override: ModelOverride): ModelInfo {
+    const provider = override.provider.toLowerCase();
+    const existing = this.models.get(key(provider, override.id));
+    const info = { ...this.getDefaults(provider), ...existing, ...override, provider };
+    this.models.set(key(provider, override.id), info);
+    return info;
+  }
+
+  /**
+   * Records models reported by a provider's API. A model that is not known
+   * yet starts from its closest match, so a dated snapshot keeps the limits of
+   * its family, and entries from models.json still take precedence.
+   */
+  discover(models: ModelOverride[]): void {
+    this.ensureLoaded();
+
+    for (const info of models) {
+      const id = key(info.provider, info.id);
+      // APIs leave out what they do not know, which must not clear known values
+      const known = Object.fromEntries(Object.entries(info).filter(([, value]) => value !== undefined)) as ModelOverride;
+      this.register({ ...(this.models.has(id) ? {} : this.get(info.provider, info.id)), ...known, ...this.overrides.get(id) });
+    }
+  }
+
+  /**
+   * Looks a model up by exact id, then as a dated or suffixed variant of a
+   * known id (the longest, such as `gpt-4o` for `gpt-4o-2024-08-06`), then by
+   * a known variant of it. Other ids sharing a prefix, such as `gpt-4.1`, are
+   * different models and are not matched.
+   */
+  find(provider: string, modelId: string): ModelInfo | undefined {
+    this.ensureLoaded();
+    const models = this.list(provider);
+    const id = modelId.toLowerCase();
+
+    return models.find(info => info.id.toLowerCase() === id)
+      || models
+        .filter(info => id.startsWith(`${info.id.toLowerCase()}-`))
+        .sort((a, b) => b.id.length - a.id.length)[0]
+      || models.find(info => info.id.toLowerCase().startsWith(`${id}-`));
+  }
+
+  /** Like `find`, but falls back to the provider's defaults for unknown models */
+  get(provider: string, modelId: string): ModelInfo {
+    return this.find(provider, modelId) || { provider: provider.toLowerCase(), id: modelId, ...this.getDefaults(provider) };
+  }
+
+  /** Entries from models.json files, including models the provider does not list */
+  listOverrides(provider?: string): ModelOverride[] {
+    this.ensureLoaded();
+    const overrides = Array.from(this.overrides.values());
+    return provider ? overrides.filter(info => info.provider.toLowerCase() === provider.toLowerCase()) : overrides;
+  }
+
+  list(provider?: string): ModelInfo[] {
+    this.ensureLoaded();
+    const models = Array.from(this.models.values());
+    return provider ? models.filter(info => info.provider === provider.toLowerCase()) : models;
+  }
+
+  /** Whether models of the provider fall back to known defaults rather than the generic guess */
+  hasProviderDefaults(provider: string): boolean {
+    return provider.toLowerCase() in PROVIDER_DEFAULTS;
+  }
+
+  getDefaults(provider: string): ModelDefaults {
+    return { ...DEFAULT_MODEL_INFO, ...PROVIDER_DEFAULTS[provider.toLowerCase()] };
+  }
+
+  private ensureLoaded(): void {
+    if (this.isLoaded) return;
+    this.isLoaded = true;
+
+    for (const path of this.overridePaths) {
+      let overrides: unknown;
+      try {
+        overrides = JSON.parse(readFileSync(path, 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          diagnostics.warn('system', `Ignoring invalid model overrides in ${path}`, { error: (error as Error).message });
+        }
+        continue;
+      }
+
+      if (!Array.isArray(overrides)) {
+        diagnostics.warn('system', `Ignoring model overrides in ${path}: expected an array of models`);
+        continue;
+      }
+
+      for (const override of overrides) {
+        if (typeof override?.provider === 'string' && typeof override?.id === 'string') {
+          const id = key(override.provider, override.id);
+          this.overrides.set(id, { ...this.overrides.get(id), ...override });
+          this.register(override);
+        } else {
+          diagnostics.warn('system', `Ignoring model override without a provider and id in ${path}`, { override });
+        }
+      }
+    }
+  }
+}
+
+function key(provider: string, id: string): string {
+  return `${provider.toLowerCase()}:${id}`;
+}
+
+export const modelRegistry = new ModelRegistry();
+
+/**
+ * Lays models out as a table for `feral-code models`, one line per model
+ * with the default marked by `*`. Prices are shown per million tokens.
+ */
+export function formatModelTable(models: ModelInfo[], defaultModel?: string): string[] {
+  const rows = models.map(info => [
+    `${info.id === defaultModel ? '* ' : '  '}${info.id}`,
+    formatTokens(info.contextWindow),
+    formatTokens(info.maxOutputTokens),
+    info.supportsTools ? 'yes' : 'no',
+    info.supportsVision ? 'yes' : 'no',
+    info.supportsStreaming ? 'yes' : 'no',
+    formatPrice(info.inputCostPer1kTokens),
+    formatPrice(info.outputCostPer1kTokens),
+  ]);
+  const header = ['  Model', 'Context', 'Output', 'Tools', 'Vision', 'Stream', 'Input $/1M', 'Output $/1M'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+
+  // Text columns are left-aligned, numbers right-aligned
+  return [header, ...rows].map(row => row
+    .map((cell, column) => column === 0 || (column >= 3 && column <= 5) ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+    .join('  ')
+    .trimEnd());
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1000000) return `${+(tokens / 1000000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}K`;
+  return String(tokens);
+}
+
+function formatPrice(costPer1k: number): string {
+  return costPer1k === 0 ? 'free' : `$${+(costPer1k * 1000).toFixed(4)}`;
+}
@@ -0,0 +1,445 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { diagnostics } from './diagnostics.js';
+import { getToolDiff, readPreviousContent, summarizeToolCall } from './toolDisplay.js';
+import { Config, DiffLine } from '../types/index.js';
+
+export type PermissionDecision = 'allow_once' | 'allow_session' | 'allow_always' | 'deny';
+
+/**
+ * How tool calls that need approval are answered when nobody is there to
+ * ask, e.g. in `--print` runs.
+ */
+export type HeadlessPermissionPolicy = 'deny' | 'accept-edits' | 'allow';
+
+export interface PermissionRequest {
+  toolName: string;
+  params: Record<string, any>;
+  /** One-line description of what the tool is about to do */
+  summary: string;
+  /** Pattern offered for "always allow", e.g. `Bash(npm test:*)` */
+  pattern: string;
+  /** For file edits, the change against the file as it is now */
+  diff?: DiffLine[];
+}
+
+export interface PermissionResult {
+  allowed: boolean;
+  reason?: string;
+}
+
+export type PermissionPrompter = (request: PermissionRequest) => Promise<PermissionDecision>;
+
+export const PERMISSION_CHOICES: Array<{ decision: PermissionDecision; label: string }> = [
+  { decision: 'allow_once', label: 'Allow once' },
+  { decision: 'allow_session', label: 'Allow for this session' },
+  { decision: 'allow_always', label: 'Always allow' },
+  { decision: 'deny', label: 'Deny' },
+];
+
+const MUTATING_TOOLS = new Set(['Bash', 'Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
+const EDIT_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
+
+export type PermissionBehavior = 'allow' | 'deny' | 'ask';
+export type PermissionRuleSource = 'user' | 'project' | 'environment';
+
+export interface PermissionRule {
+  behavior: PermissionBehavior;
+  /** `Tool` or `Tool(specifier)`, e.g. `Bash(npm test:*)` or `Edit(src/**)` */
+  pattern: string;
+  source: PermissionRuleSource;
+}
+
+interface PolicyFile {
+  allow?: string[];
+  deny?: string[];
+  ask?: string[];
+}
+
+const BEHAVIORS: PermissionBehavior[] = ['deny', 'ask', 'allow'];
+
+/**
+ * Allow/deny/ask rules from the user policy file
+ * (`~/.feral-code/permissions.json`), the project policy file
+ * (`.feral-code/permissions.json`, deny and ask only) and the tool lists in
+ * the environment.
+ * When several rules match a call, deny wins over ask, and ask over allow.
+ */
+export class PermissionPolicy {
+  private rules: PermissionRule[] = [];
+  private paths: Record<'user' | 'project', string>;
+  private config?: Config;
+  private isLoaded = false;
+  errors: string[] = [];
+
+  constructor(options: { userPath?: string; projectPath?: string; config?: Config } = {}) {
+    this.paths = {
+      user: options.userPath || join(homedir(), '.feral-code', 'permissions.json'),
+      project: options.projectPath || join(process.cwd(), '.feral-code', 'permissions.json'),
+    };
+    this.config = options.config;
+  }
+
+  getPath(source: 'user' | 'project'): string {
+    return this.paths[source];
+  }
+
+  async load(): Promise<void> {
+    const rules: PermissionRule[] = [];
+    this.errors = [];
+
+    for (const source of ['project', 'user'] as const) {
+      const file = await this.readPolicyFile(source);
+      if (source === 'project' && file.allow?.length) {
+        // A cloned repository may tighten the rules, never loosen them
+        this.errors.push(`${this.paths.project}: allow rules belong in ${this.paths.user}, not in the project file`);
+        delete file.allow;
+      }
+      for (const behavior of BEHAVIORS) {
+        for (const pattern of file[behavior] || []) {
+          rules.push({ behavior, pattern, source });
+        }
+      }
+    }
+
+    for (const pattern of this.config?.disallowedTools || []) {
+      rules.push({ behavior: 'deny', pattern, source: 'environment' });
+    }
+    for (const pattern of this.config?.allowedTools || []) {
+      rules.push({ behavior: 'allow', pattern, source: 'environment' });
+    }
+
+    this.rules = rules;
+    this.isLoaded = true;
+  }
+
+  async ensureLoaded(): Promise<void> {
+    if (!this.isLoaded) {
+      await this.load();
+    }
+  }
+
+  getRules(): PermissionRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Returns the rule that decides a tool call, if any. Deny rules take
+   * precedence over ask rules, which take precedence over allow rules.
+   */
+  evaluate(toolName: string, params: Record<string, any>): PermissionRule | undefined {
+    // Deny and ask rules also apply to each command of a compound command
+    const calls = [params, ...getCommandCalls(toolName, params)];
+    for (const behavior of ['deny', 'ask'] as const) {
+      const rule = this.rules.find(candidate =>
+        candidate.behavior === behavior && calls.some(call => matchesPermissionPattern(candidate.pattern, toolName, call)));
+      if (rule) return rule;
+    }
+
+    const allowRules = this.rules.filter(rule => rule.behavior === 'allow');
+    const pattern = findAllowingPattern(allowRules.map(rule => rule.pattern), toolName, params);
+    return allowRules.find(rule => rule.pattern === pattern);
+  }
+
+  /** Whether the tool is denied outright, regardless of its arguments */
+  isToolDenied(toolName: string): boolean {
+    return this.rules.some(rule => {
+      const parsed = parsePattern(rule.pattern);
+      return rule.behavior === 'deny' && parsed?.toolName === toolName && parsed.specifier === undefined;
+    });
+  }
+
+  async addRule(behavior: PermissionBehavior, pattern: string, source: 'user' | 'project'): Promise<void> {
+    if (source === 'project' && behavior === 'allow') {
+      throw new Error('Allow rules can only be added to the user rules file');
+    }
+    await this.ensureLoaded();
+    if (this.rules.some(rule => rule.behavior === behavior && rule.pattern === pattern && rule.source === source)) {
+      return;
+    }
+
+    this.rules.push({ behavior, pattern, source });
+
+    const file = await this.readPolicyFile(source);
+    file[behavior] = [...(file[behavior] || []), pattern];
+
+    try {
+      await mkdir(dirname(this.paths[source]), { recursive: true });
+      await writeFile(this.paths[source], JSON.stringify(file, null, 2), 'utf-8');
+    } catch (error) {
+      await diagnostics.error('permission', `Failed to save ${source} permission rules`, error as Error);
+    }
+  }
+
+  private async readPolicyFile(source: 'user' | 'project'): Promise<PolicyFile> {
+    let content: string;
+    try {
+      content = await readFile(this.paths[source], 'utf-8');
+    } catch (error) {
+      // No policy file at this level
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(content);
+      const file: PolicyFile = {};
+      for (const behavior of BEHAVIORS) {
+        if (parsed[behavior] !== undefined) {
+          if (!Array.isArray(parsed[behavior]) || !parsed[behavior].every((item: unknown) => typeof item === 'string')) {
+            throw new Error(`"${behavior}" must be an array of strings`);
+          }
+          file[behavior] = parsed[behavior];
+        }
+      }
+      return file;
+    } catch (error) {
+      this.errors.push(`${this.paths[source]}: ${(error as Error).message}`);
+      return {};
+    }
+  }
+}
+
+export class PermissionManager {
+  private prompter?: PermissionPrompter;
+  private policy: PermissionPolicy;
+  // Patterns approved with "allow for this session"
+  private sessionAllowed: Set<string> = new Set();
+
+  constructor(options: { prompter?: PermissionPrompter; policy?: PermissionPolicy } = {}) {
+    this.prompter = options.prompter;
+    this.policy = options.policy || new PermissionPolicy();
+  }
+
+  setPrompter(prompter: PermissionPrompter | undefined): void {
+    this.prompter = prompter;
+  }
+
+  getPolicy(): PermissionPolicy {
+    return this.policy;
+  }
+
+  requiresApproval(toolName: string): boolean {
+    return MUTATING_TOOLS.has(toolName);
+  }
+
+  /**
+   * Decides whether a tool call may run. Matching policy rules decide
+   * first; otherwise mutating tools ask the prompter unless an earlier
+   * answer covers the call.
+   */
+  async check(toolName: string, params: Record<string, any>): Promise<PermissionResult> {
+    await this.policy.ensureLoaded();
+    const rule = this.policy.evaluate(toolName, params);
+
+    if (rule?.behavior === 'deny') {
+      return { allowed: false, reason: `${toolName} is denied by rule ${rule.pattern} (${rule.source})` };
+    }
+    if (rule?.behavior === 'allow') {
+      return { allowed: true };
+    }
+    if (rule?.behavior !== 'ask'
+      && (!this.requiresApproval(toolName) || findAllowingPattern([...this.sessionAllowed], toolName, params) !== undefined)) {
+      return { allowed: true };
+    }
+
+    const request: PermissionRequest = {
+      toolName,
+      params,
+      summary: summarizeToolCall(toolName, params, Infinity),
+      pattern: getPermissionPattern(toolName, params),
+      diff: getToolDiff(toolName, params, await readPreviousContent(toolName, params)),
+    };
+
+    if (!this.prompter) {
+      return { allowed: false, reason: `Permission required to run ${toolName} but no one is available to approve it` };
+    }
+
+    const decision = await this.prompter(request);
+    await diagnostics.info('permission', `${toolName}: ${decision}`, {
+      toolName,
+      summary: request.summary,
+      pattern: request.pattern,
+    });
+
+    switch (decision) {
+      case 'allow_session':
+        this.sessionAllowed.add(request.pattern);
+        return { allowed: true };
+      case 'allow_always':
+        await this.policy.addRule('allow', request.pattern, 'user');
+        return { allowed: true };
+      case 'allow_once':
+        return { allowed: true };
+      default:
+        return { allowed: false, reason: `Permission denied for ${toolName}: ${request.summary}` };
+    }
+  }
+}
+
+/**
+ * Answers permission requests without user interaction according to a
+ * headless policy.
+ */
+export function createHeadlessPrompter(policy: HeadlessPermissionPolicy): PermissionPrompter {
+  return async (request) => {
+    if (policy === 'allow') return 'allow_once';
+    if (policy === 'accept-edits' && EDIT_TOOLS.has(request.toolName)) return 'allow_once';
+    return 'deny';
+  };
+}
+
+/**
+ * Splits a command line into the commands joined by `&&`, `||`, `;`, `|`,
+ * `&` or newlines, and the commands inside `$(...)`, backticks and
+ * subshells. Quoted text is left whole. `substitution` tells whether the
+ * output of one command becomes part of another.
+ */
+export function splitShellCommand(command: string): { commands: string[]; substitution: boolean } {
+  const commands: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+  let substitution = false;
+
+  const split = (): void => {
+    commands.push(current);
+    current = '';
+  };
+
+  for (let index = 0; index < command.length; index++) {
+    const char = command[index];
+    const next = command[index + 1];
+
+    if (quote === "'") {
+      current += char;
+      if (char === "'") quote = undefined;
+    } else if (char === '\\') {
+      current += char + (next ?? '');
+      index++;
+    } else if (char === '`' || (char === '$' && next === '(') || (!quote && (char === '<' || char === '>') && next === '(')) {
+      substitution = true;
+      split();
+      if (char !== '`') index++;
+    } else if (quote === '"') {
+      current += char;
+      if (char === '"') quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ';' || char === '\n' || char === '(' || char === ')' || char === '|') {
+      split();
+      if (char === '|' && (next === '|' || next === '&')) index++;
+    } else if (char === '&' && next !== '>' && command[index - 1] !== '>' && command[index - 1] !== '<') {
+      // `2>&1` and `&>` are redirections, not separators
+      split();
+      if (next === '&') index++;
+    } else {
+      current += char;
+    }
+  }
+  split();
+
+  return { commands: commands.map(part => part.trim()).filter(Boolean), substitution };
+}
+
+/** The call once for each command of a compound Bash command */
+function getCommandCalls(toolName: string, params: Record<string, any>): Array<Record<string, any>> {
+  if (toolName !== 'Bash') return [];
+  const { commands } = splitShellCommand(String(params.command ?? ''));
+  return commands.length > 1 ? commands.map(command => ({ ...params, command })) : [];
+}
+
+/**
+ * The first pattern that allows a call. A compound command is allowed when
+ * the patterns allow each of its commands; commands using substitution only
+ * by a pattern for the whole command line or for all of Bash.
+ */
+function findAllowingPattern(patterns: string[], toolName: string, params: Record<string, any>): string | undefined {
+  const pattern = patterns.find(candidate => matchesPermissionPattern(candidate, toolName, params));
+  if (pattern !== undefined || toolName !== 'Bash') return pattern;
+
+  const { commands, substitution } = splitShellCommand(String(params.command ?? ''));
+  if (substitution || commands.length < 2) return undefined;
+  const allowing = commands.map(command => patterns.find(candidate => matchesPermissionPattern(candidate, toolName, { ...params, command })));
+  return allowing.every(candidate => candidate !== undefined) ? allowing[0] : undefined;
+}
+
+/**
+ * Builds the pattern offered for "always allow". Commands are matched by
+ * their leading words (`Bash(git status:*)`), file edits by directory
+ * (`Edit(/repo/src/**)`). A compound command is offered as it is, since a
+ * prefix pattern never matches one.
+ */
+export function getPermissionPattern(toolName: string, params: Record<string, any>): string {
+  if (toolName === 'Bash') {
+    const command = String(params.command ?? '').trim();
+    const { commands, substitution } = splitShellCommand(command);
+    if (substitution || commands.length > 1) {
+      return `Bash(${command})`;
+    }
+    const words = command.split(/\s+/);
+    const prefix = words.length > 1 && !words[1].startsWith('-') ? words.slice(0, 2) : words.slice(0, 1);
+    return `Bash(${prefix.join(' ')}:*)`;
+  }
+
+  const path = params.file_path ?? params.notebook_path;
+  if (typeof path === 'string') {
+    return `${toolName}(${dirname(resolve(path))}/**)`;
+  }
+
+  return toolName;
+}
+
+export function matchesPermissionPattern(pattern: string, toolName: string, params: Record<string, any>): boolean {
+  const parsed = parsePattern(pattern);
+  if (!parsed || parsed.toolName !== toolName) {
+    return false;
+  }
+
+  const { specifier } = parsed;
+  if (specifier === undefined || specifier === '*') {
+    return true;
+  }
+
+  if (toolName === 'Bash') {
+    const command = String(params.command ?? '').trim();
+    if (specifier.endsWith(':*')) {
+      // `npm test:*` must not cover `npm test && rm -rf ~`
+      const { commands, substitution } = splitShellCommand(command);
+      const prefix = specifier.slice(0, -2);
+      return !substitution && commands.length === 1 && (command === prefix || command.startsWith(`${prefix} `));
+    }
+    return command === specifier;
+  }
+
+  if (specifier.startsWith('domain:')) {
+    const domain = specifier.slice('domain:'.length).toLowerCase();
+    try {
+      const hostname = new URL(String(params.url)).hostname.toLowerCase();
+      return hostname === domain || hostname.endsWith(`.${domain}`);
+    } catch {
+      return false;
+    }
+  }
+
+  // Relative path patterns are anchored at the working directory unless they start with **
+  const path = params.file_path ?? params.notebook_path ?? params.path;
+  const glob = isAbsolute(specifier) || specifier.startsWith('**') ? specifier : resolve(specifier);
+  return typeof path === 'string' && globToRegExp(glob).test(resolve(path));
+}
+
+function parsePattern(pattern: string): { toolName: string; specifier?: string } | undefined {
+  const match = /^([^()]+)(?:\((.*)\))?$/.exec(pattern.trim());
+  return match ? { toolName: match[1].trim(), specifier: match[2] } : undefined;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map(part => part
+      .split('*')
+      .map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,85 @@
+import { diagnostics } from './diagnostics.js';
+import { toolSafety } from './toolSafety.js';
+
+export type PlanDecision =
+  | { action: 'approve' }
+  | { action: 'edit'; plan: string }
+  | { action: 'reject'; feedback: string };
+
+export type PlanReviewer = (plan: string) => Promise<PlanDecision>;
+
+export const PLAN_MODE_TOOL = 'ExitPlanMode';
+
+export const PLAN_MODE_PROMPT = `Plan mode is active. Investigate with the read-only tools and do not modify any files or run commands that change state.
+When your plan is ready, call the ${PLAN_MODE_TOOL} tool with the plan. Write tools become available only after the user approves it.`;
+
+/**
+ * Tracks whether the agent is in plan mode. While active only read-only
+ * tools and `ExitPlanMode` may run; the plan is handed to the reviewer and
+ * write tools are unlocked once it is approved.
+ */
+export class PlanMode {
+  private active: boolean;
+  private reviewer?: PlanReviewer;
+  private listeners: Set<(active: boolean) => void> = new Set();
+
+  constructor(active = false) {
+    this.active = active;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  setActive(active: boolean): void {
+    if (this.active === active) return;
+
+    this.active = active;
+    diagnostics.info('session', `Plan mode ${active ? 'enabled' : 'disabled'}`);
+    this.listeners.forEach(listener => listener(active));
+  }
+
+  toggle(): boolean {
+    this.setActive(!this.active);
+    return this.active;
+  }
+
+  /** Subscribes to plan mode changes; returns an unsubscribe function */
+  onChange(listener: (active: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  setReviewer(reviewer: PlanReviewer | undefined): void {
+    this.reviewer = reviewer;
+  }
+
+  hasReviewer(): boolean {
+    return !!this.reviewer;
+  }
+
+  isToolAllowed(toolName: string): boolean {
+    return !this.active || toolName === PLAN_MODE_TOOL || toolSafety.isReadOnlyTool(toolName);
+  }
+
+  /**
+   * Shows the plan to the reviewer and leaves plan mode unless it was
+   * rejected.
+   */
+  async review(plan: string): Promise<PlanDecision> {
+    if (!this.reviewer) {
+      throw new Error('No reviewer is available for the plan');
+    }
+
+    const decision = await this.reviewer(plan);
+    await diagnostics.info('session', `Plan ${decision.action === 'reject' ? 'rejected' : 'approved'}`, {
+      action: decision.action,
+    });
+
+    if (decision.action !== 'reject') {
+      this.setActive(false);
+    }
+
+    return decision;
+  }
+}
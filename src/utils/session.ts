@@ -2,6 +2,7 @@ import { readFile, writeFile, mkdir, readdir } from 'fs/promises';
 import { join, dirname } from 'path';
 import { homedir } from 'os';
 import { Message } from '../types/index.js';
+import { Compaction } from './contextManager.js';
 
 export interface Session {
   id: string;
@@ -12,6 +13,8 @@ export interface Session {
   provider: string;
   model?: string;
   metadata?: Record<string, any>;
+  /** Compactions in order; with `messages` they make up the whole conversation */
+  compactions?: Compaction[];
 }
 
 export class SessionManager {
@@ -52,7 +55,16 @@ export class SessionManager {
     return session;
   }
 
+  /** Reads a session and makes it the current one */
   async loadSession(sessionId: string): Promise<Session | null> {
+    const session = await this.readSession(sessionId);
+    if (session) {
+      this.currentSession = session;
+    }
+    return session;
+  }
+
+  private async readSession(sessionId: string): Promise<Session | null> {
     try {
       const sessionPath = join(this.sessionsDir, `${sessionId}.json`);
       const content = await readFile(sessionPath, 'utf-8');
@@ -62,7 +74,6 @@ export class SessionManager {
       session.created = new Date(session.created);
       session.updated = new Date(session.updated);
       
-      this.currentSession = session;
       return session;
     } catch (error) {
       return null;
@@ -86,7 +97,8 @@ export class SessionManager {
       for (const file of files) {
         if (file.endsWith('.json')) {
           const sessionId = file.replace('.json', '');
-          const session = await this.loadSession(sessionId);
+          // Listing must not change which session new messages go to
+          const session = await this.readSession(sessionId);
           if (session) {
             sessions.push(session);
           }
@@ -120,6 +132,27 @@ export class SessionManager {
     await this.saveSession(this.currentSession);
   }
 
+  /** Replaces the messages with changed copies, such as a message that was pinned */
+  async updateMessages(messages: Message[]): Promise<void> {
+    if (!this.currentSession) {
+      throw new Error('No active session');
+    }
+
+    this.currentSession.messages = [...messages];
+    await this.saveSession(this.currentSession);
+  }
+
+  /** Replaces the messages with their compacted form and records what was replaced */
+  async recordCompaction(compaction: Compaction, messages: Message[]): Promise<void> {
+    if (!this.currentSession) {
+      throw new Error('No active session');
+    }
+
+    this.currentSession.messages = [...messages];
+    this.currentSession.compactions = [...(this.currentSession.compactions || []), compaction];
+    await this.saveSession(this.currentSession);
+  }
+
   async updateSessionTitle(title: string): Promise<void> {
     if (!this.currentSession) {
       throw new Error('No active session');
@@ -129,13 +162,23 @@ export class SessionManager {
     await this.saveSession(this.currentSession);
   }
 
+  async updateMetadata(metadata: Record<string, any>): Promise<void> {
+    if (!this.currentSession) {
+      throw new Error('No active session');
+    }
+
+    this.currentSession.metadata = { ...this.currentSession.metadata, ...metadata };
+    await this.saveSession(this.currentSession);
+  }
+
   getCurrentSession(): Session | null {
     return this.currentSession;
   }
 
+  /** Resumes the most recently updated session, making it the current one */
   async getMostRecentSession(): Promise<Session | null> {
     const sessions = await this.listSessions();
-    return sessions.length > 0 ? sessions[0] : null;
+    return sessions.length > 0 ? this.loadSession(sessions[0].id) : null;
   }
 
   private generateSessionId(): string {
@@ -145,7 +188,7 @@ export class SessionManager {
   }
 
   async exportSession(sessionId: string, format: 'json' | 'markdown' = 'json'): Promise<string> {
-    const session = await this.loadSession(sessionId);
+    const session = await this.readSession(sessionId);
     if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
     }
@@ -181,6 +224,19 @@ export class SessionManager {
         lines.push('');
         lines.push(message.content);
         lines.push('');
+        for (const toolCall of message.toolCalls || []) {
+          lines.push(`**Tool call:** \`${toolCall.name}\` (${toolCall.id})`);
+          lines.push('```json');
+          lines.push(toolCall.arguments);
+          lines.push('```');
+        }
+      } else if (message.role === 'tool') {
+        lines.push(`## Tool Result: ${message.toolName}${message.isError ? ' (error)' : ''}`);
+        lines.push('');
+        lines.push('```');
+        lines.push(message.content);
+        lines.push('```');
+        lines.push('');
       } else if (message.role === 'system') {
         lines.push('## System');
         lines.push('');
@@ -189,6 +245,11 @@ export class SessionManager {
       }
     }
 
+    for (const compaction of session.compactions || []) {
+      lines.push(`## Compaction (${compaction.trigger}, ${new Date(compaction.at).toLocaleString()})`);
+      lines.push(`Summarized ${compaction.summarizedMessages} messages and trimmed ${compaction.trimmedToolOutputs} tool outputs: ~${compaction.tokensBefore} → ~${compaction.tokensAfter} tokens.`);
+    }
+
     return lines.filter(line => line !== '').join('\n');
   }
 }
\ No newline at end of file
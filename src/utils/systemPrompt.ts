@@ -0,0 +1,179 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { homedir, platform, release } from 'os';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+
+export const INSTRUCTION_FILE = 'FERAL.md';
+
+export const BASE_SYSTEM_PROMPT = `You are Feral Code, an AI coding assistant working in the user's terminal.
+Help with software engineering tasks: reading and changing code, running commands, debugging and explaining.
+Use the available tools to look at the project before answering questions about it, and prefer small, focused changes that match the existing code.
+Keep answers short and to the point. Do not make up file contents, command output or APIs you have not seen.`;
+
+// Instruction files longer than this are cut off so they cannot crowd out the conversation
+const MAX_FILE_CHARS = 20000;
+
+export interface InstructionFile {
+  /** `user` applies everywhere, `project` to the repository, `directory` to one part of it */
+  scope: 'user' | 'project' | 'directory';
+  path: string;
+  /** Undefined when the file does not exist (yet) */
+  content?: string;
+}
+
+export interface SystemPromptOptions {
+  cwd?: string;
+  /** Directory holding the user's FERAL.md, `~/.feral-code` by default */
+  userDir?: string;
+}
+
+/**
+ * Assembles the system prompt sent with every request: a built-in base
+ * prompt, facts about the environment and the instructions in `FERAL.md`
+ * files. Those come from `~/.feral-code`, the project root (the nearest
+ * directory with a `.git`), directories between the root and the working
+ * directory, and directories the tools have worked in during the session.
+ * Files are read on every build, so edits apply to the next request.
+ */
+export class SystemPrompt {
+  private cwd: string;
+  private userDir: string;
+  private projectRoot: string;
+  private workingDirs: Set<string> = new Set();
+
+  constructor(options: SystemPromptOptions = {}) {
+    this.cwd = resolve(options.cwd || process.cwd());
+    this.userDir = options.userDir || join(homedir(), '.feral-code');
+    this.projectRoot = findProjectRoot(this.cwd);
+  }
+
+  getProjectRoot(): string {
+    return this.projectRoot;
+  }
+
+  /** Makes FERAL.md files on the way to a file or directory inside the project apply */
+  addWorkingPath(path: string): void {
+    const absolute = resolve(this.cwd, path);
+    if (!isInside(this.projectRoot, absolute)) return;
+
+    const isDirectory = existsSync(absolute) && statSync(absolute).isDirectory();
+    this.workingDirs.add(isDirectory ? absolute : dirname(absolute));
+  }
+
+  /** Notes the paths a tool call worked on */
+  trackToolCall(params: Record<string, any>): void {
+    for (const key of ['file_path', 'path', 'notebook_path']) {
+      if (typeof params[key] === 'string' && params[key]) {
+        this.addWorkingPath(params[key]);
+      }
+    }
+  }
+
+  /**
+   * Lists the instruction files in the order they are applied. The user and
+   * project files are always listed so they can be created; directory files
+   * only when they exist.
+   */
+  getInstructionFiles(): InstructionFile[] {
+    const files: InstructionFile[] = [
+      readInstructionFile('user', join(this.userDir, INSTRUCTION_FILE)),
+      readInstructionFile('project', join(this.projectRoot, INSTRUCTION_FILE)),
+    ];
+
+    const directories = new Set<string>();
+    for (const target of [this.cwd, ...this.workingDirs]) {
+      // Every directory below the root on the way to the target
+      for (let dir = target; isInside(this.projectRoot, dir) && dir !== this.projectRoot; dir = dirname(dir)) {
+        directories.add(dir);
+      }
+    }
+
+    for (const dir of [...directories].sort()) {
+      const file = readInstructionFile('directory', join(dir, INSTRUCTION_FILE));
+      if (file.content !== undefined) files.push(file);
+    }
+    return files;
+  }
+
+  build(): string {
+    const sections = [BASE_SYSTEM_PROMPT, this.describeEnvironment()];
+
+    const files = this.getInstructionFiles().filter(file => file.content?.trim());
+    if (files.length) {
+      sections.push([
+        '# Instructions',
+        'Follow these instructions from the user and the project. Files for a directory take precedence over more general ones for work in that directory.',
+        ...files.map(file => `## ${this.displayPath(file)} (${file.scope})\n\n${clip(file.content!.trim())}`),
+      ].join('\n\n'));
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private describeEnvironment(): string {
+    const facts = [`- Working directory: ${this.cwd}`];
+    if (this.projectRoot !== this.cwd) {
+      facts.push(`- Project root: ${this.projectRoot}`);
+    }
+
+    const branch = readGitBranch(this.projectRoot);
+    if (branch) {
+      facts.push(`- Git branch: ${branch}`);
+    }
+    facts.push(`- Platform: ${platform()} ${release()}`);
+    facts.push(`- Date: ${new Date().toISOString().slice(0, 10)}`);
+
+    return `# Environment\n\n${facts.join('\n')}`;
+  }
+
+  private displayPath(file: InstructionFile): string {
+    if (file.scope === 'user') {
+      return file.path.startsWith(homedir()) ? `~${file.path.slice(homedir().length)}` : file.path;
+    }
+    return relative(this.projectRoot, file.path);
+  }
+}
+
+function readInstructionFile(scope: InstructionFile['scope'], path: string): InstructionFile {
+  try {
+    return { scope, path, content: readFileSync(path, 'utf-8') };
+  } catch {
+    return { scope, path };
+  }
+}
+
+function clip(content: string): string {
+  return content.length > MAX_FILE_CHARS
+    ? `${content.slice(0, MAX_FILE_CHARS)}\n\n[... cut off after ${MAX_FILE_CHARS} characters ...]`
+    : content;
+}
+
+/** The nearest directory with a `.git` entry, or the directory itself outside a repository */
+function findProjectRoot(cwd: string): string {
+  for (let dir = cwd; ; dir = dirname(dir)) {
+    if (existsSync(join(dir, '.git'))) return dir;
+    if (dirname(dir) === dir) return cwd;
+  }
+}
+
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel) && !rel.startsWith(sep));
+}
+
+/** Reads the branch from `.git/HEAD` without running git; worktrees point to their git directory */
+function readGitBranch(root: string): string | undefined {
+  try {
+    let gitDir = join(root, '.git');
+    if (statSync(gitDir).isFile()) {
+      const pointer = readFileSync(gitDir, 'utf-8').match(/^gitdir:\s*(.+)$/m);
+      if (!pointer) return undefined;
+      gitDir = resolve(root, pointer[1].trim());
+    }
+
+    const head = readFileSync(join(gitDir, 'HEAD'), 'utf-8').trim();
+    const ref = head.match(/^ref:\s*refs\/heads\/(.+)$/);
+    return ref ? ref[1] : `detached at ${head.slice(0, 7)}`;
+  } catch {
+    return undefined;
+  }
+}
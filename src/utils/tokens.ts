@@ -0,0 +1,64 @@
+import { Message, Tool } from '../types/index.js';
+
+export type TokenizerFamily = 'openai' | 'anthropic' | 'gemini' | 'llama' | 'generic';
+
+// Average characters per token for English text and code in each family's tokenizer
+const CHARS_PER_TOKEN: Record<TokenizerFamily, number> = {
+  openai: 4,
+  anthropic: 3.5,
+  gemini: 4,
+  llama: 3.7,
+  generic: 3.5,
+};
+
+// Role markers and separators the APIs add around every message
+const MESSAGE_OVERHEAD = 4;
+
+/** Guesses which tokenizer a model uses from its provider and name */
+export function getTokenizerFamily(provider: string, model: string): TokenizerFamily {
+  const name = model.toLowerCase();
+
+  if (/claude/.test(name) || provider === 'anthropic') return 'anthropic';
+  if (/gemini|gemma/.test(name) || provider === 'gemini') return 'gemini';
+  if (/gpt|(^|\/)o\d/.test(name) || provider === 'openai') return 'openai';
+  if (/llama|mistral|mixtral|qwen|phi|codellama|deepseek/.test(name)) return 'llama';
+  return 'generic';
+}
+
+/**
+ * Estimates token counts without the provider's tokenizer. Counts are
+ * character-based approximations, so callers leave headroom rather than
+ * filling the context window to the last token.
+ */
+export class TokenEstimator {
+  readonly family: TokenizerFamily;
+
+  constructor(provider: string, model: string) {
+    this.family = getTokenizerFamily(provider, model);
+  }
+
+  count(text: string): number {
+    if (!text) return 0;
+    return Math.ceil(text.length / CHARS_PER_TOKEN[this.family]);
+  }
+
+  countMessage(message: Message): number {
+    let tokens = MESSAGE_OVERHEAD + this.count(message.content);
+
+    if (message.role === 'assistant') {
+      message.toolCalls?.forEach(call => {
+        tokens += MESSAGE_OVERHEAD + this.count(call.name) + this.count(call.arguments);
+      });
+    }
+    return tokens;
+  }
+
+  countMessages(messages: Message[]): number {
+    return messages.reduce((total, message) => total + this.countMessage(message), 0);
+  }
+
+  /** Tool definitions are sent with every request and count against the window too */
+  countTools(tools: Tool[] = []): number {
+    return tools.reduce((total, tool) => total + this.count(JSON.stringify(tool)), 0);
+  }
+}
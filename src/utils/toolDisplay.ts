@@ -0,0 +1,150 @@
+import { structuredPatch } from 'diff';
+import { readFile, stat } from 'fs/promises';
+import { isAbsolute, relative } from 'path';
+import { DiffLine, ToolCall } from '../types/index.js';
+
+export type { DiffLine };
+
+// Unchanged lines shown around each change
+const DIFF_CONTEXT_LINES = 2;
+const MAX_SUMMARY_LENGTH = 80;
+// Larger files are shown as written rather than diffed, which would be slow
+const MAX_DIFF_FILE_SIZE = 1024 * 1024;
+
+/** The parsed arguments of a call, or undefined when the model sent invalid JSON */
+export function parseToolArguments(toolCall: ToolCall): Record<string, any> | undefined {
+  try {
+    const params = toolCall.arguments.trim() ? JSON.parse(toolCall.arguments) : {};
+    return params && typeof params === 'object' && !Array.isArray(params) ? params : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function truncate(text: string, maxLength: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1)}…` : line;
+}
+
+/** Paths inside the working directory are shown relative to it */
+function displayPath(path: unknown): string {
+  const text = String(path ?? '');
+  if (!isAbsolute(text)) return text;
+  const relativePath = relative(process.cwd(), text);
+  return relativePath && !relativePath.startsWith('..') ? relativePath : text;
+}
+
+/**
+ * One line saying what a call works on, such as the command for Bash or the
+ * file for Edit. Other tools show their simple arguments as `key: value`.
+ * With a `maxLength` of Infinity the text is kept whole, as when asking for
+ * approval.
+ */
+export function summarizeToolCall(name: string, params: Record<string, any>, maxLength = MAX_SUMMARY_LENGTH): string {
+  let summary: string;
+  switch (name) {
+    case 'Bash':
+      summary = String(params.command ?? '');
+      break;
+    case 'Read':
+    case 'Write':
+    case 'Edit':
+      summary = displayPath(params.file_path);
+      break;
+    case 'MultiEdit':
+      summary = `${displayPath(params.file_path)} (${Array.isArray(params.edits) ? params.edits.length : 0} edits)`;
+      break;
+    case 'NotebookRead':
+    case 'NotebookEdit':
+      summary = displayPath(params.notebook_path);
+      break;
+    case 'LS':
+      summary = displayPath(params.path);
+      break;
+    case 'Glob':
+    case 'Grep':
+      summary = params.path ? `${params.pattern} in ${displayPath(params.path)}` : String(params.pattern ?? '');
+      break;
+    case 'WebFetch':
+      summary = String(params.url ?? '');
+      break;
+    case 'WebSearch':
+      summary = String(params.query ?? '');
+      break;
+    case 'Agent':
+      summary = String(params.description ?? params.prompt ?? '');
+      break;
+    case 'TodoWrite':
+      summary = `${Array.isArray(params.todos) ? params.todos.length : 0} items`;
+      break;
+    default:
+      summary = Object.entries(params)
+        .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+        .map(([key, value]) => `${key}: ${value}`)
+        .join(', ');
+  }
+  return Number.isFinite(maxLength) ? truncate(summary, maxLength) : summary;
+}
+
+/** `850ms`, `4.2s` or `2m 05s` */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+function diffText(before: string, after: string): DiffLine[] {
+  const patch = structuredPatch('', '', before, after, '', '', { context: DIFF_CONTEXT_LINES });
+  return patch.hunks.flatMap((hunk, index) => [
+    ...(index > 0 ? [{ kind: 'gap' as const, text: '…' }] : []),
+    ...hunk.lines
+      .filter(line => !line.startsWith('\\'))
+      .map(line => ({
+        kind: line[0] === '+' ? 'add' as const : line[0] === '-' ? 'remove' as const : 'context' as const,
+        text: line.slice(1),
+      })),
+  ]);
+}
+
+/**
+ * The content a Write is about to replace, read before it runs so the write
+ * can be shown as a change. Undefined for new files, very large files and
+ * other tools.
+ */
+export async function readPreviousContent(name: string, params: Record<string, any>): Promise<string | undefined> {
+  if (name !== 'Write' || typeof params.file_path !== 'string') {
+    return undefined;
+  }
+  try {
+    if ((await stat(params.file_path)).size > MAX_DIFF_FILE_SIZE) {
+      return undefined;
+    }
+    return await readFile(params.file_path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The change a file tool makes, worked out from its arguments: the replaced
+ * text for Edit and MultiEdit, and for Write the new content against
+ * `previousContent` (from `readPreviousContent`), or all of it for a new
+ * file. Undefined for other tools. Line numbers are not known.
+ */
+export function getToolDiff(name: string, params: Record<string, any>, previousContent?: string): DiffLine[] | undefined {
+  switch (name) {
+    case 'Edit':
+      return diffText(String(params.old_string ?? ''), String(params.new_string ?? ''));
+    case 'MultiEdit':
+      if (!Array.isArray(params.edits)) return undefined;
+      return params.edits.flatMap((edit: Record<string, any>, index: number) => [
+        ...(index > 0 ? [{ kind: 'gap' as const, text: '…' }] : []),
+        ...diffText(String(edit?.old_string ?? ''), String(edit?.new_string ?? '')),
+      ]);
+    case 'Write':
+      return diffText(previousContent ?? '', String(params.content ?? ''));
+    default:
+      return undefined;
+  }
+}
@@ -288,6 +288,10 @@ export class ToolSafetyManager {
     return this.readOnlyTools.has(toolName);
   }
 
+  getReadOnlyTools(): string[] {
+    return Array.from(this.readOnlyTools);
+  }
+
   private extractPathParameters(params: any): Array<[string, string]> {
     const pathParams: Array<[string, string]> = [];
     
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AgentTool, ToolManager } from '../src/tools/index.js';
+import { AIProvider, AssistantMessage, ChatRequest, ChatResponse } from '../src/types/index.js';
+import { costTracker } from '../src/utils/costTracker.js';
+import { diagnostics } from '../src/utils/diagnostics.js';
+
+class ScriptedProvider implements AIProvider {
+  name = 'openai';
+  requests: ChatRequest[] = [];
+  private responses: AssistantMessage[];
+
+  constructor(responses: AssistantMessage[]) {
+    this.responses = responses;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    const message: AssistantMessage = this.responses.shift() || { role: 'assistant', content: 'done' };
+    return { message, usage: { inputTokens: 100, outputTokens: 50 } };
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    yield await this.chat(request);
+  }
+
+  validateConfig(): boolean {
+    return true;
+  }
+
+  getDefaultModel(): string {
+    return 'gpt-4o-mini';
+  }
+
+  getSupportedModels(): string[] {
+    return ['gpt-4o-mini'];
+  }
+}
+
+const task = {
+  description: 'Find config files',
+  prompt: 'List every configuration file in /tmp and summarize them.',
+};
+
+describe('AgentTool', () => {
+  let trackUsage: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    trackUsage = vi.spyOn(costTracker, 'trackUsage').mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report an error when no provider is available', async () => {
+    const tool = new AgentTool();
+    const result = await tool.execute(task);
+
+    expect(result).toContain('no AI provider is configured');
+  });
+
+  it('should run a nested conversation and return only the final report', async () => {
+    const provider = new ScriptedProvider([
+      { role: 'assistant', content: 'Looking around', toolCalls: [{ id: 'c1', name: 'LS', arguments: '{"path":"/tmp"}' }] },
+      { role: 'assistant', content: 'Found 2 config files.' },
+    ]);
+    const toolManager = new ToolManager();
+    toolManager.setContext({ provider, sessionId: 'parent-session' });
+
+    const result = await toolManager.executeTool('Agent', task);
+
+    expect(result).toBe('Found 2 config files.');
+    expect(provider.requests).toHaveLength(2);
+    // Stateless: the sub-agent starts from its own prompt, not the parent conversation
+    expect(provider.requests[0].messages.map(m => m.role)).toEqual(['system', 'user']);
+    expect(provider.requests[0].messages[1].content).toBe(task.prompt);
+  });
+
+  it('should restrict sub-agents to read-only tools by default', async () => {
+    const provider = new ScriptedProvider([{ role: 'assistant', content: 'ok' }]);
+    const toolManager = new ToolManager();
+    toolManager.setContext({ provider });
+
+    await toolManager.executeTool('Agent', task);
+
+    const toolNames = provider.requests[0].tools!.map(tool => tool.name);
+    expect(toolNames).toContain('Read');
+    expect(toolNames).toContain('Grep');
+    expect(toolNames).not.toContain('Write');
+    expect(toolNames).not.toContain('Bash');
+    expect(toolNames).not.toContain('Agent');
+  });
+
+  it('should honour the configured sub-agent tool set', async () => {
+    const provider = new ScriptedProvider([{ role: 'assistant', content: 'ok' }]);
+    const toolManager = new ToolManager();
+    toolManager.setConfig({ provider: 'openai', subAgentTools: ['Read', 'Bash', 'Agent'] });
+    toolManager.setContext({ provider });
+
+    await toolManager.executeTool('Agent', task);
+
+    expect(provider.requests[0].tools!.map(tool => tool.name)).toEqual(['Read', 'Bash']);
+  });
+
+  it('should stop when the token budget is exhausted', async () => {
+    const provider = new ScriptedProvider([
+      { role: 'assistant', content: 'step 1', toolCalls: [{ id: 'c1', name: 'LS', arguments: '{"path":"/tmp"}' }] },
+      { role: 'assistant', content: 'step 2', toolCalls: [{ id: 'c2', name: 'LS', arguments: '{"path":"/tmp"}' }] },
+      { role: 'assistant', content: 'never reached' },
+    ]);
+    const toolManager = new ToolManager();
+    toolManager.setConfig({ provider: 'openai', subAgentTokenBudget: 200 });
+    toolManager.setContext({ provider });
+
+    const result = await toolManager.executeTool('Agent', task);
+
+    expect(provider.requests).toHaveLength(2);
+    expect(result).toContain('step 2');
+    expect(result).toContain('token budget of 200 exhausted');
+  });
+
+  it('should attribute token usage to the parent session', async () => {
+    const provider = new ScriptedProvider([{ role: 'assistant', content: 'ok' }]);
+    const toolManager = new ToolManager();
+    toolManager.setContext({ provider, sessionId: 'parent-session' });
+
+    await toolManager.executeTool('Agent', task);
+
+    expect(trackUsage).toHaveBeenCalledWith('openai', 'gpt-4o-mini', 100, 50, 'parent-session');
+  });
+
+  it('should log sub-agent runs to diagnostics', async () => {
+    const info = vi.spyOn(diagnostics, 'info');
+    const provider = new ScriptedProvider([{ role: 'assistant', content: 'ok' }]);
+    const toolManager = new ToolManager();
+    toolManager.setContext({ provider });
+
+    await toolManager.executeTool('Agent', task);
+
+    const agentEvents = info.mock.calls.filter(([category]) => category === 'agent');
+    expect(agentEvents.map(([, message]) => message)).toEqual([
+      'Sub-agent started: Find config files',
+      'Sub-agent finished: Find config files',
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicProvider, toAnthropicMessages } from '../src/providers/anthropic.js';
+import { ChatResponse, Tool } from '../src/types/index.js';
+import { ToolCallAccumulator } from '../src/utils/conversation.js';
+
+const readTool: Tool = {
+  name: 'Read',
+  description: 'Read the contents of a file',
+  parameters: {
+    type: 'object',
+    properties: { file_path: { type: 'string', description: 'Path' } },
+    required: ['file_path'],
+  },
+};
+
+// A streamed reply recorded from the Messages API: a short text block
+// followed by a tool call whose input arrives in two JSON fragments
+const recordedStream = [
+  ['message_start', { type: 'message_start', message: { id: 'msg_01', type: 'message', role: 'assistant', model: 'claude-3-5-sonnet-20241022', content: [], stop_reason: null, usage: { input_tokens: 412, output_tokens: 1 } } }],
+  ['content_block_start', { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }],
+  ['ping', { type: 'ping' }],
+  ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Let me read ' } }],
+  ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'the file.' } }],
+  ['content_block_stop', { type: 'content_block_stop', index: 0 }],
+  ['content_block_start', { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_01', name: 'Read', input: {} } }],
+  ['content_block_delta', { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '' } }],
+  ['content_block_delta', { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"file_path": "/tmp/' } }],
+  ['content_block_delta', { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: 'a.txt"}' } }],
+  ['content_block_stop', { type: 'content_block_stop', index: 1 }],
+  ['message_delta', { type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { output_tokens: 58 } }],
+  ['message_stop', { type: 'message_stop' }],
+] as const;
+
+describe('Anthropic provider (mock server)', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: Array<{ url: string; headers: IncomingHttpHeaders; body: any }> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        requests.push({ url: req.url || '', headers: req.headers, body: payload });
+
+        if (req.headers['x-api-key'] !== 'test-key') {
+          res.writeHead(401, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }));
+          return;
+        }
+
+        if (payload.model === 'overloaded-model') {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          res.write(`event: error\ndata: ${JSON.stringify({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } })}\n\n`);
+          res.end();
+          return;
+        }
+
+        if (payload.stream) {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          for (const [event, data] of recordedStream) {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+          }
+          res.end();
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          id: 'msg_02',
+          type: 'message',
+          role: 'assistant',
+          content: payload.tools
+            ? [
+              { type: 'text', text: 'Let me read the file.' },
+              { type: 'tool_use', id: 'toolu_02', name: 'Read', input: { file_path: '/tmp/a.txt' } },
+            ]
+            : [{ type: 'text', text: 'Hello there' }],
+          stop_reason: payload.tools ? 'tool_use' : 'end_turn',
+          usage: { input_tokens: 25, output_tokens: 9 },
+        }));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  async function collect(stream: AsyncIterable<Partial<ChatResponse>>): Promise<Partial<ChatResponse>[]> {
+    const chunks: Partial<ChatResponse>[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  it('should send the system prompt separately with Anthropic headers', async () => {
+    const provider = new AnthropicProvider('test-key', baseUrl);
+    const response = await provider.chat({
+      messages: [
+        { role: 'system', content: 'You are a coding assistant.' },
+        { role: 'user', content: 'Hi' },
+      ],
+    });
+
+    expect(requests[0].url).toBe('/v1/messages');
+    expect(requests[0].headers['anthropic-version']).toBe('2023-06-01');
+    expect(requests[0].body.system).toBe('You are a coding assistant.');
+    expect(requests[0].body.messages).toEqual([{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }]);
+    expect(requests[0].body.model).toBe('claude-3-5-sonnet-20241022');
+    expect(response.message.content).toBe('Hello there');
+    expect(response.usage).toEqual({ inputTokens: 25, outputTokens: 9 });
+  });
+
+  it('should send tool schemas and parse tool_use blocks', async () => {
+    const provider = new AnthropicProvider('test-key', baseUrl);
+    const response = await provider.chat({ messages: [{ role: 'user', content: 'Read a.txt' }], tools: [readTool] });
+
+    expect(requests[0].body.tools).toEqual([
+      { name: 'Read', description: readTool.description, input_schema: readTool.parameters },
+    ]);
+    expect(response.message.content).toBe('Let me read the file.');
+    expect(response.message.toolCalls).toEqual([
+      { id: 'toolu_02', name: 'Read', arguments: '{"file_path":"/tmp/a.txt"}' },
+    ]);
+  });
+
+  it('should stream text, tool calls and usage from the recorded events', async () => {
+    const provider = new AnthropicProvider('test-key', baseUrl);
+    const chunks = await collect(provider.streamChat({ messages: [{ role: 'user', content: 'Read a.txt' }], tools: [readTool] }));
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(chunks.map(chunk => chunk.message?.content || '').join('')).toBe('Let me read the file.');
+
+    const accumulator = new ToolCallAccumulator();
+    chunks.forEach(chunk => chunk.toolCallDeltas && accumulator.add(chunk.toolCallDeltas));
+    expect(accumulator.getToolCalls()).toEqual([
+      { id: 'toolu_01', name: 'Read', arguments: '{"file_path": "/tmp/a.txt"}' },
+    ]);
+
+    // Usage is reported once, combining message_start and message_delta
+    const usage = chunks.filter(chunk => chunk.usage).map(chunk => chunk.usage);
+    expect(usage).toEqual([{ inputTokens: 412, outputTokens: 58 }]);
+  });
+
+  it('should surface error events in the stream', async () => {
+    const provider = new AnthropicProvider('test-key', baseUrl);
+    await expect(collect(provider.streamChat({ messages: [{ role: 'user', content: 'Hi' }], model: 'overloaded-model' })))
+      .rejects.toThrow('Anthropic API error: overloaded_error Overloaded');
+  });
+
+  it('should include the response body in HTTP errors', async () => {
+    const provider = new AnthropicProvider('wrong-key', baseUrl);
+    await expect(provider.chat({ messages: [{ role: 'user', content: 'Hi' }] }))
+      .rejects.toThrow(/Anthropic API error: 401 .*invalid x-api-key/);
+  });
+
+  it('should cap the temperature at the Messages API maximum and keep 0', async () => {
+    const provider = new AnthropicProvider('test-key', baseUrl);
+    await provider.chat({ messages: [{ role: 'user', content: 'Hi' }], temperature: 1.5 });
+    await provider.chat({ messages: [{ role: 'user', content: 'Hi' }], temperature: 0 });
+
+    expect(requests.map(request => request.body.temperature)).toEqual([1, 0]);
+  });
+});
+
+describe('Anthropic message format', () => {
+  it('should send tool results as tool_result blocks in one user turn', () => {
+    const { system, messages } = toAnthropicMessages([
+      { role: 'user', content: 'Read both files' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'toolu_1', name: 'Read', arguments: '{"file_path":"/a.txt"}' },
+          { id: 'toolu_2', name: 'Read', arguments: '{"file_path":"/b.txt"}' },
+        ],
+      },
+      { role: 'tool', content: 'a', toolCallId: 'toolu_1', toolName: 'Read' },
+      { role: 'tool', content: 'Error: not found', toolCallId: 'toolu_2', toolName: 'Read', isError: true },
+    ]);
+
+    expect(system).toBeUndefined();
+    expect(messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Read both files' }] },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: '/a.txt' } },
+          { type: 'tool_use', id: 'toolu_2', name: 'Read', input: { file_path: '/b.txt' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: 'a' },
+          { type: 'tool_result', tool_use_id: 'toolu_2', content: 'Error: not found', is_error: true },
+        ],
+      },
+    ]);
+  });
+
+  it('should join every system message into the system prompt', () => {
+    const { system, messages } = toAnthropicMessages([
+      { role: 'system', content: 'Plan mode is active.' },
+      { role: 'system', content: 'You are a coding assistant.' },
+      { role: 'user', content: 'Hi' },
+    ]);
+
+    expect(system).toBe('Plan mode is active.\n\nYou are a coding assistant.');
+    expect(messages).toHaveLength(1);
+  });
+});
@@ -9,7 +9,7 @@ describe('Build and Distribution Tests', () => {
   beforeAll(async () => {
     // Ensure the project is built
     await runBuildCommand();
-  });
+  }, 60000);
 
   it('should create dist directory', async () => {
     await expect(access(distPath)).resolves.not.toThrow();
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CommandContext,
+  CommandRegistry,
+  CommandView,
+  createCommandRegistry,
+  expandTemplate,
+  formatCommandList,
+  parseCommand,
+  parseCustomCommand,
+} from '../src/commands/index.js';
+import { OllamaProvider, OpenAICompatibleProvider } from '../src/providers/index.js';
+import { ToolManager } from '../src/tools/index.js';
+import { AIProvider, Message } from '../src/types/index.js';
+import { ConfigManager } from '../src/utils/config.js';
+import { Session, SessionManager } from '../src/utils/session.js';
+import { SystemPrompt } from '../src/utils/systemPrompt.js';
+
+describe('parseCommand', () => {
+  it('should split the command name from its arguments', () => {
+    expect(parseCommand('/compact keep the API decisions')).toEqual({ name: 'compact', args: 'keep the API decisions' });
+    expect(parseCommand('  /HELP  ')).toEqual({ name: 'help', args: '' });
+  });
+
+  it('should leave ordinary messages and paths alone', () => {
+    expect(parseCommand('Explain /compact')).toBeUndefined();
+    expect(parseCommand('/etc/hosts looks wrong')).toBeUndefined();
+    expect(parseCommand('/')).toBeUndefined();
+  });
+});
+
+describe('CommandRegistry', () => {
+  const originalEnv = process.env;
+  let tempDir: string;
+  let registry: CommandRegistry;
+  let state: {
+    provider: AIProvider;
+    messages: Message[];
+    session?: Session;
+    view?: CommandView;
+  };
+  let configManager: ConfigManager;
+  const sessionManager = new SessionManager();
+
+  function createContext(withViews = false): CommandContext {
+    return {
+      commands: registry,
+      configManager,
+      toolManager: new ToolManager(),
+      sessionManager,
+      systemPrompt: new SystemPrompt({ cwd: tempDir, userDir: tempDir }),
+      provider: state.provider,
+      messages: state.messages,
+      setMessages: messages => state.messages = messages,
+      setProvider: provider => state.provider = provider,
+      setSession: session => state.session = session,
+      openView: withViews
+        ? view => {
+          state.view = view;
+          return true;
+        }
+        : undefined,
+    };
+  }
+
+  beforeEach(() => {
+    process.env = {};
+    tempDir = mkdtempSync(join(tmpdir(), 'feral-commands-'));
+    const userConfigPath = join(tempDir, 'config.json');
+    writeFileSync(userConfigPath, JSON.stringify({ provider: 'ollama' }));
+
+    configManager = new ConfigManager({ userConfigPath, projectDir: tempDir });
+    registry = createCommandRegistry({ projectDir: tempDir, userDir: tempDir });
+    state = { provider: new OllamaProvider(), messages: [] };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should suggest and complete command names', () => {
+    expect(registry.getSuggestions('/co').map(command => command.name)).toEqual(['compact', 'cost']);
+    expect(registry.getSuggestions('/compact now')).toEqual([]);
+
+    // Names with arguments get a space to type them after
+    expect(registry.complete('/com', createContext())).toBe('/compact ');
+    expect(registry.complete('/too', createContext())).toBe('/tools');
+    expect(registry.complete('/co', createContext())).toBeUndefined();
+    expect(registry.complete('/pro', createContext())).toBe('/provider ');
+  });
+
+  it('should complete arguments from the command', () => {
+    expect(registry.complete('/provider oll', createContext())).toBe('/provider ollama');
+    expect(registry.complete('/provider openai-', createContext())).toBe('/provider openai-compatible');
+    // openai, openai-compatible and openrouter agree on nothing more
+    expect(registry.complete('/provider open', createContext())).toBeUndefined();
+    expect(registry.complete('/mcp t', createContext())).toBe('/mcp tools');
+    expect(registry.complete('/export markdown ', createContext())).toBeUndefined();
+  });
+
+  it('should find commands by alias and report unknown ones', async () => {
+    expect(registry.get('/new')?.name).toBe('clear');
+    expect(await registry.execute('/frobnicate', createContext())).toBe('Unknown command /frobnicate. Type /help to see the available commands.');
+  });
+
+  it('should open the help panel where there is one and print the list otherwise', async () => {
+    expect(await registry.execute('/help', createContext(true))).toBeUndefined();
+    expect(state.view).toBe('help');
+
+    const text = await registry.execute('/help', createContext());
+    expect(text).toContain('/compact [focus]');
+    expect(text).toContain('/export [markdown|json] [file]');
+    expect(await registry.execute('/help model', createContext())).toContain('/model [model]');
+  });
+
+  it('should switch the model and provider for the session', async () => {
+    expect(await registry.execute('/model qwen2.5-coder:7b', createContext())).toContain('Switched to qwen2.5-coder:7b for this session');
+    expect(configManager.getConfig().defaultModel).toBe('qwen2.5-coder:7b');
+    expect(state.provider).toBeInstanceOf(OllamaProvider);
+
+    expect(await registry.execute('/provider bedrock', createContext())).toContain(`Unknown provider 'bedrock'`);
+
+    // Without a base URL the switch is undone
+    const failed = await registry.execute('/provider openai-compatible', createContext());
+    expect(failed).toContain('Could not switch to openai-compatible');
+    expect(configManager.getConfig()).toMatchObject({ provider: 'ollama', defaultModel: 'qwen2.5-coder:7b' });
+
+    configManager.updateConfig({ openaiCompatibleBaseUrl: 'http://127.0.0.1:1/v1' });
+    expect(await registry.execute('/provider openai-compatible local-model', createContext())).toBe('Switched to openai-compatible (local-model) for this session.');
+    expect(state.provider).toBeInstanceOf(OpenAICompatibleProvider);
+  });
+
+  it('should start a new conversation and export it', async () => {
+    state.messages = [{ role: 'user', content: 'Old question' }];
+    expect(await registry.execute('/clear', createContext())).toBe('Started a new conversation.');
+    expect(state.session?.messages).toEqual([]);
+
+    await sessionManager.addMessage({ role: 'user', content: 'What does parse() return?' });
+    const file = join(tempDir, 'conversation.md');
+    expect(await registry.execute(`/export ${file}`, createContext())).toBe(`Exported the conversation to ${file}`);
+    expect(readFileSync(file, 'utf-8')).toContain('What does parse() return?');
+
+    const resumed = await registry.execute(`/sessions ${state.session!.id}`, createContext());
+    expect(resumed).toContain('(1 messages)');
+    expect(sessionManager.getCurrentSession()?.id).toBe(state.session!.id);
+  });
+
+  it('should pin the latest message of the user', async () => {
+    expect(await registry.execute('/pin', createContext())).toBe('There is no message of yours to pin yet.');
+
+    state.messages = [
+      { role: 'user', content: 'Use tabs, never spaces' },
+      { role: 'assistant', content: 'Noted.' },
+    ];
+    expect(await registry.execute('/pin', createContext())).toContain('Pinned "Use tabs, never spaces"');
+    expect(state.messages[0]).toEqual({ role: 'user', content: 'Use tabs, never spaces', pinned: true });
+    expect(state.messages[1]).toEqual({ role: 'assistant', content: 'Noted.' });
+  });
+
+  it('should list tools and say when there is nothing to compact', async () => {
+    const context = createContext();
+    context.toolManager.setPolicy(undefined);
+
+    expect(await registry.execute('/tools', context)).toMatch(/^Bash\s+/m);
+    expect(await registry.execute('/compact', context)).toBe('Nothing to compact yet.');
+  });
+});
+
+describe('Custom commands', () => {
+  let tempDir: string;
+  let userDir: string;
+  let projectDir: string;
+
+  function writeCommand(dir: string, file: string, content: string): void {
+    mkdirSync(join(dir, 'commands'), { recursive: true });
+    writeFileSync(join(dir, 'commands', file), content);
+  }
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'feral-custom-'));
+    userDir = join(tempDir, 'user');
+    projectDir = join(tempDir, 'project');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read frontmatter and fall back to the first line for the description', () => {
+    const review = parseCustomCommand([
+      '---',
+      'description: Review the staged diff',
+      'arguments: [focus]',
+      'allowed-tools: Bash, Read, Grep',
+      'model: gpt-4o-mini',
+      '---',
+      'Review `git diff --staged`, paying attention to $focus.',
+    ].join('\n'), '/repo/.feral-code/commands/Review.md', 'project');
+
+    expect(review).toMatchObject({
+      name: 'review',
+      description: 'Review the staged diff',
+      argumentHint: '[focus]',
+      arguments: ['focus'],
+      allowedTools: ['Bash', 'Read', 'Grep'],
+      model: 'gpt-4o-mini',
+      template: 'Review `git diff --staged`, paying attention to $focus.',
+    });
+
+    const plain = parseCustomCommand('# Write tests for $ARGUMENTS\n\nUse vitest.', '/home/me/commands/tests.md', 'user');
+    expect(plain.description).toBe('Write tests for $ARGUMENTS');
+    expect(plain.argumentHint).toBeUndefined();
+    expect(plain.allowedTools).toBeUndefined();
+
+    expect(() => parseCustomCommand('---\narguments: [file-name]\n---\nx', 'bad.md', 'user')).toThrow(`not 'file-name'`);
+  });
+
+  it('should fill in the arguments and named placeholders', () => {
+    const command = { template: 'Move $file to $target in $HOME. Asked: $ARGUMENTS', arguments: ['file', 'target'] };
+    expect(expandTemplate(command, 'src/a.ts lib/utils now')).toBe('Move src/a.ts to lib/utils now in $HOME. Asked: src/a.ts lib/utils now');
+    expect(expandTemplate(command, '')).toBe('Move  to  in $HOME. Asked: ');
+
+    // Without placeholders the arguments go at the end
+    expect(expandTemplate({ template: 'Summarize the changes.', arguments: [] }, 'since v1.2')).toBe('Summarize the changes.\n\nsince v1.2');
+    expect(expandTemplate({ template: 'Costs $5 a $ARGUMENTS', arguments: [] }, '$&')).toBe('Costs $5 a $&');
+  });
+
+  it('should load project and user commands next to the built-ins', async () => {
+    writeCommand(userDir, 'review.md', 'User review of $ARGUMENTS');
+    writeCommand(userDir, 'standup.md', 'Summarize yesterday\'s commits.');
+    writeCommand(join(projectDir, '.feral-code'), 'review.md', '---\nallowed-tools: [Read, Grep]\nmodel: gpt-4o-mini\n---\nProject review of $ARGUMENTS');
+    writeCommand(join(projectDir, '.feral-code'), 'help.md', 'Not allowed to replace /help');
+    writeCommand(join(projectDir, '.feral-code'), '2fast.md', 'Bad name');
+    writeCommand(join(projectDir, '.feral-code'), 'notes.txt', 'Not a command');
+
+    const registry = createCommandRegistry({ projectDir, userDir });
+    const context = {} as CommandContext;
+
+    expect(registry.get('review')?.scope).toBe('project');
+    expect(registry.get('standup')?.scope).toBe('user');
+    expect(registry.get('help')?.scope).toBeUndefined();
+    expect(registry.get('notes')).toBeUndefined();
+    expect(registry.getLoadErrors()).toEqual([
+      expect.stringContaining('2fast.md: command names start with a letter'),
+      'Custom command /help (project) is skipped: a built-in command has that name',
+    ]);
+
+    expect(registry.getSuggestions('/re').map(command => command.name)).toEqual(['review', 'sessions']);
+    expect(formatCommandList(registry.list())).toMatch(/\/standup\s+Summarize yesterday's commits\. \(user\)/);
+
+    expect(await registry.execute('/review the parser', context)).toEqual({
+      prompt: 'Project review of the parser',
+      model: 'gpt-4o-mini',
+      allowedTools: ['Read', 'Grep'],
+    });
+
+    // Edits apply without reloading
+    writeCommand(join(projectDir, '.feral-code'), 'review.md', 'Review $ARGUMENTS carefully');
+    expect(await registry.execute('/review it', context)).toEqual({ prompt: 'Review it carefully' });
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { ConfigManager } from '../src/utils/config.js';
+import { execFileSync } from 'child_process';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigManager, formatConfigValue } from '../src/utils/config.js';
 
 describe('ConfigManager', () => {
   const originalEnv = process.env;
@@ -84,4 +89,231 @@ describe('ConfigManager', () => {
     expect(providerConfig.baseUrl).toBe('https://openrouter.ai/api/v1');
     expect(providerConfig.models).toContain('anthropic/claude-3.5-sonnet');
   });
-});
\ No newline at end of file
+});
+describe('ConfigManager config files', () => {
+  const originalEnv = process.env;
+  let tempDir: string;
+  let userConfigPath: string;
+
+  beforeEach(async () => {
+    process.env = {};
+    tempDir = await mkdtemp(join(tmpdir(), 'feral-config-'));
+    userConfigPath = join(tempDir, 'user', 'config.json');
+    await mkdir(join(tempDir, 'user'));
+    await mkdir(join(tempDir, '.feral-code'));
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function writeLayer(layer: 'user' | 'project' | 'local', values: unknown): Promise<void> {
+    const path = layer === 'user'
+      ? userConfigPath
+      : join(tempDir, '.feral-code', layer === 'project' ? 'config.json' : 'config.local.json');
+    await writeFile(path, typeof values === 'string' ? values : JSON.stringify(values));
+  }
+
+  function createManager(): ConfigManager {
+    return new ConfigManager({ userConfigPath, projectDir: tempDir });
+  }
+
+  it('should merge user, project and local files in order', async () => {
+    await writeLayer('user', { provider: 'ollama', temperature: 0.2, maxTokens: 1000 });
+    await writeLayer('project', { temperature: 0.4, defaultModel: 'llama3.1:8b' });
+    await writeLayer('local', { temperature: 0.6 });
+
+    const configManager = createManager();
+    const config = configManager.getConfig();
+
+    expect(config.provider).toBe('ollama');
+    expect(config.maxTokens).toBe(1000);
+    expect(config.defaultModel).toBe('llama3.1:8b');
+    expect(config.temperature).toBe(0.6);
+    expect(configManager.getSource('provider')).toBe('user');
+    expect(configManager.getSource('defaultModel')).toBe('project');
+    expect(configManager.getSource('temperature')).toBe('local');
+    expect(configManager.getSource('maxTurns')).toBe('default');
+  });
+
+  it('should let environment variables and CLI flags override files', async () => {
+    await writeLayer('project', { temperature: 0.4, maxTokens: 1000 });
+    process.env.FERAL_CODE_TEMPERATURE = '0.9';
+
+    const configManager = createManager();
+    configManager.updateConfig({ maxTokens: 500 });
+
+    expect(configManager.getConfig().temperature).toBe(0.9);
+    expect(configManager.describeSource('temperature')).toBe('env (FERAL_CODE_TEMPERATURE)');
+    expect(configManager.getConfig().maxTokens).toBe(500);
+    expect(configManager.getSource('maxTokens')).toBe('cli');
+  });
+
+  it('should report the offending file and key for invalid values', async () => {
+    await writeLayer('project', { temperature: 'hot', colour: 'blue', provider: 'acme' });
+    process.env.OPENAI_API_KEY = 'test-key';
+
+    const configManager = createManager();
+    const projectPath = join(tempDir, '.feral-code', 'config.json');
+    const validation = configManager.validateConfig();
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors).toEqual([
+      `Invalid temperature in ${projectPath}: expected a number, got "hot"`,
+      `Unknown key 'colour' in ${projectPath}`,
+      `Unknown provider 'acme' in ${projectPath} (expected openai, openrouter, ollama, openai-compatible, anthropic, gemini)`,
+    ]);
+    // Invalid values are ignored rather than applied
+    expect(configManager.getConfig().temperature).toBe(0.7);
+  });
+
+  it('should report malformed JSON', async () => {
+    await writeLayer('user', '{ "provider": ');
+
+    const errors = createManager().getLoadErrors();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain(`Invalid JSON in ${userConfigPath}`);
+  });
+
+  it('should validate environment variables against the schema', () => {
+    process.env.FERAL_CODE_MAX_TURNS = 'lots';
+
+    const errors = createManager().getLoadErrors();
+
+    expect(errors).toEqual(['Invalid maxTurns in environment variable FERAL_CODE_MAX_TURNS: expected a number, got "lots"']);
+  });
+
+  it('should save typed values to the chosen config file', async () => {
+    const configManager = createManager();
+
+    expect(await configManager.setPersistentValue('temperature', '0.2', 'project')).toBe('project');
+    await configManager.setPersistentValue('verbose', 'true');
+    await configManager.setPersistentValue('subAgentTools', 'Read, Grep');
+
+    const project = JSON.parse(await readFile(join(tempDir, '.feral-code', 'config.json'), 'utf-8'));
+    const user = JSON.parse(await readFile(userConfigPath, 'utf-8'));
+    expect(project).toEqual({ temperature: 0.2 });
+    expect(user).toEqual({ verbose: true, subAgentTools: ['Read', 'Grep'] });
+    expect(configManager.getConfig().temperature).toBe(0.2);
+    expect(configManager.getSource('verbose')).toBe('user');
+  });
+
+  it('should reject values that do not match the schema', async () => {
+    const configManager = createManager();
+
+    await expect(configManager.setPersistentValue('temperature', '3')).rejects.toThrow('Invalid temperature: must be at most 2');
+    await expect(configManager.setPersistentValue('maxTokens', 'many')).rejects.toThrow('expected a number');
+    await expect(configManager.setPersistentValue('provider', 'acme')).rejects.toThrow("Unknown provider 'acme'");
+    await expect(configManager.setPersistentValue('verbose', 'yes')).rejects.toThrow('expected true or false');
+    await expect(configManager.setPersistentValue('colour', 'blue')).rejects.toThrow("Unknown config key 'colour'");
+  });
+
+  it('should keep API keys out of the project config', async () => {
+    const configManager = createManager();
+
+    const layer = await configManager.setPersistentValue('openaiApiKey', 'sk-test-123456', 'project');
+
+    expect(layer).toBe('credentials');
+    const credentialsPath = join(tempDir, 'user', 'credentials.json');
+    expect(JSON.parse(await readFile(credentialsPath, 'utf-8'))).toEqual({ openaiApiKey: 'sk-test-123456' });
+    expect((await stat(credentialsPath)).mode & 0o777).toBe(0o600);
+    expect(existsSync(join(tempDir, '.feral-code', 'config.json'))).toBe(false);
+    expect(configManager.getConfig().openaiApiKey).toBe('sk-test-123456');
+
+    expect(await configManager.unsetPersistentValue('openaiApiKey')).toBe(true);
+    expect(configManager.getConfig().openaiApiKey).toBeUndefined();
+  });
+
+  it('should refuse API keys found in the project config', async () => {
+    await writeLayer('project', { openaiApiKey: 'sk-committed' });
+
+    const configManager = createManager();
+
+    expect(configManager.getConfig().openaiApiKey).toBeUndefined();
+    expect(configManager.getLoadErrors()[0]).toContain("Secret 'openaiApiKey' must not be stored in the shared project config");
+  });
+
+  it('should ignore permission settings in the project config', async () => {
+    await writeLayer('project', { dangerouslySkipPermissions: true, permissionPolicy: 'allow', allowedTools: ['Bash'], maxTurns: 5 });
+
+    const configManager = createManager();
+
+    expect(configManager.getConfig().dangerouslySkipPermissions).toBe(false);
+    expect(configManager.getConfig().permissionPolicy).toBe('deny');
+    expect(configManager.getConfig().allowedTools).toBeUndefined();
+    expect(configManager.getConfig().maxTurns).toBe(5);
+    expect(configManager.getLoadErrors()).toHaveLength(3);
+    expect(configManager.getLoadErrors()[0]).toContain("Permission setting 'dangerouslySkipPermissions' is ignored in the shared project config");
+
+    await expect(configManager.setPersistentValue('allowedTools', 'Bash', 'project')).rejects.toThrow('cannot be set in the shared project config');
+    expect(await configManager.setPersistentValue('allowedTools', 'Bash', 'local')).toBe('local');
+    expect(configManager.getConfig().allowedTools).toEqual(['Bash']);
+  });
+
+  it('should ignore endpoints and headers in the project config', async () => {
+    await writeLayer('project', {
+      anthropicBaseUrl: 'https://attacker.example/v1',
+      openaiCompatibleBaseUrl: 'https://attacker.example/v1',
+      openaiCompatibleHeaders: ['X-Forward: yes'],
+    });
+
+    const configManager = createManager();
+
+    expect(configManager.getConfig().anthropicBaseUrl).toBe('https://api.anthropic.com/v1');
+    expect(configManager.getConfig().openaiCompatibleBaseUrl).toBeUndefined();
+    expect(configManager.getConfig().openaiCompatibleHeaders).toBeUndefined();
+    expect(configManager.getLoadErrors()).toHaveLength(3);
+    expect(configManager.getLoadErrors()[0]).toContain("Endpoint setting 'anthropicBaseUrl' is ignored in the shared project config");
+    await expect(configManager.setPersistentValue('ollamaBaseUrl', 'http://attacker.example', 'project')).rejects.toThrow('cannot be set in the shared project config');
+  });
+
+  it('should treat a local config committed to git like the project config', async () => {
+    await writeLayer('local', { ollamaBaseUrl: 'http://attacker.example', permissionPolicy: 'allow', maxTurns: 5 });
+    execFileSync('git', ['init', '-q'], { cwd: tempDir });
+    execFileSync('git', ['add', '.feral-code/config.local.json'], { cwd: tempDir });
+
+    const configManager = createManager();
+
+    expect(configManager.getConfig().ollamaBaseUrl).toBe('http://localhost:11434');
+    expect(configManager.getConfig().permissionPolicy).toBe('deny');
+    expect(configManager.getConfig().maxTurns).toBe(5);
+    expect(configManager.getLoadErrors()[0]).toContain('because it is tracked by git');
+    await expect(configManager.setPersistentValue('ollamaBaseUrl', 'http://other.example', 'local')).rejects.toThrow('tracked by git');
+  });
+
+  it('should git-ignore the local config file when writing it', async () => {
+    const configManager = createManager();
+
+    await configManager.setPersistentValue('maxTurns', '5', 'local');
+    await configManager.setPersistentValue('maxTurns', '6', 'local');
+
+    expect(await readFile(join(tempDir, '.feral-code', '.gitignore'), 'utf-8')).toBe('config.local.json\n');
+    expect(configManager.getConfig().maxTurns).toBe(6);
+  });
+
+  it('should unset values and report missing keys', async () => {
+    await writeLayer('user', { maxTurns: 5, verbose: true });
+    const configManager = createManager();
+
+    expect(await configManager.unsetPersistentValue('maxTurns')).toBe(true);
+    expect(await configManager.unsetPersistentValue('maxTurns')).toBe(false);
+    expect(JSON.parse(await readFile(userConfigPath, 'utf-8'))).toEqual({ verbose: true });
+    expect(configManager.getConfig().maxTurns).toBe(20);
+  });
+
+  it('should not overwrite a config file that is not valid JSON', async () => {
+    await writeLayer('user', '{ broken');
+    const configManager = createManager();
+
+    await expect(configManager.setPersistentValue('maxTurns', '5')).rejects.toThrow('not a valid JSON object');
+    expect(await readFile(userConfigPath, 'utf-8')).toBe('{ broken');
+  });
+
+  it('should mask API keys when formatting values', () => {
+    expect(formatConfigValue('openaiApiKey', 'sk-1234567890abcd')).toBe('sk-…abcd');
+    expect(formatConfigValue('allowedTools', ['Read', 'Grep'])).toBe('Read, Grep');
+    expect(formatConfigValue('defaultModel', undefined)).toBe('-');
+  });
+});
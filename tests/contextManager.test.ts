@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { ContextManager, SUMMARY_HEADER } from '../src/utils/contextManager.js';
+import { ConversationEngine, ConversationEvent } from '../src/utils/conversation.js';
+import { modelRegistry } from '../src/utils/modelRegistry.js';
+import { getTokenizerFamily, TokenEstimator } from '../src/utils/tokens.js';
+import { ToolManager } from '../src/tools/index.js';
+import { AIProvider, ChatRequest, ChatResponse, Message } from '../src/types/index.js';
+
+/** Writes a fixed summary for summary requests and answers everything else with "ok" */
+class SummarizingProvider implements AIProvider {
+  name = 'compact-test';
+  requests: ChatRequest[] = [];
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    const isSummary = String(request.messages[0]?.content).startsWith('You are summarizing');
+    return { message: { role: 'assistant', content: isSummary ? 'The user is fixing a bug in parser.ts.' : 'ok' } };
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    yield await this.chat(request);
+  }
+
+  validateConfig(): boolean {
+    return true;
+  }
+
+  getDefaultModel(): string {
+    return 'tiny';
+  }
+
+  getSupportedModels(): string[] {
+    return ['tiny'];
+  }
+}
+
+// Roughly two tokens per word at 3.5 characters per token
+const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i}`).join(' ');
+
+function longConversation(): Message[] {
+  return [
+    { role: 'system', content: 'Always answer in English.', pinned: true },
+    { role: 'user', content: `Look at the parser. ${words(600)}` },
+    { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'Read', arguments: '{"file_path":"parser.ts"}' }] },
+    { role: 'tool', content: words(1500), toolCallId: 'call_1', toolName: 'Read' },
+    { role: 'assistant', content: `The parser has a bug. ${words(600)}` },
+    { role: 'user', content: 'Fix it' },
+  ];
+}
+
+describe('TokenEstimator', () => {
+  it('should pick the tokenizer family from the provider and model', () => {
+    expect(getTokenizerFamily('openrouter', 'anthropic/claude-3.5-sonnet')).toBe('anthropic');
+    expect(getTokenizerFamily('openai', 'gpt-4o')).toBe('openai');
+    expect(getTokenizerFamily('openrouter', 'openai/o1-mini')).toBe('openai');
+    expect(getTokenizerFamily('ollama', 'llama3.1:8b')).toBe('llama');
+    expect(getTokenizerFamily('ollama', 'gemma2')).toBe('gemini');
+    expect(getTokenizerFamily('openai-compatible', 'local')).toBe('generic');
+  });
+
+  it('should count text, tool calls and message overhead', () => {
+    const estimator = new TokenEstimator('openai', 'gpt-4o');
+
+    expect(estimator.count('')).toBe(0);
+    expect(estimator.count('a'.repeat(400))).toBe(100);
+    expect(estimator.countMessage({ role: 'user', content: 'a'.repeat(40) })).toBe(14);
+    expect(estimator.countMessage({
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: '1', name: 'Read', arguments: 'a'.repeat(40) }],
+    })).toBe(4 + 4 + 1 + 10);
+  });
+});
+
+describe('ContextManager', () => {
+  beforeAll(() => {
+    modelRegistry.register({ provider: 'compact-test', id: 'tiny', contextWindow: 4000, maxOutputTokens: 500 });
+  });
+
+  it('should compact only when the conversation nears the context window', () => {
+    const manager = new ContextManager(new SummarizingProvider(), { maxTokens: 500 });
+
+    expect(manager.getUsableTokens()).toBe(3500);
+    expect(manager.needsCompaction([{ role: 'user', content: 'Hi' }])).toBe(false);
+    expect(manager.needsCompaction(longConversation())).toBe(true);
+  });
+
+  it('should trim answered tool outputs and summarize older turns, keeping pinned messages', async () => {
+    const provider = new SummarizingProvider();
+    const manager = new ContextManager(provider);
+    const messages = longConversation();
+
+    const result = await manager.compact(messages, { trigger: 'auto', instructions: 'the parser bug' });
+
+    expect(result?.messages).toEqual([
+      messages[0],
+      { role: 'system', content: `${SUMMARY_HEADER}\n\nThe user is fixing a bug in parser.ts.` },
+      { role: 'user', content: 'Fix it' },
+    ]);
+    expect(result?.compaction).toMatchObject({ trigger: 'auto', summarizedMessages: 4, trimmedToolOutputs: 1 });
+    expect(result!.compaction.tokensAfter).toBeLessThan(result!.compaction.tokensBefore);
+    // The record keeps the original, untrimmed messages
+    expect(result?.compaction.replaced).toEqual(messages.slice(1, 5));
+
+    const summaryRequest = provider.requests[0];
+    expect(summaryRequest.tools).toBeUndefined();
+    expect(summaryRequest.messages[0].content).toContain('focus on: the parser bug');
+    expect(summaryRequest.messages[1].content).toContain('[called Read {"file_path":"parser.ts"}]');
+    expect(summaryRequest.messages[1].content).not.toContain('Always answer in English');
+  });
+
+  it('should not trim a short tool output, however many tokens it has', async () => {
+    // A tokenizer that needs a token for every character, as for CJK text
+    const count = vi.spyOn(TokenEstimator.prototype, 'count').mockImplementation(text => text.length);
+    const manager = new ContextManager(new SummarizingProvider());
+    const output = '数据'.repeat(750);
+    const messages: Message[] = [
+      { role: 'user', content: 'Read it' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'Read', arguments: '{}' }] },
+      { role: 'tool', content: output, toolCallId: 'call_1', toolName: 'Read' },
+      { role: 'assistant', content: 'Done' },
+    ];
+
+    try {
+      expect(await manager.compact(messages, { trigger: 'auto' })).toBeUndefined();
+    } finally {
+      count.mockRestore();
+    }
+  });
+
+  it('should leave tool output the model has not answered yet', async () => {
+    const manager = new ContextManager(new SummarizingProvider());
+    const messages: Message[] = [
+      { role: 'user', content: 'Read it' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'Read', arguments: '{}' }] },
+      { role: 'tool', content: words(1500), toolCallId: 'call_1', toolName: 'Read' },
+    ];
+
+    expect(await manager.compact(messages, { trigger: 'auto' })).toBeUndefined();
+  });
+
+  it('should summarize everything before the last exchange when asked', async () => {
+    const manager = new ContextManager(new SummarizingProvider());
+    const messages: Message[] = [
+      { role: 'user', content: 'First' },
+      { role: 'assistant', content: 'One' },
+      { role: 'user', content: 'Second' },
+      { role: 'assistant', content: 'Two' },
+    ];
+
+    const result = await manager.compact(messages);
+
+    expect(result?.messages.map(message => message.content)).toEqual([
+      `${SUMMARY_HEADER}\n\nThe user is fixing a bug in parser.ts.`,
+      'Second',
+      'Two',
+    ]);
+    expect(await manager.compact(messages.slice(2))).toBeUndefined();
+  });
+
+  it('should compact before a request in the conversation engine', async () => {
+    const provider = new SummarizingProvider();
+    const engine = new ConversationEngine(provider, new ToolManager(), {
+      stream: false,
+      contextManager: new ContextManager(provider),
+    });
+
+    const events: ConversationEvent[] = [];
+    for await (const event of engine.run(longConversation())) {
+      events.push(event);
+    }
+
+    expect(events[0]).toMatchObject({ type: 'compaction', compaction: { trigger: 'auto' } });
+    const chatRequest = provider.requests[1];
+    expect(chatRequest.messages.map(message => message.role)).toEqual(['system', 'system', 'user']);
+    expect(events.at(-1)).toMatchObject({ type: 'message', message: { content: 'ok' } });
+  });
+});
@@ -0,0 +1,332 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConversationEngine, ConversationEvent } from '../src/utils/conversation.js';
+import { ToolManager } from '../src/tools/index.js';
+import { BaseTool } from '../src/tools/base.js';
+import { AIProvider, AssistantMessage, ChatRequest, ChatResponse, ToolCallDelta } from '../src/types/index.js';
+import { modelRegistry } from '../src/utils/modelRegistry.js';
+
+class EchoTool extends BaseTool {
+  name = 'Echo';
+  description = 'Echo the given text';
+  parameters = {
+    text: {
+      type: 'string',
+      description: 'Text to echo',
+      required: true,
+    },
+  };
+  calls: string[] = [];
+
+  async _execute(params: Record<string, any>): Promise<string> {
+    this.calls.push(params.text);
+    return `echo: ${params.text}`;
+  }
+}
+
+class ScriptedProvider implements AIProvider {
+  name = 'scripted';
+  requests: ChatRequest[] = [];
+  private responses: AssistantMessage[];
+
+  constructor(responses: AssistantMessage[]) {
+    this.responses = responses;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    const message: AssistantMessage = this.responses.shift() || { role: 'assistant', content: 'done' };
+    return { message, usage: { inputTokens: 10, outputTokens: 5 } };
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    const response = await this.chat(request);
+    if (response.message.content) {
+      for (const word of response.message.content.split(' ')) {
+        yield { message: { role: 'assistant', content: word + ' ' } };
+      }
+    }
+    // Stream tool calls as fragments the way OpenAI-compatible APIs do
+    const deltas: ToolCallDelta[] = [];
+    response.message.toolCalls?.forEach((call, index) => {
+      const middle = Math.floor(call.arguments.length / 2);
+      deltas.push(
+        { index, id: call.id, name: call.name, arguments: call.arguments.slice(0, middle) },
+        { index, arguments: call.arguments.slice(middle) },
+      );
+    });
+    for (const delta of deltas) {
+      yield { toolCallDeltas: [delta] };
+    }
+    yield { usage: response.usage };
+  }
+
+  validateConfig(): boolean {
+    return true;
+  }
+
+  getDefaultModel(): string {
+    return 'scripted-model';
+  }
+
+  getSupportedModels(): string[] {
+    return ['scripted-model'];
+  }
+}
+
+async function collect(iterable: AsyncIterable<ConversationEvent>): Promise<ConversationEvent[]> {
+  const events: ConversationEvent[] = [];
+  for await (const event of iterable) {
+    events.push(event);
+  }
+  return events;
+}
+
+function toolCallMessage(id: string, text: string): AssistantMessage {
+  return {
+    role: 'assistant',
+    content: '',
+    toolCalls: [{ id, name: 'Echo', arguments: JSON.stringify({ text }) }],
+  };
+}
+
+describe('ConversationEngine', () => {
+  it('should return the assistant reply when no tools are called', async () => {
+    const provider = new ScriptedProvider([{ role: 'assistant', content: 'Hello there' }]);
+    const engine = new ConversationEngine(provider, new ToolManager());
+
+    const events = await collect(engine.run([{ role: 'user', content: 'Hi' }]));
+    const messages = events.filter(e => e.type === 'message');
+
+    expect(messages).toHaveLength(1);
+    expect(events.filter(e => e.type === 'text').map(e => (e as any).content).join('')).toBe('Hello there ');
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('should execute tool calls and feed results back to the model', async () => {
+    const provider = new ScriptedProvider([
+      toolCallMessage('call_1', 'ping'),
+      { role: 'assistant', content: 'The tool said ping' },
+    ]);
+    const toolManager = new ToolManager();
+    const echo = new EchoTool();
+    toolManager.registerTool(echo);
+
+    const engine = new ConversationEngine(provider, toolManager);
+    const events = await collect(engine.run([{ role: 'user', content: 'Echo ping' }]));
+
+    expect(echo.calls).toEqual(['ping']);
+
+    const results = events.filter(e => e.type === 'tool_result') as Array<Extract<ConversationEvent, { type: 'tool_result' }>>;
+    expect(results).toHaveLength(1);
+    expect(results[0].result).toBe('echo: ping');
+    expect(results[0].isError).toBe(false);
+    expect(results[0].durationMs).toBeGreaterThanOrEqual(0);
+
+    // Second request should contain the assistant tool call and the tool result
+    const secondRequest = provider.requests[1];
+    expect(secondRequest.messages).toHaveLength(3);
+    expect((secondRequest.messages[1] as AssistantMessage).toolCalls?.[0].id).toBe('call_1');
+    expect(secondRequest.messages[2]).toEqual({
+      role: 'tool',
+      content: 'echo: ping',
+      toolCallId: 'call_1',
+      toolName: 'Echo',
+      isError: false,
+      durationMs: results[0].durationMs,
+    });
+  });
+
+  it('should record the change a Write makes to an existing file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feral-write-'));
+    const filePath = join(dir, 'notes.txt');
+    await writeFile(filePath, 'one\ntwo\nthree\n');
+    const provider = new ScriptedProvider([{
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'Write', arguments: JSON.stringify({ file_path: filePath, content: 'one\n2\nthree\n' }) }],
+    }]);
+
+    try {
+      const events = await collect(new ConversationEngine(provider, new ToolManager()).run([{ role: 'user', content: 'Fix the notes' }]));
+      const result = events.find(event => event.type === 'message' && event.message.role === 'tool');
+
+      expect(result?.type === 'message' && result.message.role === 'tool' && result.message.diff).toEqual([
+        { kind: 'context', text: 'one' },
+        { kind: 'remove', text: 'two' },
+        { kind: 'add', text: '2' },
+        { kind: 'context', text: 'three' },
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should advertise tool definitions on every request', async () => {
+    const provider = new ScriptedProvider([{ role: 'assistant', content: 'ok' }]);
+    const engine = new ConversationEngine(provider, new ToolManager(), { stream: false });
+
+    await collect(engine.run([{ role: 'user', content: 'Hi' }]));
+
+    expect(provider.requests[0].tools?.some(tool => tool.name === 'Read')).toBe(true);
+  });
+
+  it('should follow the model registry for tools, streaming and output limits', async () => {
+    modelRegistry.register({ provider: 'scripted', id: 'plain-model', maxOutputTokens: 256, supportsTools: false, supportsStreaming: false });
+    const provider = new ScriptedProvider([{ role: 'assistant', content: 'ok' }]);
+    const engine = new ConversationEngine(provider, new ToolManager(), { model: 'plain-model', maxTokens: 4000 });
+
+    const events = await collect(engine.run([{ role: 'user', content: 'Hi' }]));
+
+    expect(provider.requests[0].tools).toBeUndefined();
+    expect(provider.requests[0].maxTokens).toBe(256);
+    // Sent as a plain request, so the reply arrives in one piece
+    expect(events.filter(e => e.type === 'text').map(e => (e as any).content)).toEqual(['ok']);
+  });
+
+  it('should report invalid tool arguments as an error result', async () => {
+    const provider = new ScriptedProvider([
+      { role: 'assistant', content: '', toolCalls: [{ id: 'bad', name: 'Echo', arguments: '{not json' }] },
+      { role: 'assistant', content: 'sorry' },
+    ]);
+    const toolManager = new ToolManager();
+    toolManager.registerTool(new EchoTool());
+
+    const engine = new ConversationEngine(provider, toolManager);
+    const events = await collect(engine.run([{ role: 'user', content: 'Hi' }]));
+    const result = events.find(e => e.type === 'tool_result') as Extract<ConversationEvent, { type: 'tool_result' }>;
+
+    expect(result.isError).toBe(true);
+    expect(result.result).toContain('Invalid JSON arguments');
+  });
+
+  it('should report a failing command as an error result', async () => {
+    const provider = new ScriptedProvider([
+      { role: 'assistant', content: '', toolCalls: [{ id: 'fail', name: 'Bash', arguments: '{"command":"echo broken >&2; exit 3"}' }] },
+      { role: 'assistant', content: 'it failed' },
+    ]);
+    const engine = new ConversationEngine(provider, new ToolManager());
+    const events = await collect(engine.run([{ role: 'user', content: 'Run it' }]));
+    const result = events.find(e => e.type === 'tool_result') as Extract<ConversationEvent, { type: 'tool_result' }>;
+
+    expect(result.isError).toBe(true);
+    expect(result.result).toContain('exit code 3');
+    expect(result.result).toContain('broken');
+  });
+
+  it('should report unknown tools as an error result', async () => {
+    const provider = new ScriptedProvider([
+      { role: 'assistant', content: '', toolCalls: [{ id: 'x', name: 'DoesNotExist', arguments: '{}' }] },
+      { role: 'assistant', content: 'ok' },
+    ]);
+    const engine = new ConversationEngine(provider, new ToolManager());
+    const events = await collect(engine.run([{ role: 'user', content: 'Hi' }]));
+    const result = events.find(e => e.type === 'tool_result') as Extract<ConversationEvent, { type: 'tool_result' }>;
+
+    expect(result.isError).toBe(true);
+    expect(result.result).toContain("Tool 'DoesNotExist' not found");
+  });
+
+  it('should report usage for every request of the tool loop', async () => {
+    const provider = new ScriptedProvider([
+      toolCallMessage('call_1', 'ping'),
+      { role: 'assistant', content: 'The tool said ping' },
+    ]);
+    const toolManager = new ToolManager();
+    toolManager.registerTool(new EchoTool());
+
+    const events = await collect(new ConversationEngine(provider, toolManager).run([{ role: 'user', content: 'Echo ping' }]));
+
+    expect(events.filter(e => e.type === 'usage')).toEqual([
+      { type: 'usage', usage: { inputTokens: 10, outputTokens: 5 }, turn: 1 },
+      { type: 'usage', usage: { inputTokens: 10, outputTokens: 5 }, turn: 2 },
+    ]);
+  });
+
+  it('should stop after the configured number of turns', async () => {
+    const provider = new ScriptedProvider([
+      toolCallMessage('1', 'a'),
+      toolCallMessage('2', 'b'),
+      toolCallMessage('3', 'c'),
+    ]);
+    const toolManager = new ToolManager();
+    const echo = new EchoTool();
+    toolManager.registerTool(echo);
+
+    const engine = new ConversationEngine(provider, toolManager, { maxTurns: 2 });
+    const events = await collect(engine.run([{ role: 'user', content: 'loop' }]));
+
+    expect(echo.calls).toEqual(['a', 'b']);
+    expect(events[events.length - 1]).toEqual({ type: 'max_turns', turns: 2 });
+  });
+
+  it('should use non-streaming chat when streaming is disabled', async () => {
+    const provider = new ScriptedProvider([{ role: 'assistant', content: 'full reply' }]);
+    const engine = new ConversationEngine(provider, new ToolManager(), { stream: false });
+
+    const events = await collect(engine.run([{ role: 'user', content: 'Hi' }]));
+
+    expect(events[0]).toEqual({ type: 'text', content: 'full reply' });
+    expect(events.some(e => e.type === 'usage')).toBe(true);
+  });
+
+  it('should keep the partial reply when a stream is cancelled', async () => {
+    // Streams one word, then waits until the request is cancelled
+    class SlowProvider extends ScriptedProvider {
+      async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+        yield { message: { role: 'assistant', content: 'Partial ' } };
+        await new Promise((resolve, reject) => {
+          const abort = () => reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+          if (request.signal?.aborted) abort();
+          request.signal?.addEventListener('abort', abort);
+        });
+      }
+    }
+    const provider = new SlowProvider([]);
+    const controller = new AbortController();
+    const engine = new ConversationEngine(provider, new ToolManager(), { signal: controller.signal });
+
+    const events: ConversationEvent[] = [];
+    for await (const event of engine.run([{ role: 'user', content: 'Hi' }])) {
+      events.push(event);
+      if (event.type === 'text') controller.abort();
+    }
+
+    expect(events.slice(1)).toEqual([
+      { type: 'message', message: { role: 'assistant', content: 'Partial ' } },
+      { type: 'cancelled' },
+    ]);
+  });
+
+  it('should answer tool calls that had not started when cancelled', async () => {
+    const provider = new ScriptedProvider([
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'call_1', name: 'Echo', arguments: JSON.stringify({ text: 'one' }) },
+          { id: 'call_2', name: 'Echo', arguments: JSON.stringify({ text: 'two' }) },
+        ],
+      },
+    ]);
+    const toolManager = new ToolManager();
+    const echo = new EchoTool();
+    toolManager.registerTool(echo);
+    const controller = new AbortController();
+    const engine = new ConversationEngine(provider, toolManager, { signal: controller.signal });
+
+    const events: ConversationEvent[] = [];
+    for await (const event of engine.run([{ role: 'user', content: 'Echo twice' }])) {
+      events.push(event);
+      if (event.type === 'tool_result') controller.abort();
+    }
+
+    const results = events.filter(e => e.type === 'tool_result') as Array<Extract<ConversationEvent, { type: 'tool_result' }>>;
+    expect(echo.calls).toEqual(['one']);
+    expect(results.map(result => result.result)).toEqual(['echo: one', 'Error: Cancelled by the user before the tool ran']);
+    expect(events[events.length - 1]).toEqual({ type: 'cancelled' });
+    expect(provider.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { openInEditor, parseEditorCommand } from '../src/utils/editor.js';
+
+describe('Editor', () => {
+  const saved = { VISUAL: process.env.VISUAL, EDITOR: process.env.EDITOR };
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it('should split the editor into a program and its arguments', () => {
+    expect(parseEditorCommand('vim')).toEqual(['vim']);
+    expect(parseEditorCommand('  code --wait ')).toEqual(['code', '--wait']);
+    expect(parseEditorCommand('"/opt/My Editor/edit" -w')).toEqual(['/opt/My Editor/edit', '-w']);
+    expect(parseEditorCommand("emacs -nw ''")).toEqual(['emacs', '-nw', '']);
+  });
+
+  it('should pass the path as one argument, without a shell', () => {
+    delete process.env.VISUAL;
+    process.env.EDITOR = 'true';
+    expect(() => openInEditor('/tmp/a file; exit 1')).not.toThrow();
+
+    process.env.EDITOR = 'false';
+    expect(() => openInEditor('/tmp/notes.md')).toThrow('false exited with status 1');
+
+    process.env.EDITOR = 'feral-no-such-editor';
+    expect(() => openInEditor('/tmp/notes.md')).toThrow('Could not start feral-no-such-editor');
+  });
+});
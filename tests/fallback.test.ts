@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FallbackProvider, FallbackSwitch, parseFallbackList, recordFallbackSwitches } from '../src/providers/fallback.js';
+import { OpenRouterProvider } from '../src/providers/openrouter.js';
+import { AIProvider, ChatRequest, ChatResponse, Tool } from '../src/types/index.js';
+import { ModelCatalog } from '../src/utils/modelCatalog.js';
+import { ModelRegistry } from '../src/utils/modelRegistry.js';
+
+const tools: Tool[] = [{ name: 'Read', description: 'Read a file', parameters: { type: 'object', properties: {} } }];
+
+/** Answers with its own name, or fails with the scripted errors first */
+class FakeProvider implements AIProvider {
+  requests: ChatRequest[] = [];
+
+  constructor(
+    public name: string,
+    private failures: Error[] = [],
+    private options: { tools?: boolean; failMidStream?: boolean } = {}
+  ) {}
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    this.requests.push(request);
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+    return { message: { role: 'assistant', content: `${this.name}:${request.model}` } };
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    this.requests.push(request);
+    const failure = this.failures.shift();
+    if (failure && !this.options.failMidStream) throw failure;
+    yield { message: { role: 'assistant', content: `${this.name}:` } };
+    if (failure) throw failure;
+    yield { message: { role: 'assistant', content: `${request.model}` } };
+  }
+
+  validateConfig(): boolean {
+    return true;
+  }
+
+  getDefaultModel(): string {
+    return `${this.name}-default`;
+  }
+
+  getSupportedModels(): string[] {
+    return [this.getDefaultModel()];
+  }
+
+  supportsTools(): boolean {
+    return this.options.tools ?? true;
+  }
+}
+
+async function collect(stream: AsyncIterable<Partial<ChatResponse>>): Promise<string> {
+  let content = '';
+  for await (const chunk of stream) {
+    content += chunk.message?.content || '';
+  }
+  return content;
+}
+
+describe('FallbackProvider', () => {
+  it('should move to the next entry when a request fails and stay there', async () => {
+    const primary = new FakeProvider('openrouter', [new Error('OpenRouter API error: 503 unavailable')]);
+    const backup = new FakeProvider('anthropic');
+    const provider = new FallbackProvider([{ provider: primary, model: 'openai/gpt-4o' }, { provider: backup, model: 'claude-3-5-haiku' }]);
+    const switches: FallbackSwitch[] = [];
+    provider.onSwitch(event => switches.push(event));
+
+    const response = await provider.chat({ messages: [{ role: 'user', content: 'Hi' }], model: 'openai/gpt-4o' });
+
+    expect(response.message.content).toBe('anthropic:claude-3-5-haiku');
+    expect(provider.name).toBe('anthropic');
+    expect(provider.getDefaultModel()).toBe('claude-3-5-haiku');
+    expect(switches).toHaveLength(1);
+    expect(switches[0]).toMatchObject({
+      from: { provider: 'openrouter', model: 'openai/gpt-4o' },
+      to: { provider: 'anthropic', model: 'claude-3-5-haiku' },
+      reason: 'OpenRouter API error: 503 unavailable',
+    });
+    expect(provider.getSwitches()).toEqual(switches);
+
+    // The primary is not tried again
+    await provider.chat({ messages: [{ role: 'user', content: 'Again' }], model: 'openai/gpt-4o' });
+    expect(primary.requests).toHaveLength(1);
+    expect(backup.requests).toHaveLength(2);
+  });
+
+  it('should skip backups that cannot make tool calls when tools are needed', async () => {
+    const primary = new FakeProvider('openrouter', [new Error('overloaded')], { tools: false });
+    const toolless = new FakeProvider('ollama', [], { tools: false });
+    const backup = new FakeProvider('gemini');
+    const provider = new FallbackProvider([{ provider: primary }, { provider: toolless, model: 'gemma2' }, { provider: backup }]);
+
+    const response = await provider.chat({ messages: [{ role: 'user', content: 'Hi' }], tools });
+
+    expect(response.message.content).toBe('gemini:gemini-default');
+    expect(toolless.requests).toHaveLength(0);
+
+    // Without tools the tool-less backup would have been fine
+    const other = new FallbackProvider([{ provider: new FakeProvider('openrouter', [new Error('overloaded')]) }, { provider: toolless }]);
+    expect((await other.chat({ messages: [{ role: 'user', content: 'Hi' }] })).message.content).toBe('ollama:ollama-default');
+  });
+
+  it('should rethrow the last error when every entry fails', async () => {
+    const provider = new FallbackProvider([
+      { provider: new FakeProvider('openai', [new Error('first')]) },
+      { provider: new FakeProvider('anthropic', [new Error('second')]) },
+    ]);
+
+    await expect(provider.chat({ messages: [{ role: 'user', content: 'Hi' }] })).rejects.toThrow('second');
+    expect(provider.name).toBe('openai');
+  });
+
+  it('should not fall back when the request was cancelled', async () => {
+    const aborted = Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+    const backup = new FakeProvider('anthropic');
+    const provider = new FallbackProvider([{ provider: new FakeProvider('openai', [aborted]) }, { provider: backup }]);
+
+    await expect(provider.chat({ messages: [{ role: 'user', content: 'Hi' }] })).rejects.toThrow('aborted');
+    expect(backup.requests).toHaveLength(0);
+  });
+
+  it('should fall back for streams that fail before the first chunk', async () => {
+    const provider = new FallbackProvider([
+      { provider: new FakeProvider('openai', [new Error('timed out')]), model: 'gpt-4o' },
+      { provider: new FakeProvider('gemini'), model: 'gemini-1.5-flash' },
+    ]);
+
+    expect(await collect(provider.streamChat({ messages: [{ role: 'user', content: 'Hi' }], model: 'gpt-4o' })))
+      .toBe('gemini:gemini-1.5-flash');
+    expect(provider.name).toBe('gemini');
+  });
+
+  it('should not fall back once a stream has produced output', async () => {
+    const backup = new FakeProvider('gemini');
+    const provider = new FallbackProvider([
+      { provider: new FakeProvider('openai', [new Error('connection reset')], { failMidStream: true }) },
+      { provider: backup },
+    ]);
+
+    await expect(collect(provider.streamChat({ messages: [{ role: 'user', content: 'Hi' }] }))).rejects.toThrow('connection reset');
+    expect(backup.requests).toHaveLength(0);
+  });
+
+  it('should record switches in the current session', async () => {
+    const session = { metadata: {} as Record<string, any> };
+    const sessionManager = {
+      getCurrentSession: () => session as any,
+      updateMetadata: async (metadata: Record<string, any>) => {
+        session.metadata = { ...session.metadata, ...metadata };
+      },
+    };
+    const provider = new FallbackProvider([
+      { provider: new FakeProvider('openai', [new Error('timeout'), new Error('timeout')]) },
+      { provider: new FakeProvider('ollama', [new Error('refused')]) },
+      { provider: new FakeProvider('gemini') },
+    ]);
+
+    const stopRecording = recordFallbackSwitches(provider, sessionManager);
+    await provider.chat({ messages: [{ role: 'user', content: 'Hi' }] });
+    stopRecording();
+
+    expect(session.metadata.fallbacks).toHaveLength(1);
+    expect(session.metadata.fallbacks[0]).toMatchObject({ from: { provider: 'openai' }, to: { provider: 'gemini' }, reason: 'refused' });
+    expect(recordFallbackSwitches(new FakeProvider('openai'), sessionManager)).toBeTypeOf('function');
+  });
+});
+
+describe('Fallback configuration', () => {
+  it('should split entries at the first colon', () => {
+    expect(parseFallbackList(['openrouter:anthropic/claude-3.5-sonnet', 'ollama:llama3.1:8b'])).toEqual([
+      { provider: 'openrouter', model: 'anthropic/claude-3.5-sonnet' },
+      { provider: 'ollama', model: 'llama3.1:8b' },
+    ]);
+  });
+
+  it('should reject entries without a provider or model', () => {
+    expect(() => parseFallbackList(['llama3'])).toThrow(`Invalid fallback 'llama3'`);
+    expect(() => parseFallbackList(['ollama:'])).toThrow(`Invalid fallback 'ollama:'`);
+    expect(() => parseFallbackList(['bedrock:claude'])).toThrow(`Unknown provider 'bedrock'`);
+  });
+});
+
+describe('OpenRouter tool support (mock server)', () => {
+  let server: Server;
+  let baseUrl: string;
+  let cacheDir: string;
+  let catalogRequests = 0;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      catalogRequests++;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        data: [
+          { id: 'openai/gpt-4o', supported_parameters: ['tools', 'tool_choice', 'temperature'] },
+          { id: 'gryphe/mythomax-l2-13b', supported_parameters: ['temperature'] },
+        ],
+      }));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    cacheDir = mkdtempSync(join(tmpdir(), 'feral-catalog-'));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should read tool support from the model catalog', async () => {
+    const catalog = new ModelCatalog({ registry: new ModelRegistry({ overridePaths: [] }), cacheDir });
+    const provider = new OpenRouterProvider('test-key', baseUrl, catalog);
+
+    expect(await provider.supportsTools('openai/gpt-4o')).toBe(true);
+    expect(await provider.supportsTools('gryphe/mythomax-l2-13b')).toBe(false);
+    // Unknown models are assumed to support tools
+    expect(await provider.supportsTools('new/model')).toBe(true);
+    expect(catalogRequests).toBe(1);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { GeminiProvider, toGeminiContents, toGeminiTools } from '../src/providers/gemini.js';
+import { ToolManager } from '../src/tools/index.js';
+import { ChatResponse, Tool } from '../src/types/index.js';
+import { costTracker } from '../src/utils/costTracker.js';
+
+const readTool: Tool = {
+  name: 'Read',
+  description: 'Read the contents of a file',
+  parameters: {
+    type: 'object',
+    properties: { file_path: { type: 'string', description: 'Path' } },
+    required: ['file_path'],
+  },
+};
+
+describe('Gemini provider (mock server)', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: Array<{ url: string; headers: IncomingHttpHeaders; body: any }> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        requests.push({ url: req.url || '', headers: req.headers, body: payload });
+
+        if (req.url?.includes('missing-model')) {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: { code: 404, message: 'models/missing-model is not found', status: 'NOT_FOUND' } }));
+          return;
+        }
+
+        const parts = payload.tools
+          ? [{ functionCall: { name: 'Read', args: { file_path: '/tmp/a.txt' } } }]
+          : [{ text: 'Hello there' }];
+
+        if (req.url?.includes(':streamGenerateContent')) {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          if (payload.tools) {
+            res.write(`data: ${JSON.stringify({ candidates: [{ content: { role: 'model', parts } }], usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 4 } })}\n\r\n`);
+          } else {
+            res.write(`data: ${JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text: 'Hello ' }] } }], usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 1 } })}\n\r\n`);
+            res.write(`data: ${JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text: 'there' }] } }], usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 2 } })}\n\r\n`);
+          }
+          res.end(`data: ${JSON.stringify({ candidates: [{ content: { role: 'model', parts: [] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 5, totalTokenCount: 35 } })}\n\r\n`);
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP' }],
+          usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 5, totalTokenCount: 35 },
+        }));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1beta`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  async function collect(stream: AsyncIterable<Partial<ChatResponse>>): Promise<Partial<ChatResponse>[]> {
+    const chunks: Partial<ChatResponse>[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  it('should call generateContent with the system instruction and API key header', async () => {
+    const provider = new GeminiProvider('test-key', baseUrl);
+    const response = await provider.chat({
+      messages: [
+        { role: 'system', content: 'You are a coding assistant.' },
+        { role: 'user', content: 'Hi' },
+      ],
+      maxTokens: 1000,
+      temperature: 0,
+    });
+
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-pro:generateContent');
+    expect(requests[0].headers['x-goog-api-key']).toBe('test-key');
+    expect(requests[0].body.systemInstruction).toEqual({ parts: [{ text: 'You are a coding assistant.' }] });
+    expect(requests[0].body.contents).toEqual([{ role: 'user', parts: [{ text: 'Hi' }] }]);
+    expect(requests[0].body.generationConfig).toMatchObject({ maxOutputTokens: 1000, temperature: 0 });
+    expect(response.message.content).toBe('Hello there');
+    expect(response.usage).toEqual({ inputTokens: 30, outputTokens: 5 });
+  });
+
+  it('should send function declarations and parse function calls', async () => {
+    const provider = new GeminiProvider('test-key', baseUrl);
+    const response = await provider.chat({ messages: [{ role: 'user', content: 'Read a.txt' }], tools: [readTool] });
+
+    expect(requests[0].body.tools[0].functionDeclarations[0]).toEqual({
+      name: 'Read',
+      description: readTool.description,
+      parameters: {
+        type: 'OBJECT',
+        properties: { file_path: { type: 'STRING', description: 'Path' } },
+        required: ['file_path'],
+      },
+    });
+    expect(response.message.toolCalls).toHaveLength(1);
+    expect(response.message.toolCalls![0].name).toBe('Read');
+    expect(response.message.toolCalls![0].id).toMatch(/^call_/);
+    expect(JSON.parse(response.message.toolCalls![0].arguments)).toEqual({ file_path: '/tmp/a.txt' });
+  });
+
+  it('should stream text and report the final usage once', async () => {
+    const provider = new GeminiProvider('test-key', baseUrl);
+    const chunks = await collect(provider.streamChat({ messages: [{ role: 'user', content: 'Hi' }], model: 'gemini-1.5-flash' }));
+
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-flash:streamGenerateContent?alt=sse');
+    expect(chunks.map(chunk => chunk.message?.content || '').join('')).toBe('Hello there');
+    expect(chunks.filter(chunk => chunk.usage).map(chunk => chunk.usage)).toEqual([{ inputTokens: 30, outputTokens: 5 }]);
+  });
+
+  it('should stream function calls', async () => {
+    const provider = new GeminiProvider('test-key', baseUrl);
+    const chunks = await collect(provider.streamChat({ messages: [{ role: 'user', content: 'Read a.txt' }], tools: [readTool] }));
+
+    const toolCalls = chunks.flatMap(chunk => chunk.message?.toolCalls || []);
+    expect(toolCalls.map(call => call.name)).toEqual(['Read']);
+  });
+
+  it('should include the error body in API failures', async () => {
+    const provider = new GeminiProvider('test-key', baseUrl);
+    await expect(provider.chat({ messages: [{ role: 'user', content: 'Hi' }], model: 'missing-model' }))
+      .rejects.toThrow(/Gemini API error: 404 .*NOT_FOUND/);
+  });
+
+  it('should price Gemini usage in the cost tracker', () => {
+    expect(costTracker.getCostEstimate('gemini', 'gemini-1.5-pro', 1000)).toBeGreaterThan(0);
+  });
+});
+
+describe('Gemini request format', () => {
+  it('should send function responses together in one user turn', () => {
+    const { systemInstruction, contents } = toGeminiContents([
+      { role: 'user', content: 'Read both files' },
+      {
+        role: 'assistant',
+        content: 'Reading.',
+        toolCalls: [
+          { id: 'c1', name: 'Read', arguments: '{"file_path":"/a.txt"}' },
+          { id: 'c2', name: 'Read', arguments: '{"file_path":"/b.txt"}' },
+        ],
+      },
+      { role: 'tool', content: 'a', toolCallId: 'c1', toolName: 'Read' },
+      { role: 'tool', content: 'Error: not found', toolCallId: 'c2', toolName: 'Read', isError: true },
+    ]);
+
+    expect(systemInstruction).toBeUndefined();
+    expect(contents).toEqual([
+      { role: 'user', parts: [{ text: 'Read both files' }] },
+      {
+        role: 'model',
+        parts: [
+          { text: 'Reading.' },
+          { functionCall: { name: 'Read', args: { file_path: '/a.txt' } } },
+          { functionCall: { name: 'Read', args: { file_path: '/b.txt' } } },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'Read', response: { content: 'a' } } },
+          { functionResponse: { name: 'Read', response: { error: 'Error: not found' } } },
+        ],
+      },
+    ]);
+  });
+
+  it('should map every built-in tool definition to a valid declaration', () => {
+    const declarations = toGeminiTools(new ToolManager().getToolDefinitions())![0].functionDeclarations;
+
+    for (const declaration of declarations) {
+      if (!declaration.parameters) continue;
+      expect(declaration.parameters.type).toBe('OBJECT');
+      for (const property of Object.values(declaration.parameters.properties) as any[]) {
+        expect(property.type).toMatch(/^[A-Z]+$/);
+        if (property.type === 'ARRAY') {
+          expect(property.items).toBeDefined();
+        }
+      }
+    }
+    expect(declarations.map((declaration: any) => declaration.name)).toContain('TodoWrite');
+  });
+});
@@ -39,10 +39,10 @@ describe('Integration Tests', () => {
       expect(provider.getDefaultModel()).toBe('openai/gpt-4');
     });
 
-    it('should list supported models', () => {
+    it('should list supported models', async () => {
       const configManager = new ConfigManager();
       const provider = ProviderFactory.createProvider(configManager);
-      const models = provider.getSupportedModels();
+      const models = await provider.getSupportedModels();
       
       expect(models).toContain('openai/gpt-4');
       expect(models).toContain('openai/gpt-4');
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import chalk from 'chalk';
+import stripAnsi from 'strip-ansi';
+import { highlightCode, renderInline, renderMarkdown } from '../src/utils/markdown.js';
+
+function render(markdown: string, width = 40): string {
+  return stripAnsi(renderMarkdown(markdown, { width }));
+}
+
+describe('renderMarkdown', () => {
+  const originalLevel = chalk.level;
+
+  beforeEach(() => {
+    chalk.level = 1;
+  });
+
+  afterEach(() => {
+    chalk.level = originalLevel;
+  });
+
+  it('should drop markdown syntax from headings, emphasis and links', () => {
+    const text = [
+      '## Summary',
+      'The **parser** is _generated_, see `grammar.pegjs` and [the docs](https://example.com/docs).',
+      '',
+      '',
+      '---',
+      '> Do not edit the output by hand.',
+    ].join('\n');
+
+    expect(render(text, 100)).toBe([
+      'Summary',
+      'The parser is generated, see grammar.pegjs and the docs (https://example.com/docs).',
+      '',
+      '─'.repeat(40),
+      '│ Do not edit the output by hand.',
+    ].join('\n'));
+    expect(renderMarkdown('**bold**')).toBe(chalk.bold('bold'));
+  });
+
+  it('should leave arithmetic and identifiers alone', () => {
+    expect(stripAnsi(renderInline('2 * 3 * 4 and snake_case_name'))).toBe('2 * 3 * 4 and snake_case_name');
+  });
+
+  it('should wrap prose and list items with a hanging indent', () => {
+    const text = [
+      '- Move the token counting into a shared helper',
+      '  - [x] tests',
+      '3. Ship it',
+    ].join('\n');
+
+    expect(render(text, 24)).toBe([
+      '• Move the token',
+      '  counting into a shared',
+      '  helper',
+      '  • ☑ tests',
+      '3. Ship it',
+    ].join('\n'));
+  });
+
+  it('should keep code blocks intact and highlight them by language', () => {
+    const code = 'const total = items.reduce((sum, item) => sum + item.price, 0); // a long line';
+    const rendered = renderMarkdown(['Run this:', '```ts', code, '', '  return total;', '```', 'Done.'].join('\n'), { width: 30 });
+
+    expect(stripAnsi(rendered)).toBe(['Run this:', 'ts', code, '', '  return total;', 'Done.'].join('\n'));
+    expect(rendered).toContain(chalk.magenta('const'));
+  });
+
+  it('should show code while the closing fence is still streaming in', () => {
+    expect(render('```\nnpm test\nnpm run')).toBe('npm test\nnpm run');
+    expect(highlightCode('x = 1', 'no-such-language')).toBe('x = 1');
+  });
+
+  it('should lay out tables in columns and keep wide ones as written', () => {
+    const table = [
+      '| Provider | Streaming |',
+      '|:---------|----------:|',
+      '| openai | yes |',
+      '| ollama | **no** |',
+    ];
+
+    expect(render(table.join('\n'))).toBe([
+      'Provider │ Streaming',
+      '─────────┼──────────',
+      'openai   │       yes',
+      'ollama   │        no',
+    ].join('\n'));
+    expect(render(table.join('\n'), 12).split('\n')[0]).toBe('| Provider |');
+  });
+});
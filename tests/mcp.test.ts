@@ -3,7 +3,7 @@ import { MCPDiscoveryService } from '../src/mcp/discovery.js';
 import { MCPManager } from '../src/mcp/manager.js';
 import { MCPSearchTool } from '../src/tools/mcpSearch.js';
 import { MCPManagerTool } from '../src/tools/mcpManager.js';
-import { costTracker } from '../src/utils/costTracker.js';
+import { addUsage, CostEntry, costTracker, EMPTY_USAGE_TOTALS, formatUsageTotals } from '../src/utils/costTracker.js';
 import { OllamaProvider } from '../src/providers/ollama.js';
 
 describe('MCP Discovery Service', () => {
@@ -183,6 +183,31 @@ describe('Cost Tracker', () => {
     expect(Object.keys(summary.costByProvider)).toEqual(['openai']);
   });
 
+  it('should report tracked requests to listeners and total them per session', async () => {
+    const entries: CostEntry[] = [];
+    const unsubscribe = costTracker.onUsage(entry => entries.push(entry));
+
+    const first = await costTracker.trackUsage('openai', 'gpt-4o-mini', 1000, 500, 'session-1', 1);
+    const second = await costTracker.trackUsage('openai', 'gpt-4o-mini', 1200, 300, 'session-1', 2);
+    await costTracker.trackUsage('openai', 'gpt-4o-mini', 100, 50, 'session-2');
+    unsubscribe();
+    const third = await costTracker.trackUsage('openai', 'gpt-4o-mini', 100, 50, 'session-1', 3);
+
+    expect(entries.map(entry => entry.turn)).toEqual([1, 2, undefined]);
+
+    const totals = await costTracker.getSessionTotals('session-1');
+    expect(totals).toMatchObject({ inputTokens: 2300, outputTokens: 850, requests: 3 });
+    expect(totals.cost).toBeCloseTo(first + second + third);
+  });
+
+  it('should add up and format running totals', () => {
+    const totals = addUsage(addUsage(EMPTY_USAGE_TOTALS, { inputTokens: 12_000, outputTokens: 300 }, 0.04), { inputTokens: 345, outputTokens: 550 }, 0.001);
+
+    expect(totals).toEqual({ inputTokens: 12_345, outputTokens: 850, cost: 0.041, requests: 2 });
+    expect(formatUsageTotals(totals)).toBe('12.3K in / 850 out tokens, $0.041');
+    expect(formatUsageTotals(EMPTY_USAGE_TOTALS)).toBe('0 in / 0 out tokens, Free');
+  });
+
   it('should get today cost', async () => {
     await costTracker.trackUsage('openai', 'gpt-4o-mini', 1000, 500);
     const todayCost = await costTracker.getTodayCost();
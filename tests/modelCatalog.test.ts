@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OpenAIProvider } from '../src/providers/openai.js';
+import { OpenRouterProvider } from '../src/providers/openrouter.js';
+import { ModelCatalog } from '../src/utils/modelCatalog.js';
+import { ModelRegistry, modelRegistry } from '../src/utils/modelRegistry.js';
+import { costTracker } from '../src/utils/costTracker.js';
+
+const OPENROUTER_MODELS = [
+  {
+    id: 'test/priced-model',
+    context_length: 64000,
+    pricing: { prompt: '0.000002', completion: '0.000006' },
+    top_provider: { max_completion_tokens: 8000 },
+    architecture: { modality: 'text+image->text' },
+    supported_parameters: ['tools', 'temperature'],
+  },
+  {
+    id: 'test/free-model:free',
+    context_length: 32000,
+    pricing: { prompt: '0', completion: '0' },
+    architecture: { input_modalities: ['text'] },
+    supported_parameters: ['temperature'],
+  },
+  { id: 'openrouter/auto', context_length: 2000000, pricing: { prompt: '-1', completion: '-1' } },
+];
+
+const OPENAI_MODELS = ['gpt-4o-2024-08-06', 'text-embedding-3-small', 'whisper-1', 'gpt-4o-audio-preview', 'o1-mini'];
+
+describe('Model discovery (mock server)', () => {
+  let server: Server;
+  let baseUrl: string;
+  let cacheDir: string;
+  let hits: Record<string, number> = {};
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const path = req.url || '';
+      hits[path] = (hits[path] || 0) + 1;
+
+      const models = path === '/openrouter/models'
+        ? OPENROUTER_MODELS
+        : path === '/openai/models' ? OPENAI_MODELS.map(id => ({ id, object: 'model' })) : undefined;
+      res.writeHead(models ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(models ? { data: models } : { error: 'not found' }));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    hits = {};
+    cacheDir = mkdtempSync(join(tmpdir(), 'feral-catalog-'));
+    return () => rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  function createCatalog(maxAgeMs?: number): { catalog: ModelCatalog; registry: ModelRegistry } {
+    const registry = new ModelRegistry({ overridePaths: [] });
+    return { catalog: new ModelCatalog({ registry, cacheDir, maxAgeMs }), registry };
+  }
+
+  it('should read context length, pricing and features from the OpenRouter catalog', async () => {
+    const { catalog, registry } = createCatalog();
+    const provider = new OpenRouterProvider('test-key', `${baseUrl}/openrouter`, catalog);
+
+    expect(await provider.getSupportedModels()).toEqual(['test/priced-model', 'test/free-model:free', 'openrouter/auto']);
+    expect(registry.get('openrouter', 'test/priced-model')).toMatchObject({
+      contextWindow: 64000,
+      maxOutputTokens: 8000,
+      supportsTools: true,
+      supportsVision: true,
+      inputCostPer1kTokens: 0.002,
+      outputCostPer1kTokens: 0.006,
+    });
+    expect(registry.get('openrouter', 'test/free-model:free')).toMatchObject({ supportsTools: false, supportsVision: false, inputCostPer1kTokens: 0 });
+    expect(await provider.supportsTools('test/free-model:free')).toBe(false);
+    expect(catalog.getStatus('openrouter')?.origin).toBe('api');
+    expect(hits['/openrouter/models']).toBe(1);
+  });
+
+  it('should reuse the cached list until it expires', async () => {
+    await new OpenRouterProvider('test-key', `${baseUrl}/openrouter`, createCatalog().catalog).getSupportedModels();
+
+    const { catalog } = createCatalog();
+    await new OpenRouterProvider('test-key', `${baseUrl}/openrouter`, catalog).getSupportedModels();
+    expect(catalog.getStatus('openrouter')?.origin).toBe('cache');
+    expect(hits['/openrouter/models']).toBe(1);
+
+    const expired = createCatalog(0).catalog;
+    await new OpenRouterProvider('test-key', `${baseUrl}/openrouter`, expired).getSupportedModels();
+    expect(expired.getStatus('openrouter')?.origin).toBe('api');
+    expect(hits['/openrouter/models']).toBe(2);
+  });
+
+  it('should fall back to an old cache and then to the built-in list when offline', async () => {
+    await new OpenRouterProvider('test-key', `${baseUrl}/openrouter`, createCatalog().catalog).getSupportedModels();
+
+    // Same source, but the endpoint now fails
+    const { catalog } = createCatalog(0);
+    const fetchFails = async () => { throw new Error('offline'); };
+    const models = await catalog.getModels('openrouter', `${baseUrl}/openrouter`, fetchFails);
+    expect(models?.map(model => model.id)).toContain('test/priced-model');
+    expect(catalog.getStatus('openrouter')).toMatchObject({ origin: 'stale-cache', error: 'offline' });
+
+    const offline = createCatalog().catalog;
+    const provider = new OpenRouterProvider('test-key', `${baseUrl}/missing`, offline);
+    expect(await provider.getSupportedModels()).toEqual(modelRegistry.list('openrouter').map(model => model.id));
+    expect(offline.getStatus('openrouter')?.origin).toBe('builtin');
+  });
+
+  it('should price usage with cached OpenRouter prices', async () => {
+    expect(costTracker.getCostEstimate('openrouter', 'test/priced-model', 1000)).toBe(0);
+
+    await new OpenRouterProvider('test-key', `${baseUrl}/openrouter`, new ModelCatalog({ cacheDir })).getSupportedModels();
+
+    // 700 input tokens at $0.002/1k and 300 output tokens at $0.006/1k
+    expect(costTracker.getCostEstimate('openrouter', 'test/priced-model', 1000)).toBeCloseTo(0.0032, 6);
+  });
+
+  it('should apply a cached list without a request when the provider is created', async () => {
+    await new OpenRouterProvider('test-key', `${baseUrl}/openrouter`, createCatalog().catalog).getSupportedModels();
+
+    const { catalog, registry } = createCatalog();
+    new OpenRouterProvider('test-key', `${baseUrl}/openrouter`, catalog);
+
+    expect(registry.get('openrouter', 'test/priced-model').contextWindow).toBe(64000);
+    expect(hits['/openrouter/models']).toBe(1);
+  });
+
+  it('should list only OpenAI chat models, with limits from their family', async () => {
+    const { catalog, registry } = createCatalog();
+    const provider = new OpenAIProvider('test-key', `${baseUrl}/openai`, catalog);
+
+    expect(await provider.getSupportedModels()).toEqual(['gpt-4o-2024-08-06', 'o1-mini']);
+    expect(registry.get('openai', 'gpt-4o-2024-08-06')).toMatchObject({ contextWindow: 128000, inputCostPer1kTokens: 0.005 });
+  });
+});
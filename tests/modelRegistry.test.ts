@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { formatModelTable, ModelRegistry } from '../src/utils/modelRegistry.js';
+import { costTracker } from '../src/utils/costTracker.js';
+
+describe('ModelRegistry', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'feral-models-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should find models by exact id, dated snapshot or prefix', () => {
+    const registry = new ModelRegistry({ overridePaths: [] });
+
+    expect(registry.find('openai', 'gpt-4o')?.contextWindow).toBe(128000);
+    // The longest known id wins, so gpt-4o-mini is not mistaken for gpt-4o
+    expect(registry.find('openai', 'gpt-4o-mini-2024-07-18')?.id).toBe('gpt-4o-mini');
+    expect(registry.find('anthropic', 'claude-3-5-haiku')?.id).toBe('claude-3-5-haiku-20241022');
+    expect(registry.find('openai', 'o1-preview')).toBeUndefined();
+    // Sharing a prefix does not make it the same model
+    expect(registry.find('openai', 'gpt-4.1')).toBeUndefined();
+    expect(registry.find('openai', 'gpt-4o-2024-11-20')?.id).toBe('gpt-4o');
+    expect(registry.find('openai', 'my-gpt-4o')).toBeUndefined();
+  });
+
+  it('should fall back to provider defaults for unknown models', () => {
+    const registry = new ModelRegistry({ overridePaths: [] });
+
+    expect(registry.get('ollama', 'llama3.2')).toMatchObject({
+      provider: 'ollama',
+      id: 'llama3.2',
+      contextWindow: 8192,
+      supportsTools: true,
+      inputCostPer1kTokens: 0,
+    });
+    expect(registry.get('openai', 'gpt-4.1').contextWindow).toBe(128000);
+    expect(registry.hasProviderDefaults('ollama')).toBe(true);
+    expect(registry.hasProviderDefaults('openai')).toBe(false);
+  });
+
+  it('should apply overrides from models.json files in order', () => {
+    const global = join(dir, 'global.json');
+    const project = join(dir, 'project.json');
+    writeFileSync(global, JSON.stringify([
+      { provider: 'ollama', id: 'qwen2.5-coder:32b', contextWindow: 32768, supportsTools: false },
+      { provider: 'openai', id: 'gpt-4o', inputCostPer1kTokens: 0.0025 },
+    ]));
+    writeFileSync(project, JSON.stringify([
+      { provider: 'ollama', id: 'qwen2.5-coder:32b', supportsTools: true },
+      { id: 'missing-provider' },
+    ]));
+
+    const registry = new ModelRegistry({ overridePaths: [global, join(dir, 'absent.json'), project] });
+
+    expect(registry.get('ollama', 'qwen2.5-coder:32b')).toMatchObject({ contextWindow: 32768, supportsTools: true });
+    // Fields that are not overridden keep their built-in values
+    expect(registry.get('openai', 'gpt-4o')).toMatchObject({ inputCostPer1kTokens: 0.0025, outputCostPer1kTokens: 0.015 });
+    expect(registry.list('ollama').map(info => info.id)).toEqual(['qwen2.5-coder:32b']);
+  });
+
+  it('should ignore override files that are not an array', () => {
+    const path = join(dir, 'object.json');
+    writeFileSync(path, JSON.stringify({ provider: 'openai', id: 'gpt-4o', contextWindow: 1 }));
+
+    const registry = new ModelRegistry({ overridePaths: [path] });
+
+    expect(registry.get('openai', 'gpt-4o').contextWindow).toBe(128000);
+  });
+
+  it('should price usage from the registry', () => {
+    expect(costTracker.getCostEstimate('openai', 'gpt-4o-mini', 1000)).toBeGreaterThan(0);
+    expect(costTracker.getCostEstimate('ollama', 'llama3.2', 1000)).toBe(0);
+    expect(costTracker.getProviderCostInfo('gemini')).toHaveProperty('gemini-1.5-flash');
+  });
+});
+
+describe('formatModelTable', () => {
+  it('should lay models out in aligned columns and mark the default', () => {
+    const registry = new ModelRegistry({ overridePaths: [] });
+    const lines = formatModelTable([registry.get('openai', 'gpt-4o'), registry.get('ollama', 'llama3.2')], 'llama3.2');
+
+    expect(lines).toEqual([
+      '  Model     Context  Output  Tools  Vision  Stream  Input $/1M  Output $/1M',
+      '  gpt-4o       128K     16K  yes    yes     yes             $5          $15',
+      '* llama3.2       8K      4K  yes    no      yes           free         free',
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { OllamaProvider } from '../src/providers/ollama.js';
+import { parsePromptToolCalls, toPromptMessages } from '../src/providers/promptTools.js';
+import { ChatResponse, Tool } from '../src/types/index.js';
+
+const readTool: Tool = {
+  name: 'Read',
+  description: 'Read the contents of a file',
+  parameters: {
+    type: 'object',
+    properties: { file_path: { type: 'string', description: 'Path' } },
+    required: ['file_path'],
+  },
+};
+
+// Models the mock server treats as having a template without tool support
+const NO_TOOLS_MODEL = 'legacy-model';
+
+describe('Ollama tool calling (mock server)', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: any[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        requests.push(payload);
+
+        if (payload.tools && payload.model === NO_TOOLS_MODEL) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: `registry.ollama.ai/library/${NO_TOOLS_MODEL}:latest does not support tools` }));
+          return;
+        }
+
+        const message = payload.model === NO_TOOLS_MODEL
+          ? { role: 'assistant', content: '{"tool_calls": [{"name": "Read", "arguments": {"file_path": "/tmp/a.txt"}}]}' }
+          : {
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ function: { name: 'Read', arguments: { file_path: '/tmp/a.txt' } } }],
+          };
+
+        if (payload.stream) {
+          res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+          // Split the content across several chunks like a real stream
+          const content = message.content;
+          const middle = Math.floor(content.length / 2);
+          res.write(JSON.stringify({ message: { role: 'assistant', content: content.slice(0, middle) }, done: false }) + '\n');
+          res.write(JSON.stringify({ message: { ...message, content: content.slice(middle) }, done: false }) + '\n');
+          res.end(JSON.stringify({ message: { role: 'assistant', content: '' }, done: true, prompt_eval_count: 12, eval_count: 7 }) + '\n');
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ message, done: true, prompt_eval_count: 12, eval_count: 7 }));
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  async function collect(stream: AsyncIterable<Partial<ChatResponse>>): Promise<Partial<ChatResponse>[]> {
+    const chunks: Partial<ChatResponse>[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  it('should send tool definitions in the native tools field', async () => {
+    const provider = new OllamaProvider(baseUrl);
+    await provider.chat({ messages: [{ role: 'user', content: 'Read a.txt' }], model: 'llama3.2', tools: [readTool], temperature: 0 });
+
+    expect(requests[0].tools).toEqual([{
+      type: 'function',
+      function: { name: 'Read', description: readTool.description, parameters: readTool.parameters },
+    }]);
+    expect(requests[0].options.temperature).toBe(0);
+  });
+
+  it('should parse native tool calls from a non-streaming response', async () => {
+    const provider = new OllamaProvider(baseUrl);
+    const response = await provider.chat({
+      messages: [{ role: 'user', content: 'Read a.txt' }],
+      model: 'llama3.2',
+      tools: [readTool],
+    });
+
+    expect(response.message.toolCalls).toHaveLength(1);
+    expect(response.message.toolCalls![0].name).toBe('Read');
+    expect(JSON.parse(response.message.toolCalls![0].arguments)).toEqual({ file_path: '/tmp/a.txt' });
+    expect(response.usage).toEqual({ inputTokens: 12, outputTokens: 7 });
+  });
+
+  it('should parse native tool calls from a streaming response', async () => {
+    const provider = new OllamaProvider(baseUrl);
+    const chunks = await collect(provider.streamChat({
+      messages: [{ role: 'user', content: 'Read a.txt' }],
+      model: 'llama3.2',
+      tools: [readTool],
+    }));
+
+    const toolCalls = chunks.flatMap(chunk => chunk.message?.toolCalls || []);
+    expect(toolCalls.map(call => call.name)).toEqual(['Read']);
+    expect(chunks.some(chunk => chunk.usage?.outputTokens === 7)).toBe(true);
+  });
+
+  it('should send tool results back in the Ollama wire format', async () => {
+    const provider = new OllamaProvider(baseUrl);
+    await provider.chat({
+      model: 'llama3.2',
+      tools: [readTool],
+      messages: [
+        { role: 'user', content: 'Read a.txt' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'Read', arguments: '{"file_path":"/tmp/a.txt"}' }] },
+        { role: 'tool', content: 'hello', toolCallId: 'call_1', toolName: 'Read' },
+      ],
+    });
+
+    expect(requests[0].messages[1].tool_calls).toEqual([
+      { function: { name: 'Read', arguments: { file_path: '/tmp/a.txt' } } },
+    ]);
+    expect(requests[0].messages[2]).toEqual({ role: 'tool', content: 'hello', tool_name: 'Read' });
+  });
+
+  it('should fall back to prompt-based tool calls when the model lacks tool support', async () => {
+    const provider = new OllamaProvider(baseUrl);
+    const response = await provider.chat({
+      messages: [{ role: 'user', content: 'Read a.txt' }],
+      model: NO_TOOLS_MODEL,
+      tools: [readTool],
+    });
+
+    // First attempt with native tools, retry with the tools described in a system prompt
+    expect(requests).toHaveLength(2);
+    expect(requests[1].tools).toBeUndefined();
+    expect(requests[1].messages[0].role).toBe('system');
+    expect(requests[1].messages[0].content).toContain('### Read');
+
+    expect(response.message.content).toBe('');
+    expect(response.message.toolCalls?.[0].name).toBe('Read');
+    expect(JSON.parse(response.message.toolCalls![0].arguments)).toEqual({ file_path: '/tmp/a.txt' });
+
+    // The model is remembered and later requests go straight to prompt mode
+    await provider.chat({ messages: [{ role: 'user', content: 'again' }], model: NO_TOOLS_MODEL, tools: [readTool] });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should hold back streamed protocol JSON and emit tool calls in prompt mode', async () => {
+    const provider = new OllamaProvider(baseUrl, 'prompt');
+    const chunks = await collect(provider.streamChat({
+      messages: [{ role: 'user', content: 'Read a.txt' }],
+      model: NO_TOOLS_MODEL,
+      tools: [readTool],
+    }));
+
+    const text = chunks.map(chunk => chunk.message?.content || '').join('');
+    const toolCalls = chunks.flatMap(chunk => chunk.message?.toolCalls || []);
+
+    expect(requests).toHaveLength(1);
+    expect(text).toBe('');
+    expect(toolCalls.map(call => call.name)).toEqual(['Read']);
+  });
+});
+
+describe('Prompt-based tool protocol', () => {
+  const lsTool: Tool = { name: 'LS', description: 'List a directory', parameters: { type: 'object', properties: {} } };
+
+  it('should leave plain answers untouched', () => {
+    expect(parsePromptToolCalls('The answer is 42.', [lsTool])).toEqual({ content: 'The answer is 42.' });
+  });
+
+  it('should parse a reply that is only the tool call envelope, fenced or not', () => {
+    const parsed = parsePromptToolCalls('```json\n{"tool_calls": [{"name": "LS", "arguments": {"path": "."}}]}\n```', [lsTool]);
+
+    expect(parsed.content).toBe('');
+    expect(parsed.toolCalls?.[0].name).toBe('LS');
+    expect(parsed.toolCalls?.[0].arguments).toBe('{"path":"."}');
+    expect(parsePromptToolCalls(' {"tool_calls": [{"name": "LS"}]}\n', [lsTool]).toolCalls?.[0].arguments).toBe('{}');
+  });
+
+  it('should ignore JSON that is not a tool call', () => {
+    const replies = [
+      'Here is the config: {"debug": true}',
+      '{"name": "LS", "arguments": {"path": "."}}',
+      'Register the tool like this: {"name": "foo"}',
+      'Call it like so:\n```json\n{"tool_calls": [{"name": "LS", "arguments": {}}]}\n```',
+      '{"tool_calls": [{"name": "LS"}]} is the format the model uses.',
+      '{"tool_calls": [{"name": "Bash", "arguments": {"command": "ls"}}]}',
+    ];
+    for (const content of replies) {
+      expect(parsePromptToolCalls(content, [lsTool])).toEqual({ content });
+    }
+  });
+
+  it('should render tool history as plain messages', () => {
+    const messages = toPromptMessages([
+      { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 'LS', arguments: '{"path":"."}' }] },
+      { role: 'tool', content: 'a.txt', toolCallId: 'c1', toolName: 'LS' },
+    ], [readTool]);
+
+    expect(messages[0].role).toBe('system');
+    expect(messages[1]).toEqual({ role: 'assistant', content: '{"tool_calls":[{"name":"LS","arguments":{"path":"."}}]}' });
+    expect(messages[2].role).toBe('user');
+    expect(messages[2].content).toContain('Result of tool call LS (c1)');
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider, parseHeaderList } from '../src/providers/openaiCompatible.js';
+import { ChatResponse, Tool } from '../src/types/index.js';
+
+const readTool: Tool = {
+  name: 'Read',
+  description: 'Read the contents of a file',
+  parameters: {
+    type: 'object',
+    properties: { file_path: { type: 'string', description: 'Path' } },
+    required: ['file_path'],
+  },
+};
+
+describe('OpenAI-compatible provider (mock server)', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: Array<{ url: string; headers: IncomingHttpHeaders; body: any }> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const payload = body ? JSON.parse(body) : undefined;
+        requests.push({ url: req.url || '', headers: req.headers, body: payload });
+
+        if (req.url === '/v1/models' || req.url === '/v1/custom/models') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ object: 'list', data: [{ id: 'qwen2.5-coder' }, { id: 'llama-3.1-8b' }] }));
+          return;
+        }
+
+        if (req.url !== '/v1/chat/completions') {
+          res.writeHead(404);
+          res.end('not found');
+          return;
+        }
+
+        if (payload.model === 'missing-model') {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: { message: 'The model `missing-model` does not exist.' } }));
+          return;
+        }
+
+        // Without native tools the mock answers with the prompt-based protocol
+        const message = payload.tools
+          ? { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'Read', arguments: '{"file_path":"/tmp/a.txt"}' } }] }
+          : { role: 'assistant', content: payload.messages[0].role === 'system' ? '{"tool_calls": [{"name": "Read", "arguments": {"file_path": "/tmp/a.txt"}}]}' : 'Hello there' };
+
+        if (payload.stream) {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          if (message.tool_calls) {
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'Read', arguments: '{"file_' } }] } }] })}\n\n`);
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'path":"/tmp/a.txt"}' } }] } }] })}\n\n`);
+          } else {
+            const content = message.content || '';
+            const middle = Math.floor(content.length / 2);
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: content.slice(0, middle) } }] })}\n\n`);
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: content.slice(middle) } }] })}\n\n`);
+          }
+          if (payload.stream_options?.include_usage) {
+            res.write(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 7 } })}\n\n`);
+          }
+          res.end('data: [DONE]\n\n');
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ choices: [{ message }], usage: { prompt_tokens: 12, completion_tokens: 7 } }));
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  async function collect(stream: AsyncIterable<Partial<ChatResponse>>): Promise<Partial<ChatResponse>[]> {
+    const chunks: Partial<ChatResponse>[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  it('should send requests to the configured base URL with extra headers', async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: `${baseUrl}/`,
+      apiKey: 'local-key',
+      headers: { 'X-Team': 'tools' },
+      defaultModel: 'qwen2.5-coder',
+    });
+
+    const response = await provider.chat({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(response.message.content).toBe('Hello there');
+    expect(response.usage).toEqual({ inputTokens: 12, outputTokens: 7 });
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].body.model).toBe('qwen2.5-coder');
+    expect(requests[0].headers['authorization']).toBe('Bearer local-key');
+    expect(requests[0].headers['x-team']).toBe('tools');
+  });
+
+  it('should send an explicit temperature of 0', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl, defaultModel: 'qwen2.5-coder' });
+    await provider.chat({ messages: [{ role: 'user', content: 'Hi' }], temperature: 0 });
+    await provider.chat({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(requests.map(request => request.body.temperature)).toEqual([0, 0.7]);
+  });
+
+  it('should not send an Authorization header without an API key', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl });
+    await provider.chat({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(requests[0].headers['authorization']).toBeUndefined();
+  });
+
+  it('should parse native tool calls', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl });
+    const response = await provider.chat({ messages: [{ role: 'user', content: 'Read a.txt' }], tools: [readTool] });
+
+    expect(requests[0].body.tools[0].function.name).toBe('Read');
+    expect(response.message.toolCalls).toEqual([{ id: 'call_1', name: 'Read', arguments: '{"file_path":"/tmp/a.txt"}' }]);
+  });
+
+  it('should stream tool call deltas', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl });
+    const chunks = await collect(provider.streamChat({ messages: [{ role: 'user', content: 'Read a.txt' }], tools: [readTool] }));
+
+    const deltas = chunks.flatMap(chunk => chunk.toolCallDeltas || []);
+    expect(deltas.map(delta => delta.arguments).join('')).toBe('{"file_path":"/tmp/a.txt"}');
+  });
+
+  it('should describe tools in a system prompt when the server lacks tool support', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl, supportsTools: false });
+    const response = await provider.chat({ messages: [{ role: 'user', content: 'Read a.txt' }], tools: [readTool] });
+
+    expect(requests[0].body.tools).toBeUndefined();
+    expect(requests[0].body.messages[0].content).toContain('### Read');
+    expect(response.message.content).toBe('');
+    expect(response.message.toolCalls?.[0].name).toBe('Read');
+  });
+
+  it('should hold back streamed protocol JSON when the server lacks tool support', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl, supportsTools: false });
+    const chunks = await collect(provider.streamChat({ messages: [{ role: 'user', content: 'Read a.txt' }], tools: [readTool] }));
+
+    const text = chunks.map(chunk => chunk.message?.content || '').join('');
+    const toolCalls = chunks.flatMap(chunk => chunk.message?.toolCalls || []);
+    expect(text).toBe('');
+    expect(toolCalls.map(call => call.name)).toEqual(['Read']);
+  });
+
+  it('should only request streaming usage when the server supports it', async () => {
+    const withoutUsage = await collect(new OpenAICompatibleProvider({ baseUrl }).streamChat({
+      messages: [{ role: 'user', content: 'Hi' }],
+    }));
+    expect(requests[0].body.stream_options).toBeUndefined();
+    expect(withoutUsage.some(chunk => chunk.usage)).toBe(false);
+    expect(withoutUsage.map(chunk => chunk.message?.content || '').join('')).toBe('Hello there');
+
+    const withUsage = await collect(new OpenAICompatibleProvider({ baseUrl, supportsStreamUsage: true }).streamChat({
+      messages: [{ role: 'user', content: 'Hi' }],
+    }));
+    expect(requests[1].body.stream_options).toEqual({ include_usage: true });
+    expect(withUsage.find(chunk => chunk.usage)?.usage).toEqual({ inputTokens: 12, outputTokens: 7 });
+  });
+
+  it('should list models from the models endpoint', async () => {
+    expect(await new OpenAICompatibleProvider({ baseUrl }).getSupportedModels()).toEqual(['qwen2.5-coder', 'llama-3.1-8b']);
+
+    const custom = new OpenAICompatibleProvider({ baseUrl, modelsEndpoint: 'custom/models' });
+    expect(await custom.getSupportedModels()).toEqual(['qwen2.5-coder', 'llama-3.1-8b']);
+    expect(requests[1].url).toBe('/v1/custom/models');
+  });
+
+  it('should fall back to the default model when listing fails', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl, modelsEndpoint: '/missing', defaultModel: 'local' });
+    expect(await provider.getSupportedModels()).toEqual(['local']);
+  });
+
+  it('should include the server error in API failures', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl });
+    await expect(provider.chat({ messages: [{ role: 'user', content: 'Hi' }], model: 'missing-model' }))
+      .rejects.toThrow(/OpenAI-compatible API error: 404 .*missing-model/);
+  });
+});
+
+describe('parseHeaderList', () => {
+  it('should parse Name: value entries', () => {
+    expect(parseHeaderList(['X-Team: tools', 'Authorization:Bearer abc:def'])).toEqual({
+      'X-Team': 'tools',
+      Authorization: 'Bearer abc:def',
+    });
+  });
+
+  it('should reject entries without a header name', () => {
+    expect(() => parseHeaderList(['no-separator'])).toThrow("Invalid header 'no-separator'");
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { ToolManager } from '../src/tools/index.js';
+import { AIProvider, AssistantMessage, ChatRequest, ChatResponse } from '../src/types/index.js';
+import { ConversationEngine, ConversationEvent } from '../src/utils/conversation.js';
+import { PlanDecision, PlanMode, PLAN_MODE_PROMPT } from '../src/utils/planMode.js';
+
+class ScriptedProvider implements AIProvider {
+  name = 'openai';
+  requests: ChatRequest[] = [];
+  private responses: AssistantMessage[];
+
+  constructor(responses: AssistantMessage[]) {
+    this.responses = responses;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    return { message: this.responses.shift() || { role: 'assistant', content: 'done' } };
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    yield await this.chat(request);
+  }
+
+  validateConfig(): boolean {
+    return true;
+  }
+
+  getDefaultModel(): string {
+    return 'gpt-4o-mini';
+  }
+
+  getSupportedModels(): string[] {
+    return ['gpt-4o-mini'];
+  }
+}
+
+const plan = '1. Read the config loader\n2. Add validation for the new field';
+
+function planModeWith(...decisions: PlanDecision[]): { planMode: PlanMode; reviewed: string[] } {
+  const reviewed: string[] = [];
+  const planMode = new PlanMode(true);
+  planMode.setReviewer(async (proposed) => {
+    reviewed.push(proposed);
+    return decisions.shift() || { action: 'approve' };
+  });
+  return { planMode, reviewed };
+}
+
+describe('Plan mode', () => {
+  it('should only advertise read-only tools and ExitPlanMode', () => {
+    const toolManager = new ToolManager();
+    toolManager.setContext({ planMode: new PlanMode(true) });
+
+    const names = toolManager.getToolDefinitions().map(tool => tool.name);
+    expect(names).toContain('Read');
+    expect(names).toContain('Grep');
+    expect(names).toContain('ExitPlanMode');
+    expect(names).not.toContain('Write');
+    expect(names).not.toContain('Bash');
+  });
+
+  it('should refuse write tools while active', async () => {
+    const toolManager = new ToolManager();
+    toolManager.setContext({ planMode: new PlanMode(true) });
+
+    const result = await toolManager.executeTool('Write', { file_path: '/tmp/plan-mode.txt', content: 'x' });
+    expect(result).toContain('not available in plan mode');
+  });
+
+  it('should unlock write tools when the plan is approved', async () => {
+    const { planMode, reviewed } = planModeWith({ action: 'approve' });
+    const toolManager = new ToolManager();
+    toolManager.setContext({ planMode });
+
+    const result = await toolManager.executeTool('ExitPlanMode', { plan });
+
+    expect(reviewed).toEqual([plan]);
+    expect(result).toContain('approved the plan');
+    expect(planMode.isActive()).toBe(false);
+    expect(toolManager.getToolDefinitions().map(tool => tool.name)).toContain('Write');
+  });
+
+  it('should return the edited plan to the model', async () => {
+    const { planMode } = planModeWith({ action: 'edit', plan: 'Only add validation' });
+    const toolManager = new ToolManager();
+    toolManager.setContext({ planMode });
+
+    const result = await toolManager.executeTool('ExitPlanMode', { plan });
+
+    expect(result).toContain('Only add validation');
+    expect(planMode.isActive()).toBe(false);
+  });
+
+  it('should stay in plan mode when no reviewer is available', async () => {
+    const planMode = new PlanMode(true);
+    const toolManager = new ToolManager();
+    toolManager.setContext({ planMode });
+
+    const result = await toolManager.executeTool('ExitPlanMode', { plan });
+
+    expect(result).toContain('no one is available to review it');
+    expect(planMode.isActive()).toBe(true);
+  });
+
+  it('should notify listeners when toggled', () => {
+    const planMode = new PlanMode();
+    const changes: boolean[] = [];
+    planMode.onChange(active => changes.push(active));
+
+    planMode.toggle();
+    planMode.toggle();
+
+    expect(changes).toEqual([true, false]);
+  });
+
+  it('should send rejection feedback back to the model as the tool result', async () => {
+    const { planMode } = planModeWith(
+      { action: 'reject', feedback: 'Also update the docs' },
+      { action: 'approve' },
+    );
+    const toolManager = new ToolManager();
+    toolManager.setContext({ planMode });
+    const provider = new ScriptedProvider([
+      { role: 'assistant', content: '', toolCalls: [{ id: 'p1', name: 'ExitPlanMode', arguments: JSON.stringify({ plan }) }] },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'p2', name: 'ExitPlanMode', arguments: JSON.stringify({ plan: `${plan}\n3. Update docs` }) }] },
+      { role: 'assistant', content: 'Implementing now.' },
+    ]);
+
+    const events: ConversationEvent[] = [];
+    for await (const event of new ConversationEngine(provider, toolManager, { stream: false }).run([
+      { role: 'user', content: 'Add validation' },
+    ])) {
+      events.push(event);
+    }
+
+    const results = events.filter(event => event.type === 'tool_result') as Array<Extract<ConversationEvent, { type: 'tool_result' }>>;
+    expect(results[0].result).toContain('Also update the docs');
+    expect(results[0].isError).toBe(false);
+
+    // The model is reminded of plan mode until the plan is approved
+    expect(provider.requests[0].messages[0]).toEqual({ role: 'system', content: PLAN_MODE_PROMPT });
+    expect(provider.requests[1].messages[0]).toEqual({ role: 'system', content: PLAN_MODE_PROMPT });
+    expect(provider.requests[2].messages[0].role).toBe('user');
+    expect(provider.requests[2].tools!.map(tool => tool.name)).toContain('Edit');
+  });
+});
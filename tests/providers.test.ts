@@ -1,6 +1,11 @@
-import { describe, it, expect, vi } from 'vitest';
-import { OpenAIProvider, OpenRouterProvider, ProviderFactory } from '../src/providers/index.js';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicProvider, FallbackProvider, GeminiProvider, OpenAICompatibleProvider, OpenAIProvider, OpenRouterProvider, ProviderFactory } from '../src/providers/index.js';
 import { ConfigManager } from '../src/utils/config.js';
+import { parseOpenAIToolCallDeltas, parseOpenAIToolCalls, toOpenAIMessages } from '../src/providers/openaiFormat.js';
+import { ToolCallAccumulator } from '../src/utils/conversation.js';
+import { ChatResponse } from '../src/types/index.js';
 
 // Mock fetch
 global.fetch = vi.fn();
@@ -24,6 +29,78 @@ describe('ProviderFactory', () => {
     expect(provider.name).toBe('openrouter');
   });
 
+  it('should create Anthropic provider', () => {
+    const configManager = new ConfigManager();
+    configManager.updateConfig({ provider: 'anthropic', anthropicApiKey: 'test-key' });
+
+    const provider = ProviderFactory.createProvider(configManager);
+    expect(provider).toBeInstanceOf(AnthropicProvider);
+    expect(provider.name).toBe('anthropic');
+    expect(provider.validateConfig()).toBe(true);
+  });
+
+  it('should create Gemini provider', () => {
+    const configManager = new ConfigManager();
+    configManager.updateConfig({ provider: 'gemini', geminiApiKey: 'test-key' });
+
+    const provider = ProviderFactory.createProvider(configManager);
+    expect(provider).toBeInstanceOf(GeminiProvider);
+    expect(provider.name).toBe('gemini');
+    expect(provider.getSupportedModels()).toContain('gemini-1.5-flash');
+  });
+
+  it('should create an OpenAI-compatible provider from its settings', () => {
+    const configManager = new ConfigManager();
+    configManager.updateConfig({
+      provider: 'openai-compatible',
+      openaiCompatibleBaseUrl: 'http://localhost:8000/v1',
+      defaultModel: 'qwen2.5-coder',
+    });
+
+    const provider = ProviderFactory.createProvider(configManager);
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.getDefaultModel()).toBe('qwen2.5-coder');
+  });
+
+  it('should require a base URL for the OpenAI-compatible provider', () => {
+    const configManager = new ConfigManager();
+    configManager.updateConfig({ provider: 'openai-compatible', openaiCompatibleBaseUrl: undefined });
+
+    expect(() => ProviderFactory.createProvider(configManager))
+      .toThrow('OpenAI-compatible base URL not found');
+  });
+
+  it('should chain configured fallbacks behind the provider', () => {
+    const configManager = new ConfigManager();
+    configManager.updateConfig({
+      provider: 'openrouter',
+      openrouterApiKey: 'test-key',
+      defaultModel: 'openai/gpt-4o',
+      anthropicApiKey: 'test-key',
+      fallbacks: ['anthropic:claude-3-5-haiku-20241022', 'gemini:gemini-1.5-flash', 'ollama:llama3.1:8b'],
+    });
+
+    const provider = ProviderFactory.createProvider(configManager) as FallbackProvider;
+    expect(provider).toBeInstanceOf(FallbackProvider);
+    expect(provider.name).toBe('openrouter');
+    expect(provider.getActive()).toEqual({ provider: 'openrouter', model: 'openai/gpt-4o' });
+    // Gemini has no API key, so it is left out of the chain
+    expect((provider as any).entries.map((entry: any) => `${entry.provider.name}:${entry.model}`)).toEqual([
+      'openrouter:openai/gpt-4o',
+      'anthropic:claude-3-5-haiku-20241022',
+      'ollama:llama3.1:8b',
+    ]);
+  });
+
+  it('should reject malformed fallbacks', () => {
+    const configManager = new ConfigManager();
+    configManager.updateConfig({ provider: 'openai', fallbacks: ['gpt-4o'] });
+    expect(() => ProviderFactory.createProvider(configManager)).toThrow(`Invalid fallback 'gpt-4o'`);
+
+    configManager.updateConfig({ fallbacks: ['mistral:large'] });
+    expect(() => ProviderFactory.createProvider(configManager)).toThrow(`Unknown provider 'mistral' in fallbacks`);
+  });
+
   it('should throw error for unknown provider', () => {
     const configManager = new ConfigManager();
     configManager.updateConfig({ provider: 'unknown' as any });
@@ -48,9 +125,9 @@ describe('OpenAIProvider', () => {
     expect(provider.getDefaultModel()).toBe('gpt-4-turbo-preview');
   });
 
-  it('should return supported models', () => {
+  it('should return supported models', async () => {
     const provider = new OpenAIProvider('test-key');
-    const models = provider.getSupportedModels();
+    const models = await provider.getSupportedModels();
     expect(models).toContain('gpt-4-turbo-preview');
     expect(models).toContain('gpt-3.5-turbo');
   });
@@ -70,10 +147,119 @@ describe('OpenRouterProvider', () => {
     expect(provider.getDefaultModel()).toBe('anthropic/claude-3.5-sonnet');
   });
 
-  it('should return supported models', () => {
+  it('should return supported models', async () => {
     const provider = new OpenRouterProvider('test-key');
-    const models = provider.getSupportedModels();
+    const models = await provider.getSupportedModels();
     expect(models).toContain('anthropic/claude-3.5-sonnet');
     expect(models).toContain('openai/gpt-4');
   });
-});
\ No newline at end of file
+});
+
+describe('OpenAI wire format', () => {
+  const toolCall = { id: 'call_1', name: 'Read', arguments: '{"file_path":"/tmp/a.txt"}' };
+
+  it('should translate tool calls and tool results to the wire format', () => {
+    const wire = toOpenAIMessages([
+      { role: 'user', content: 'Read a.txt' },
+      { role: 'assistant', content: '', toolCalls: [toolCall] },
+      { role: 'tool', content: 'hello', toolCallId: 'call_1', toolName: 'Read' },
+    ]);
+
+    expect(wire[1]).toEqual({
+      role: 'assistant',
+      content: null,
+      tool_calls: [{
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'Read', arguments: '{"file_path":"/tmp/a.txt"}' },
+      }],
+    });
+    expect(wire[2]).toEqual({ role: 'tool', tool_call_id: 'call_1', name: 'Read', content: 'hello' });
+  });
+
+  it('should parse tool calls from a completion', () => {
+    const parsed = parseOpenAIToolCalls([
+      { id: 'call_1', type: 'function', function: { name: 'Read', arguments: '{"file_path":"/tmp/a.txt"}' } },
+    ]);
+
+    expect(parsed).toEqual([toolCall]);
+    expect(parseOpenAIToolCalls(undefined)).toBeUndefined();
+  });
+
+  it('should reassemble streamed tool-call deltas', () => {
+    const accumulator = new ToolCallAccumulator();
+    const chunks = [
+      [{ index: 0, id: 'call_1', type: 'function', function: { name: 'Read', arguments: '' } }],
+      [{ index: 0, function: { arguments: '{"file_path":' } }],
+      [{ index: 0, function: { arguments: '"/tmp/a.txt"}' } }],
+    ];
+
+    for (const chunk of chunks) {
+      accumulator.add(parseOpenAIToolCallDeltas(chunk)!);
+    }
+
+    expect(accumulator.getToolCalls()).toEqual([toolCall]);
+  });
+});
+
+describe('Streaming usage (mock server)', () => {
+  let server: Server;
+  let baseUrl: string;
+  let bodies: any[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        bodies.push(payload);
+
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hello' } }] })}\n\n`);
+        if (payload.stream_options?.include_usage) {
+          res.write(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 21, completion_tokens: 3 } })}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it.each([
+    ['OpenAI', (url: string) => new OpenAIProvider('test-key', url)],
+    ['OpenRouter', (url: string) => new OpenRouterProvider('test-key', url)],
+  ])('should request and report usage in %s streams', async (_name, createProvider) => {
+    bodies = [];
+    const chunks: Partial<ChatResponse>[] = [];
+    for await (const chunk of createProvider(baseUrl).streamChat({ messages: [{ role: 'user', content: 'Hi' }] })) {
+      chunks.push(chunk);
+    }
+
+    expect(bodies[0].stream_options).toEqual({ include_usage: true });
+    expect(chunks.map(chunk => chunk.message?.content || '').join('')).toBe('Hello');
+    expect(chunks.filter(chunk => chunk.usage).map(chunk => chunk.usage)).toEqual([{ inputTokens: 21, outputTokens: 3 }]);
+  });
+
+  it.each([
+    ['OpenAI', (url: string) => new OpenAIProvider('test-key', url)],
+    ['OpenRouter', (url: string) => new OpenRouterProvider('test-key', url)],
+  ])('should send an explicit temperature of 0 to %s', async (_name, createProvider) => {
+    bodies = [];
+    const provider = createProvider(baseUrl);
+    for await (const _chunk of provider.streamChat({ messages: [{ role: 'user', content: 'Hi' }], temperature: 0 })) {
+      // Only the request matters
+    }
+    for await (const _chunk of provider.streamChat({ messages: [{ role: 'user', content: 'Hi' }] })) {
+      // Only the request matters
+    }
+
+    expect(bodies.map(body => body.temperature)).toEqual([0, 0.7]);
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Headers } from 'node-fetch';
+import {
+  computeBackoff,
+  DEFAULT_RETRY_POLICY,
+  getRetryAfterMs,
+  ProviderHttpClient,
+  providerHttp,
+  RetryEvent,
+} from '../src/providers/request.js';
+import { OpenAICompatibleProvider } from '../src/providers/openaiCompatible.js';
+import { ErrorHandler, ProviderRequestError } from '../src/utils/errorHandler.js';
+
+describe('Provider request retries (mock server)', () => {
+  let server: Server;
+  let baseUrl: string;
+  // Responses to send for each path, consumed in order; afterwards 200
+  let scripts: Record<string, Array<{ status: number; headers?: Record<string, string>; body?: string; delayMs?: number }>> = {};
+  let hits: Record<string, number> = {};
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        const path = req.url || '';
+        hits[path] = (hits[path] || 0) + 1;
+
+        // Starts a stream and never finishes it
+        if (path === '/v1/stalled/chat/completions') {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hello' } }] })}\n\n`);
+          return;
+        }
+
+        const scripted = scripts[path]?.shift();
+        if (scripted) {
+          setTimeout(() => {
+            res.writeHead(scripted.status, scripted.headers);
+            res.end(scripted.body || '');
+          }, scripted.delayMs || 0);
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'ok' } }] }));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    scripts = {};
+    hits = {};
+  });
+
+  function createClient(maxRetries = 3): { client: ProviderHttpClient; events: RetryEvent[] } {
+    const client = new ProviderHttpClient();
+    client.setPolicy({ maxRetries, baseDelayMs: 5, maxDelayMs: 20 });
+    const events: RetryEvent[] = [];
+    client.onRetry(event => events.push(event));
+    return { client, events };
+  }
+
+  it('should retry server errors until the request succeeds', async () => {
+    scripts['/flaky'] = [{ status: 503, body: 'unavailable' }, { status: 502, body: 'bad gateway' }];
+    const { client, events } = createClient();
+
+    const response = await client.fetch('Test', `${baseUrl}/flaky`);
+
+    expect(response.status).toBe(200);
+    expect(hits['/flaky']).toBe(3);
+    expect(events.map(event => [event.attempt, event.reason])).toEqual([[1, 'HTTP 503'], [2, 'HTTP 502']]);
+  });
+
+  it('should wait as long as retry-after-ms asks on a rate limit', async () => {
+    scripts['/limited'] = [{ status: 429, headers: { 'retry-after-ms': '60' }, body: 'slow down' }];
+    const { client, events } = createClient();
+
+    const started = Date.now();
+    await client.fetch('Test', `${baseUrl}/limited`);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(55);
+    expect(events).toEqual([{ provider: 'Test', attempt: 1, maxRetries: 3, delayMs: 60, reason: 'rate limited' }]);
+  });
+
+  it('should fail immediately on client errors', async () => {
+    scripts['/bad'] = [{ status: 401, body: 'invalid api key' }];
+    const { client, events } = createClient();
+
+    const error = await client.fetch('Test', `${baseUrl}/bad`).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderRequestError);
+    expect(error.message).toBe('Test API error: 401 invalid api key');
+    expect(error.code).toBe('AUTHENTICATION_FAILED');
+    expect(hits['/bad']).toBe(1);
+    expect(events).toEqual([]);
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    scripts['/down'] = Array.from({ length: 5 }, () => ({ status: 500, body: 'boom' }));
+    const { client } = createClient(2);
+
+    await expect(client.fetch('Test', `${baseUrl}/down`)).rejects.toThrow('Test API error: 500 boom');
+    expect(hits['/down']).toBe(3);
+  });
+
+  it('should not retry when the server asks for a longer wait than allowed', async () => {
+    scripts['/later'] = [{ status: 429, headers: { 'retry-after': '3600' }, body: 'quota exceeded' }];
+    const { client } = createClient();
+
+    await expect(client.fetch('Test', `${baseUrl}/later`)).rejects.toThrow('429 quota exceeded');
+    expect(hits['/later']).toBe(1);
+  });
+
+  it('should retry dropped connections but not refused ones', async () => {
+    const { client, events } = createClient(1);
+    const dropping = createServer((req, res) => req.socket.destroy());
+    await new Promise<void>(resolve => dropping.listen(0, '127.0.0.1', resolve));
+    const port = (dropping.address() as AddressInfo).port;
+
+    try {
+      await expect(client.fetch('Test', `http://127.0.0.1:${port}/`)).rejects.toThrow(/socket hang up/);
+      expect(events.map(event => event.reason)).toEqual(['ECONNRESET']);
+    } finally {
+      await new Promise(resolve => dropping.close(resolve));
+    }
+
+    // Nothing listens on the port any more
+    await expect(client.fetch('Test', `http://127.0.0.1:${port}/`)).rejects.toThrow(/ECONNREFUSED/);
+    expect(events).toHaveLength(1);
+  });
+
+  it('should give up without retrying when the server does not respond in time', async () => {
+    scripts['/slow'] = [{ status: 200, delayMs: 300 }];
+    const { client, events } = createClient();
+    client.setPolicy({ timeoutMs: 50 });
+
+    const error = await client.fetch('Test', `${baseUrl}/slow`).catch(e => e);
+
+    expect(error.message).toBe('Test request timed out after 50ms');
+    expect(error.code).toBe('TIMEOUT');
+    expect(hits['/slow']).toBe(1);
+    expect(events).toEqual([]);
+  });
+
+  it('should stop waiting between retries when the request is cancelled', async () => {
+    scripts['/cancelled'] = [{ status: 503, body: 'unavailable' }];
+    const { client } = createClient();
+    client.setPolicy({ baseDelayMs: 10000, maxDelayMs: 10000 });
+    const controller = new AbortController();
+    client.onRetry(() => controller.abort());
+
+    const started = Date.now();
+    const error = await client.fetch('Test', `${baseUrl}/cancelled`, { signal: controller.signal }).catch(e => e);
+
+    expect(error.name).toBe('AbortError');
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(hits['/cancelled']).toBe(1);
+  });
+
+  it('should abort a stream that is being read', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: `${baseUrl}/v1/stalled` });
+    const controller = new AbortController();
+    const chunks: string[] = [];
+
+    const reading = (async () => {
+      for await (const chunk of provider.streamChat({ messages: [{ role: 'user', content: 'Hi' }], signal: controller.signal })) {
+        chunks.push(chunk.message?.content || '');
+        controller.abort();
+      }
+    })();
+
+    await expect(reading).rejects.toMatchObject({ name: 'AbortError' });
+    expect(chunks).toEqual(['Hello']);
+  });
+
+  it('should retry provider requests through the shared client', async () => {
+    scripts['/v1/chat/completions'] = [{ status: 529, body: 'overloaded' }];
+    const original = providerHttp.getPolicy();
+    providerHttp.setPolicy({ baseDelayMs: 5 });
+
+    try {
+      const provider = new OpenAICompatibleProvider({ baseUrl: `${baseUrl}/v1` });
+      const response = await provider.chat({ messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(response.message.content).toBe('ok');
+      expect(hits['/v1/chat/completions']).toBe(2);
+    } finally {
+      providerHttp.setPolicy(original);
+    }
+  });
+});
+
+describe('Retry timing', () => {
+  it('should read Retry-After in seconds or as a date', () => {
+    const now = Date.parse('2024-06-01T12:00:00Z');
+
+    expect(getRetryAfterMs(new Headers({ 'retry-after': '2' }), now)).toBe(2000);
+    expect(getRetryAfterMs(new Headers({ 'retry-after': 'Sat, 01 Jun 2024 12:00:05 GMT' }), now)).toBe(5000);
+    expect(getRetryAfterMs(new Headers({ 'retry-after-ms': '250', 'retry-after': '1' }), now)).toBe(250);
+    expect(getRetryAfterMs(new Headers({}), now)).toBeUndefined();
+  });
+
+  it('should wait for exhausted rate limits to reset', () => {
+    const now = Date.parse('2024-06-01T12:00:00Z');
+
+    expect(getRetryAfterMs(new Headers({
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '1.5s',
+      'x-ratelimit-remaining-tokens': '2000',
+      'x-ratelimit-reset-tokens': '6m0s',
+    }), now)).toBe(1500);
+
+    expect(getRetryAfterMs(new Headers({
+      'anthropic-ratelimit-tokens-remaining': '0',
+      'anthropic-ratelimit-tokens-reset': '2024-06-01T12:00:20Z',
+    }), now)).toBe(20000);
+  });
+
+  it('should back off exponentially with jitter up to the cap', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+    expect(computeBackoff(1, policy, () => 0)).toBe(500);
+    expect(computeBackoff(1, policy, () => 1)).toBe(1000);
+    expect(computeBackoff(3, policy, () => 1)).toBe(4000);
+    expect(computeBackoff(10, policy, () => 1)).toBe(5000);
+  });
+
+  it('should classify retryable errors', () => {
+    expect(ErrorHandler.isRetryable(new ProviderRequestError('x', 429, ''))).toBe(true);
+    expect(ErrorHandler.isRetryable(new ProviderRequestError('x', 503, ''))).toBe(true);
+    expect(ErrorHandler.isRetryable(new ProviderRequestError('x', 400, ''))).toBe(false);
+    expect(ErrorHandler.isRetryable(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(ErrorHandler.isRetryable(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }))).toBe(false);
+    expect(ErrorHandler.isRetryable(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }))).toBe(false);
+    expect(ErrorHandler.isRetryable(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toBe(false);
+  });
+});
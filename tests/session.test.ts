@@ -93,6 +93,62 @@ describe('SessionManager', () => {
       expect(session?.messages[1].content).toBe('Hi there!');
     });
 
+    it('should round-trip tool calls and tool results', async () => {
+      const session = await sessionManager.createSession('openai');
+      const toolCallMessage = {
+        role: 'assistant' as const,
+        content: 'Let me look',
+        toolCalls: [{ id: 'call_1', name: 'Read', arguments: '{"file_path":"/tmp/a.txt"}' }],
+      };
+      const toolResultMessage = {
+        role: 'tool' as const,
+        content: 'File does not exist: /tmp/a.txt',
+        toolCallId: 'call_1',
+        toolName: 'Read',
+        isError: true,
+      };
+
+      await sessionManager.addMessage(toolCallMessage);
+      await sessionManager.addMessage(toolResultMessage);
+
+      const loaded = await new SessionManager().loadSession(session.id);
+      expect(loaded?.messages).toEqual([toolCallMessage, toolResultMessage]);
+
+      const markdown = await sessionManager.exportSession(session.id, 'markdown');
+      expect(markdown).toContain('**Tool call:** `Read` (call_1)');
+      expect(markdown).toContain('## Tool Result: Read (error)');
+    });
+
+    it('should replace messages with their compacted form and keep the record', async () => {
+      const session = await sessionManager.createSession('openai');
+      const original = [
+        { role: 'user' as const, content: 'Look at the parser' },
+        { role: 'assistant' as const, content: 'It has a bug' },
+      ];
+      for (const message of original) {
+        await sessionManager.addMessage(message);
+      }
+
+      const compacted = [{ role: 'system' as const, content: 'Summary: the parser has a bug' }];
+      await sessionManager.recordCompaction({
+        trigger: 'manual',
+        at: new Date().toISOString(),
+        tokensBefore: 20,
+        tokensAfter: 10,
+        summarizedMessages: 2,
+        trimmedToolOutputs: 0,
+        summary: 'the parser has a bug',
+        replaced: original,
+      }, compacted);
+
+      const loaded = await new SessionManager().loadSession(session.id);
+      expect(loaded?.messages).toEqual(compacted);
+      expect(loaded?.compactions?.[0].replaced).toEqual(original);
+
+      const markdown = await sessionManager.exportSession(session.id, 'markdown');
+      expect(markdown).toContain('Summarized 2 messages and trimmed 0 tool outputs: ~20 → ~10 tokens.');
+    });
+
     it('should throw error when adding message without active session', async () => {
       await expect(sessionManager.addMessage({ role: 'user', content: 'Test' }))
         .rejects.toThrow('No active session');
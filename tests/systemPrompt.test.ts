@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BASE_SYSTEM_PROMPT, SystemPrompt } from '../src/utils/systemPrompt.js';
+import { ConversationEngine } from '../src/utils/conversation.js';
+import { ToolManager } from '../src/tools/index.js';
+import { AIProvider, AssistantMessage, ChatRequest, ChatResponse } from '../src/types/index.js';
+
+class RecordingProvider implements AIProvider {
+  name = 'prompt-test';
+  requests: ChatRequest[] = [];
+
+  /** Replies given before the final 'ok', such as tool calls */
+  constructor(private replies: AssistantMessage[] = []) {}
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    return { message: this.replies.shift() || { role: 'assistant', content: 'ok' } };
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<Partial<ChatResponse>> {
+    yield await this.chat(request);
+  }
+
+  validateConfig(): boolean {
+    return true;
+  }
+
+  getDefaultModel(): string {
+    return 'model';
+  }
+
+  getSupportedModels(): string[] {
+    return ['model'];
+  }
+}
+
+describe('SystemPrompt', () => {
+  let tempDir: string;
+  let userDir: string;
+  let projectDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'feral-prompt-'));
+    userDir = join(tempDir, 'user');
+    projectDir = join(tempDir, 'project');
+
+    mkdirSync(join(projectDir, '.git'), { recursive: true });
+    mkdirSync(join(projectDir, 'src', 'parser'), { recursive: true });
+    writeFileSync(join(projectDir, '.git', 'HEAD'), 'ref: refs/heads/feature/prompt\n');
+    writeFileSync(join(projectDir, 'FERAL.md'), 'Run npm test before committing.');
+    writeFileSync(join(projectDir, 'src', 'parser', 'FERAL.md'), 'The parser is generated; edit grammar.pegjs instead.');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should combine the base prompt, environment facts and instruction files', () => {
+    mkdirSync(userDir);
+    writeFileSync(join(userDir, 'FERAL.md'), 'Answer in British English.');
+    const prompt = new SystemPrompt({ cwd: projectDir, userDir }).build();
+
+    expect(prompt.startsWith(BASE_SYSTEM_PROMPT)).toBe(true);
+    expect(prompt).toContain(`- Working directory: ${projectDir}`);
+    expect(prompt).toContain('- Git branch: feature/prompt');
+    expect(prompt).toContain('- Platform: ');
+    expect(prompt).toContain('(user)\n\nAnswer in British English.');
+    expect(prompt).toContain('## FERAL.md (project)\n\nRun npm test before committing.');
+    expect(prompt.indexOf('British English')).toBeLessThan(prompt.indexOf('npm test'));
+    expect(prompt).not.toContain('grammar.pegjs');
+  });
+
+  it('should find the project root and directory files from a subdirectory', () => {
+    const systemPrompt = new SystemPrompt({ cwd: join(projectDir, 'src', 'parser'), userDir });
+
+    expect(systemPrompt.getProjectRoot()).toBe(projectDir);
+    expect(systemPrompt.getInstructionFiles().map(file => file.scope)).toEqual(['user', 'project', 'directory']);
+    expect(systemPrompt.build()).toContain(`- Project root: ${projectDir}`);
+    expect(systemPrompt.build()).toContain('## src/parser/FERAL.md (directory)');
+  });
+
+  it('should pick up directory files where tools work and ignore paths outside the project', () => {
+    const systemPrompt = new SystemPrompt({ cwd: projectDir, userDir });
+
+    systemPrompt.trackToolCall({ file_path: '/etc/hosts' });
+    expect(systemPrompt.getInstructionFiles()).toHaveLength(2);
+
+    systemPrompt.trackToolCall({ file_path: 'src/parser/index.ts' });
+    expect(systemPrompt.build()).toContain('edit grammar.pegjs instead');
+  });
+
+  it('should list missing user and project files so they can be created', () => {
+    rmSync(join(projectDir, 'FERAL.md'));
+    const files = new SystemPrompt({ cwd: projectDir, userDir }).getInstructionFiles();
+
+    expect(files).toEqual([
+      { scope: 'user', path: join(userDir, 'FERAL.md') },
+      { scope: 'project', path: join(projectDir, 'FERAL.md') },
+    ]);
+  });
+
+  it('should describe a detached HEAD', () => {
+    writeFileSync(join(projectDir, '.git', 'HEAD'), '0123456789abcdef0123456789abcdef01234567\n');
+
+    expect(new SystemPrompt({ cwd: projectDir, userDir }).build()).toContain('- Git branch: detached at 0123456');
+  });
+
+  it('should send the prompt first in every request of the conversation engine', async () => {
+    const provider = new RecordingProvider();
+    const engine = new ConversationEngine(provider, new ToolManager(), {
+      stream: false,
+      systemPrompt: new SystemPrompt({ cwd: projectDir, userDir }),
+    });
+
+    for await (const _event of engine.run([{ role: 'user', content: 'Hi' }])) {
+      // drain
+    }
+
+    const messages = provider.requests[0].messages;
+    expect(messages.map(message => message.role)).toEqual(['system', 'user']);
+    expect(messages[0].content).toContain('Run npm test before committing.');
+  });
+
+  it('should only load instructions for paths a tool call worked on successfully', async () => {
+    const readCall = (id: string, file: string): AssistantMessage => ({
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id, name: 'Read', arguments: JSON.stringify({ file_path: join(projectDir, 'src', 'parser', file) }) }],
+    });
+    writeFileSync(join(projectDir, 'src', 'parser', 'index.ts'), 'export {};');
+    const provider = new RecordingProvider([readCall('missing', 'missing.ts'), readCall('found', 'index.ts')]);
+    const engine = new ConversationEngine(provider, new ToolManager(), {
+      stream: false,
+      systemPrompt: new SystemPrompt({ cwd: projectDir, userDir }),
+    });
+
+    for await (const _event of engine.run([{ role: 'user', content: 'Read the parser' }])) {
+      // drain
+    }
+
+    expect(provider.requests[1].messages[0].content).not.toContain('edit grammar.pegjs instead');
+    expect(provider.requests[2].messages[0].content).toContain('edit grammar.pegjs instead');
+  });
+});
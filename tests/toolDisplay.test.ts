@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { formatDuration, getToolDiff, parseToolArguments, readPreviousContent, summarizeToolCall } from '../src/utils/toolDisplay.js';
+
+describe('Tool display', () => {
+  it('should parse arguments and tolerate invalid JSON', () => {
+    expect(parseToolArguments({ id: '1', name: 'Bash', arguments: '{"command":"ls"}' })).toEqual({ command: 'ls' });
+    expect(parseToolArguments({ id: '1', name: 'LS', arguments: '' })).toEqual({});
+    expect(parseToolArguments({ id: '1', name: 'Bash', arguments: '{"command":' })).toBeUndefined();
+    expect(parseToolArguments({ id: '1', name: 'Bash', arguments: '[1]' })).toBeUndefined();
+  });
+
+  it('should summarize what a call works on', () => {
+    expect(summarizeToolCall('Bash', { command: 'npm test\n  -- --run' })).toBe('npm test -- --run');
+    expect(summarizeToolCall('Edit', { file_path: join(process.cwd(), 'src', 'cli.ts') })).toBe(join('src', 'cli.ts'));
+    expect(summarizeToolCall('Read', { file_path: '/etc/hosts' })).toBe('/etc/hosts');
+    expect(summarizeToolCall('MultiEdit', { file_path: 'a.ts', edits: [{}, {}] })).toBe('a.ts (2 edits)');
+    expect(summarizeToolCall('Grep', { pattern: 'TODO', path: 'src' })).toBe('TODO in src');
+    expect(summarizeToolCall('Think', { thought: 'plan', depth: 2, tags: ['x'] })).toBe('thought: plan, depth: 2');
+    expect(summarizeToolCall('Bash', { command: 'x'.repeat(100) }, 10)).toBe('xxxxxxxxx…');
+    expect(summarizeToolCall('Bash', { command: `echo ${'x'.repeat(100)}\nrm -rf build` }, Infinity)).toBe(`echo ${'x'.repeat(100)}\nrm -rf build`);
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(850)).toBe('850ms');
+    expect(formatDuration(4230)).toBe('4.2s');
+    expect(formatDuration(125000)).toBe('2m 05s');
+  });
+
+  it('should diff edits from their arguments', () => {
+    expect(getToolDiff('Edit', {
+      old_string: 'const a = 1;\nconst b = 2;\nconst c = 3;',
+      new_string: 'const a = 1;\nconst b = 20;\nconst c = 3;',
+    })).toEqual([
+      { kind: 'context', text: 'const a = 1;' },
+      { kind: 'remove', text: 'const b = 2;' },
+      { kind: 'add', text: 'const b = 20;' },
+      { kind: 'context', text: 'const c = 3;' },
+    ]);
+
+    expect(getToolDiff('MultiEdit', {
+      edits: [{ old_string: 'a', new_string: 'b' }, { old_string: 'c', new_string: 'd' }],
+    })?.map(line => line.kind)).toEqual(['remove', 'add', 'gap', 'remove', 'add']);
+
+    expect(getToolDiff('Write', { content: 'one\ntwo\n' })).toEqual([
+      { kind: 'add', text: 'one' },
+      { kind: 'add', text: 'two' },
+    ]);
+    expect(getToolDiff('Write', { content: 'one\n2\n' }, 'one\ntwo\n')).toEqual([
+      { kind: 'context', text: 'one' },
+      { kind: 'remove', text: 'two' },
+      { kind: 'add', text: '2' },
+    ]);
+    expect(getToolDiff('Bash', { command: 'ls' })).toBeUndefined();
+  });
+
+  it('should read the content a Write replaces', async () => {
+    const path = join(tmpdir(), `feral-previous-${process.pid}.txt`);
+    await writeFile(path, 'before');
+    try {
+      expect(await readPreviousContent('Write', { file_path: path })).toBe('before');
+      expect(await readPreviousContent('Write', { file_path: `${path}.missing` })).toBeUndefined();
+      expect(await readPreviousContent('Edit', { file_path: path })).toBeUndefined();
+    } finally {
+      await rm(path, { force: true });
+    }
+  });
+});
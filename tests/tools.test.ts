@@ -51,6 +51,19 @@ describe('BashTool', () => {
     const result = await bashTool.execute({});
     expect(result).toContain('Error (MISSING_PARAMETERS): Missing required parameters: command');
   });
+
+  it('should stop the command and everything it started when cancelled', async () => {
+    const bashTool = new BashTool();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+
+    const started = Date.now();
+    const result = await bashTool.execute({ command: 'echo started; sleep 30 & sleep 30; echo finished' }, controller.signal);
+
+    expect(result).toBe('Command cancelled by user\nstarted');
+    // The shell only exits once the background sleep is gone too
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
 });
 
 describe('ReadTool', () => {
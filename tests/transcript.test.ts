@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import stripAnsi from 'strip-ansi';
+import { Message } from '../src/types/index.js';
+import { buildTranscript, createTranscriptCache, findMatches, findRunningToolCall, getJumpKey, TranscriptLine } from '../src/tui/transcript.js';
+
+function text(lines: TranscriptLine[]): string[] {
+  return lines.map(line => stripAnsi(line.text));
+}
+
+const conversation: Message[] = [
+  { role: 'user', content: 'List the files' },
+  {
+    role: 'assistant',
+    content: 'Looking.',
+    toolCalls: [
+      { id: 'call-1', name: 'LS', arguments: '{"path":"src"}' },
+      { id: 'call-2', name: 'Bash', arguments: '{"command":"npm test"}' },
+    ],
+  },
+  { role: 'tool', content: 'cli.ts\nindex.ts', toolCallId: 'call-1', toolName: 'LS', durationMs: 12 },
+];
+
+describe('Transcript', () => {
+  it('should show tool results with the calls that made them', () => {
+    expect(text(buildTranscript(conversation, { width: 80, raw: true }))).toEqual([
+      '👤 You',
+      'List the files',
+      '',
+      '🤖 Assistant',
+      'Looking.',
+      '',
+      '✔ LS src (12ms)',
+      '  cli.ts',
+      '  index.ts',
+      '',
+      '○ Bash npm test (not run)',
+      '',
+    ]);
+  });
+
+  it('should mark the running call and show results whose call is gone', () => {
+    const lines = buildTranscript(conversation, { width: 80, raw: true, isLoading: true });
+    expect(lines.find(line => line.spinner)?.text).toContain('npm test');
+
+    const orphaned = text(buildTranscript(conversation.slice(2), { width: 80 }));
+    expect(orphaned.slice(0, 2)).toEqual(['🔧 Tool result', 'cli.ts']);
+  });
+
+  it('should leave out the call waiting for approval, which is shown with the prompt', () => {
+    expect(findRunningToolCall(conversation)?.id).toBe('call-2');
+    expect(findRunningToolCall(conversation.slice(0, 1))).toBeUndefined();
+
+    const lines = text(buildTranscript(conversation, { width: 80, isLoading: true, awaitingApproval: true }));
+    expect(lines.some(line => line.includes('npm test'))).toBe(false);
+    expect(lines).toContain('✔ LS src (12ms)');
+  });
+
+  it('should only render messages again when they change', () => {
+    const cache = createTranscriptCache();
+    const first = buildTranscript(conversation, { width: 80 }, cache);
+    const streaming: Message = { role: 'assistant', content: 'Done' };
+
+    const second = buildTranscript([...conversation, streaming], { width: 80 }, cache);
+    expect(second.slice(0, first.length)).toEqual(first);
+    expect(second[0]).toBe(first[0]);
+
+    // A running tool call changes the state of the reply that made it
+    const loading = buildTranscript(conversation, { width: 80, isLoading: true }, cache);
+    expect(loading[0]).toBe(first[0]);
+    expect(loading.find(line => line.spinner)).toBeDefined();
+  });
+
+  it('should give every row a single terminal line', () => {
+    const lines = buildTranscript([{ role: 'user', content: 'word '.repeat(20).trim() }], { width: 30 });
+    expect(lines.length).toBeGreaterThan(3);
+    expect(lines.every(line => stripAnsi(line.text).length <= 30)).toBe(true);
+  });
+
+  it('should find rows matching a search, ignoring case', () => {
+    const lines = buildTranscript(conversation, { width: 80, raw: true });
+    expect(findMatches(lines, 'INDEX')).toEqual([8]);
+    expect(findMatches(lines, '  ')).toEqual([]);
+  });
+
+  it('should recognise Home and End', () => {
+    expect(getJumpKey('[H', { meta: true })).toBe('top');
+    expect(getJumpKey('[4~', { meta: true })).toBe('bottom');
+    expect(getJumpKey('[H', { meta: false })).toBeUndefined();
+    expect(getJumpKey('h', { meta: true })).toBeUndefined();
+  });
+});